@@ -0,0 +1,35 @@
+/*
+ * API Route: DELETE /api/alerts/[id]
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Deletes an alert rule. Notifications it already produced stay in the inbox.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { deleteAlertRule } from '@/lib/alerts';
+import { getCurrentOwner, signInRequired } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    const { id } = await params;
+
+    try {
+        if (!(await deleteAlertRule(owner, id))) {
+            return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+        }
+        return NextResponse.json({ deleted: id });
+    } catch (dbError) {
+        console.error('Failed to delete alert rule:', dbError);
+        return NextResponse.json({ error: 'Failed to delete alert rule' }, { status: 500 });
+    }
+}
@@ -0,0 +1,84 @@
+/*
+ * API Route: GET / POST /api/alerts
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Lists alert rules (optionally `?state=MA`) or creates one, e.g.
+ * `{ "type": "ev-per-dollar", "threshold": 0.8, "gameNumber": "2301",
+ *    "channel": "webhook", "target": "https://hooks.example.com/alerts" }`.
+ *
+ * Logic & Reasoning:
+ * Rules are checked after every refresh that changes the market (see
+ * lib/alerts.ts for exactly when each type fires). The body is validated by
+ * `validateAlertRuleInput` and `checkAlertRuleTarget` (webhooks must point at
+ * a public address), and anything off answers 400.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getSupportedStates, resolveStateParam } from '@/lib/scraper';
+import { AlertRuleInput, checkAlertRuleTarget, createAlertRule, getAlertRules, validateAlertRuleInput } from '@/lib/alerts';
+import { getCurrentOwner, signInRequired } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    const stateParam = new URL(request.url).searchParams.get('state');
+    const state = stateParam ? resolveStateParam(stateParam) : undefined;
+    if (state === null) {
+        return NextResponse.json(
+            { error: `Unsupported state. Supported states: ${getSupportedStates().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        return NextResponse.json({ rules: await getAlertRules(owner, state) });
+    } catch (dbError) {
+        console.error('Failed to load alert rules:', dbError);
+        return NextResponse.json({ error: 'Failed to fetch alert rules' }, { status: 500 });
+    }
+}
+
+export async function POST(request: Request) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    let body: Partial<AlertRuleInput>;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (typeof body !== 'object' || body === null) {
+        return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+    }
+
+    if (body.state !== undefined && body.state !== null && typeof body.state !== 'string') {
+        return NextResponse.json({ error: '"state" must be a string' }, { status: 400 });
+    }
+    const state = resolveStateParam(body.state ?? null);
+    if (!state) {
+        return NextResponse.json(
+            { error: `Unsupported state. Supported states: ${getSupportedStates().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    const invalid = validateAlertRuleInput(body) ?? await checkAlertRuleTarget(body);
+    if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    try {
+        const rule = await createAlertRule(owner, { ...(body as AlertRuleInput), state });
+        return NextResponse.json(rule, { status: 201 });
+    } catch (dbError) {
+        console.error('Failed to save alert rule:', dbError);
+        return NextResponse.json({ error: 'Failed to save alert rule' }, { status: 500 });
+    }
+}
@@ -0,0 +1,47 @@
+/*
+ * API Route: POST /api/auth/login
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Signs in with `{ "username", "password" }` and sets the session cookie.
+ * A wrong username and a wrong password get the same 401, so the answer
+ * doesn't reveal which accounts exist.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { verifyCredentials } from '@/lib/users';
+import { startSession } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+    let body: { username?: unknown; password?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (typeof body !== 'object' || body === null) {
+        return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+    }
+
+    if (typeof body.username !== 'string' || typeof body.password !== 'string') {
+        return NextResponse.json({ error: '"username" and "password" are required' }, { status: 400 });
+    }
+
+    try {
+        const user = await verifyCredentials(body.username, body.password);
+        if (!user) {
+            return NextResponse.json({ error: 'Wrong username or password' }, { status: 401 });
+        }
+
+        const response = NextResponse.json({ user });
+        await startSession(user.id, response);
+        return response;
+    } catch (dbError) {
+        console.error('Failed to sign in:', dbError);
+        return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+    }
+}
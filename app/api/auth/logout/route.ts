@@ -0,0 +1,27 @@
+/*
+ * API Route: POST /api/auth/logout
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Ends the current session and clears its cookie. Always succeeds, even when
+ * already signed out.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { endSession, SESSION_COOKIE } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+    const response = NextResponse.json({ user: null });
+    try {
+        await endSession(response);
+    } catch (dbError) {
+        // The cookie is still cleared; the stored session just expires on its own
+        console.warn('Failed to delete session:', dbError);
+        response.cookies.delete(SESSION_COOKIE);
+    }
+    return response;
+}
@@ -0,0 +1,19 @@
+/*
+ * API Route: GET /api/auth/me
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * The signed-in user with their preferences, or `{ "user": null }` when
+ * signed out. Never errors, so components can always ask.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+    return NextResponse.json({ user: await getCurrentUser() });
+}
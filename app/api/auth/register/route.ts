@@ -0,0 +1,47 @@
+/*
+ * API Route: POST /api/auth/register
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Creates a local account from `{ "username", "password" }` and signs it in.
+ * Answers 400 for invalid credentials and 409 if the username is taken.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { createUser, validateCredentials } from '@/lib/users';
+import { startSession } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+    let body: { username?: unknown; password?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (typeof body !== 'object' || body === null) {
+        return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+    }
+
+    const invalid = validateCredentials(body.username, body.password);
+    if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    try {
+        const user = await createUser(body.username as string, body.password as string);
+        if (!user) {
+            return NextResponse.json({ error: 'Username is already taken' }, { status: 409 });
+        }
+
+        const response = NextResponse.json({ user }, { status: 201 });
+        await startSession(user.id, response);
+        return response;
+    } catch (dbError) {
+        console.error('Failed to create account:', dbError);
+        return NextResponse.json({ error: 'Failed to create account' }, { status: 500 });
+    }
+}
@@ -0,0 +1,96 @@
+/*
+ * API Route: GET /api/games/[gameNumber]/history
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Walks every stored version of the requested game and returns a time series
+ * of its EV metrics and per-tier prizes remaining.
+ *
+ * Logic & Reasoning:
+ * 1. Change Points: The snapshot store only writes a new document when a game's
+ * prize counts change, so each point marks the moment the numbers moved.
+ * 2. Tier Alignment: Tiers are matched across snapshots by prize + odds rather
+ * than by position, using the newest snapshot's tier list as the reference.
+ * 3. Query Params: `since` (ISO date) and `limit` (newest N points) keep the
+ * payload small once history piles up.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getGameVersions } from '@/lib/game-store';
+import { getSupportedStates, resolveStateParam } from '@/lib/scraper';
+import { GameHistory, GameHistoryPoint, PrizeTier } from '@/types/lottery';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 500;
+
+function tierKey(tier: PrizeTier): string {
+    return `${tier.prize}|${tier.oddsText}`;
+}
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ gameNumber: string }> }
+) {
+    const { gameNumber } = await params;
+    const searchParams = new URL(request.url).searchParams;
+
+    const state = resolveStateParam(searchParams.get('state'));
+    if (!state) {
+        return NextResponse.json(
+            { error: `Unsupported state. Supported states: ${getSupportedStates().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    const limitParam = parseInt(searchParams.get('limit') ?? '', 10);
+    const limit = limitParam > 0 ? limitParam : DEFAULT_LIMIT;
+
+    const since = searchParams.get('since');
+    if (since && isNaN(Date.parse(since))) {
+        return NextResponse.json({ error: 'Invalid "since" date' }, { status: 400 });
+    }
+
+    try {
+        const entries = await getGameVersions(gameNumber, {
+            state,
+            since: since ? new Date(since).toISOString() : undefined,
+            limit,
+        });
+
+        if (entries.length === 0) {
+            return NextResponse.json({ error: 'No history found for this game' }, { status: 404 });
+        }
+
+        const latest = entries[entries.length - 1].game;
+        const referenceKeys = latest.prizeTiers.map(tierKey);
+
+        const points: GameHistoryPoint[] = entries.map(({ updatedAt, game }) => {
+            const remainingByKey = new Map(game.prizeTiers.map(tier => [tierKey(tier), tier.prizesRemaining]));
+            return {
+                updatedAt,
+                currentEV: game.currentEV,
+                evPerDollar: game.evPerDollar,
+                estimatedRemainingTickets: game.estimatedRemainingTickets,
+                prizesRemaining: referenceKeys.map(key => remainingByKey.get(key) ?? null)
+            };
+        });
+
+        const history: GameHistory = {
+            gameNumber,
+            name: latest.name,
+            prizes: latest.prizeTiers.map(tier => tier.prize),
+            points
+        };
+
+        return NextResponse.json(history);
+    } catch (dbError) {
+        console.error('Failed to load game history:', dbError);
+        return NextResponse.json(
+            { error: 'Failed to fetch history' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,90 @@
+/*
+ * API Route: GET /api/games/[gameNumber]
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * Returns a single game from the most recent snapshot, with every prize tier
+ * broken down into claimed percentage and contribution to current EV.
+ *
+ * Logic & Reasoning:
+ * 1. Source of Truth: We read the game's latest version from the same snapshot
+ * store that /api/games serves, so the detail page agrees with the main table.
+ * 2. Reliability: If the DB is down or the game is not in the snapshot yet, we
+ * fall back to a live Puppeteer parse of just that one game page.
+ * 3. The per-tier breakdown is computed on read (`calculateGameDetail`) rather
+ * than stored, so older snapshots get it for free.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getScraper, getSupportedStates, resolveStateParam, scrapeGame } from '@/lib/scraper';
+import { calculateEVForGame, calculateGameDetail } from '@/lib/ev-calculator';
+import { getLatestGame } from '@/lib/game-store';
+import { getEstimationMethods, resolveEstimationMethodParam } from '@/lib/ticket-estimators';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ gameNumber: string }> }
+) {
+    const { gameNumber } = await params;
+    const searchParams = new URL(request.url).searchParams;
+
+    const state = resolveStateParam(searchParams.get('state'));
+    if (!state) {
+        return NextResponse.json(
+            { error: `Unsupported state. Supported states: ${getSupportedStates().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    const estimationMethod = resolveEstimationMethodParam(searchParams.get('method'));
+    if (!estimationMethod) {
+        return NextResponse.json(
+            { error: `Unknown estimation method. Supported methods: ${getEstimationMethods().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    // Look the game up in the latest snapshot first
+    try {
+        const latest = await getLatestGame(gameNumber, state);
+        if (latest) {
+            return NextResponse.json(
+                { updatedAt: latest.updatedAt, game: calculateGameDetail(calculateEVForGame(latest.game, estimationMethod)) },
+                { headers: { 'X-Data-Source': 'MongoDB-Cache' } }
+            );
+        }
+    } catch (dbError) {
+        console.warn('MongoDB connection failed, falling back to live scrape:', dbError);
+    }
+
+    // Not cached (or DB down): scrape this one game live
+    try {
+        const scraper = getScraper(state)!;
+        const links = await scraper.listGames();
+        const link = links.find(l => l.url.endsWith(`/${gameNumber}`));
+
+        if (!link) {
+            return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+        }
+
+        const rawGame = await scrapeGame(link, state);
+        if (!rawGame) {
+            return NextResponse.json({ error: 'Failed to parse game page' }, { status: 502 });
+        }
+
+        return NextResponse.json(
+            { updatedAt: new Date().toISOString(), game: calculateGameDetail(calculateEVForGame(rawGame, estimationMethod)) },
+            { headers: { 'X-Data-Source': 'Live-Scrape' } }
+        );
+    } catch (scrapeError) {
+        console.error('Fatal Scrape Error:', scrapeError);
+        return NextResponse.json(
+            { error: 'Failed to fetch data' },
+            { status: 500 }
+        );
+    }
+}
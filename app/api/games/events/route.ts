@@ -0,0 +1,92 @@
+/*
+ * API Route: GET /api/games/events
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * A Server-Sent Events stream (`?state=MA`, default MA) with one `snapshot`
+ * event, `{ "state": "MA", "updatedAt": "..." }`, each time a new market
+ * snapshot is stored. Browsers listen with `EventSource` and fetch
+ * /api/games again when `updatedAt` is newer than what they show.
+ *
+ * Logic & Reasoning:
+ * 1. Announcements Only: Events carry the snapshot time, not the games. Each
+ * client asks /api/games for the games in its own method and tax mode, just
+ * like on first load.
+ * 2. The latest snapshot is sent right after connecting (see
+ * lib/snapshot-events.ts), so reconnecting clients catch up on what they
+ * missed. `retry` asks browsers to reconnect after 5s.
+ * 3. A comment line every 25s keeps proxies from closing an idle stream.
+ * 4. Everything is cleaned up when the browser disconnects.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getSupportedStates, resolveStateParam } from '@/lib/scraper';
+import { subscribeToSnapshots } from '@/lib/snapshot-events';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 25000;
+const RETRY_MS = 5000;
+
+export async function GET(request: Request) {
+    const state = resolveStateParam(new URL(request.url).searchParams.get('state'));
+    if (!state) {
+        return NextResponse.json(
+            { error: `Unsupported state. Supported states: ${getSupportedStates().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            let closed = false;
+            const send = (chunk: string) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(chunk));
+                } catch {
+                    // The stream went away under us; stop writing to it
+                    cleanup();
+                }
+            };
+
+            send(`retry: ${RETRY_MS}\n\n`);
+            const unsubscribe = subscribeToSnapshots(state, event => {
+                send(`event: snapshot\ndata: ${JSON.stringify(event)}\n\n`);
+            });
+            const heartbeat = setInterval(() => send(': keep-alive\n\n'), HEARTBEAT_MS);
+
+            cleanup = () => {
+                if (closed) return;
+                closed = true;
+                clearInterval(heartbeat);
+                unsubscribe();
+            };
+            request.signal.addEventListener('abort', () => {
+                cleanup();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed
+                }
+            });
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        },
+    });
+}
@@ -0,0 +1,126 @@
+/*
+ * API Route: GET /api/games/export
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Downloads the current market as a file: `?format=csv` (default), `json` or
+ * `xlsx`. `?includeTiers=1` adds the prize tiers, flattened to one row each.
+ *
+ * Logic & Reasoning:
+ * 1. Same View: `state`, `method`, `tax` and the query params of /api/games
+ * (`q`, filters, `sort`, `order`) mean the same thing here, so the table's
+ * export button can pass its own URL params through and the file matches the
+ * screen. `limit` and `cursor` are ignored: an export is every matching game.
+ * 2. Stored Data Only: Exports read the latest snapshot and never start a live
+ * scrape, which could keep a download hanging for minutes. If there is no
+ * snapshot yet we answer 404; if the DB is down, 503.
+ * 3. The filename carries the state and snapshot date, e.g.
+ * `scratchers-MA-2025-01-31.csv`, so downloads don't overwrite each other.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getSupportedStates, resolveStateParam } from '@/lib/scraper';
+import { parseGameQuery, runGameQuery } from '@/lib/game-query';
+import { calculateEVForGames, EVOptions, getTaxModel, resolveTaxModeParam } from '@/lib/ev-calculator';
+import { getEstimationMethods, resolveEstimationMethodParam } from '@/lib/ticket-estimators';
+import { getLatestMarket, MarketSnapshot } from '@/lib/game-store';
+import { getCurrentUser } from '@/lib/sessions';
+import { buildExportRows, EXPORT_FORMATS, ExportFormat, exportHeaders, toCSV, toXLSX } from '@/lib/export';
+
+export const dynamic = 'force-dynamic';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export async function GET(request: Request) {
+    const searchParams = new URL(request.url).searchParams;
+
+    const state = resolveStateParam(searchParams.get('state'));
+    if (!state) {
+        return NextResponse.json(
+            { error: `Unsupported state. Supported states: ${getSupportedStates().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    const estimationMethod = resolveEstimationMethodParam(searchParams.get('method'));
+    if (!estimationMethod) {
+        return NextResponse.json(
+            { error: `Unknown estimation method. Supported methods: ${getEstimationMethods().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    const taxMode = resolveTaxModeParam(searchParams.get('tax'));
+    if (!taxMode) {
+        return NextResponse.json(
+            { error: 'Unknown tax mode. Supported modes: pre-tax, after-tax' },
+            { status: 400 }
+        );
+    }
+    // Signed-in users can keep their own withholding rates (see lib/users.ts)
+    const userTaxModel = taxMode === 'after-tax' ? (await getCurrentUser())?.preferences.taxModel : undefined;
+    const evOptions: EVOptions = taxMode === 'after-tax' ? { tax: userTaxModel ?? getTaxModel() } : {};
+
+    const format = (searchParams.get('format') ?? 'csv').toLowerCase() as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+        return NextResponse.json(
+            { error: `Unknown export format. Supported formats: ${EXPORT_FORMATS.join(', ')}` },
+            { status: 400 }
+        );
+    }
+    const includeTiers = ['1', 'true'].includes(searchParams.get('includeTiers') ?? '');
+
+    const parsedQuery = parseGameQuery(searchParams);
+    if ('error' in parsedQuery) {
+        return NextResponse.json({ error: parsedQuery.error }, { status: 400 });
+    }
+    const query = { ...parsedQuery.query, limit: undefined, cursor: undefined };
+
+    let market: MarketSnapshot | null;
+    try {
+        market = await getLatestMarket(state);
+    } catch (dbError) {
+        console.error('MongoDB connection failed, cannot export:', dbError);
+        return NextResponse.json({ error: 'Database unavailable' }, { status: 503 });
+    }
+
+    if (!market) {
+        return NextResponse.json({ error: 'No data to export yet' }, { status: 404 });
+    }
+
+    const afterTax = taxMode === 'after-tax';
+    const { games } = runGameQuery(calculateEVForGames(market.games, estimationMethod, evOptions), query, afterTax);
+
+    const exportOptions = { includeTiers, afterTax };
+    const rows = buildExportRows(games, exportOptions);
+    const headers = exportHeaders(exportOptions);
+
+    let body: BodyInit;
+    switch (format) {
+        case 'json':
+            body = JSON.stringify({ updatedAt: market.updatedAt, estimationMethod, taxMode, rows }, null, 2);
+            break;
+        case 'xlsx':
+            body = new Uint8Array(toXLSX(rows, headers, `Scratchers ${state}`));
+            break;
+        case 'csv':
+        default:
+            body = toCSV(rows, headers);
+    }
+
+    const filename = `scratchers-${state}-${market.updatedAt.slice(0, 10)}${includeTiers ? '-tiers' : ''}.${format}`;
+
+    return new NextResponse(body, {
+        headers: {
+            'Content-Type': CONTENT_TYPES[format],
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'X-Data-Source': 'MongoDB-Cache',
+        },
+    });
+}
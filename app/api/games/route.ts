@@ -4,95 +4,196 @@
  * Responsible: Natalie King (Initial Implementation), Zaiyang Yu (Database & Concurrency Control)
  *
  * Description:
- *
- * Description:
  * Server-side API endpoint that handles data retrieval for the frontend.
  * It implements a "Stale-While-Revalidate" strategy using MongoDB.
  *
  * Logic & Reasoning:
  * 1. Reliability: We wrap the DB connection in a try/catch block. If the DB fails,
  * we gracefully fall back to a live scrape so the user never sees a broken page.
- * 2. Performance: We query MongoDB for the most recent snapshot (`sort: { updatedAt: -1 }`).
- * If data exists, it is returned immediately (fast).
- * 3. Concurrency Control: We use a global `isRefreshing` lock to ensure only one
- * background scrape runs at a time, even if multiple components request data simultaneously.
+ * 2. Performance: We query the snapshot store (lib/game-store.ts) for the games seen in
+ * the most recent refresh. If data exists, it is returned immediately (fast).
+ * 3. Concurrency Control: We use a global `refreshingStates` lock to ensure only one
+ * background scrape per state runs at a time, even if multiple components request data simultaneously.
  * 4. Freshness: We use Next.js `after()` to trigger a background scrape *after*
  * the response is sent. This updates the DB without making the user wait.
+ * Refreshes of a state start at most every REFRESH_MIN_INTERVAL_MINUTES
+ * (default 15), counted from the last attempt here or the last refresh stored
+ * by anyone (e.g. scripts/scrape.ts). Requests sent with `X-No-Refresh: 1`
+ * (the browser reloading after a live update) never start one.
+ * 5. Multi-State: `?state=XX` picks the scraper adapter and the stored market to
+ * serve; it defaults to Massachusetts so existing clients keep working.
+ * 6. Estimation Method: `?method=` picks the ticket estimator used for EV. The
+ * chosen method is echoed back as `estimationMethod` in the response.
+ * 7. Taxes: `?tax=after-tax` adds after-tax EV, net EV and EV per $ to each game
+ * (using the tax model from lib/ev-calculator.ts, echoed as `taxModel`); the
+ * pre-tax fields are always returned too. Signed-in users with their own
+ * `taxModel` preference get theirs instead.
+ * 8. Querying: `q`, `minPrice`, `maxPrice`, `minEvPerDollar` (plus the table's
+ * other filter params), `sort`, `order`, `limit` and `cursor` are validated and
+ * applied by lib/game-query.ts after EV is calculated. The response carries
+ * `total` (games in the market), `matched` (after filters) and `nextCursor`.
+ * 9. Validation: Scraped games are repaired or rejected by lib/validation.ts before
+ * EV is calculated; any repairs are listed per game in `validationWarnings`.
+ * 10. Alerts: Every refresh that changes the market checks the alert rules of
+ * the state against the market before and after it. That happens inside
+ * `refreshGames` (lib/refresh.ts), so refreshes from scripts/scrape.ts fire
+ * alerts too.
+ * 11. Live Updates: Every snapshot stored here that changed the market is
+ * announced to open browsers through /api/games/events (lib/snapshot-events.ts),
+ * so they can update without a reload. Refreshes that found nothing new aren't
+ * announced, so the browsers' reloads can't set off another round.
  * ----------------------------------------------------------------------------
  */
 
 import { NextResponse } from 'next/server';
 import { after } from 'next/server';
-import getCollection from '@/db';
-import { getAllGames } from '@/lib/scraper';
-import { calculateEVForGames } from '@/lib/ev-calculator';
+import { getAllGames, getSupportedStates, resolveStateParam } from '@/lib/scraper';
+import { recordScrapeRun } from '@/lib/scrape-runs';
+import { parseGameQuery, runGameQuery } from '@/lib/game-query';
+import { calculateEVForGames, EVOptions, getTaxModel, resolveTaxModeParam } from '@/lib/ev-calculator';
+import { getEstimationMethods, resolveEstimationMethodParam } from '@/lib/ticket-estimators';
+import { getLatestCheckedAt, getLatestMarket, MarketSnapshot, saveMarketSnapshot } from '@/lib/game-store';
+import { getCurrentUser } from '@/lib/sessions';
+import { refreshGames } from '@/lib/refresh';
+import { announceSnapshot } from '@/lib/snapshot-events';
 
 export const dynamic = 'force-dynamic';
 
-// [Zaiyang Yu] Concurrency Control: Global lock variable
+// [Zaiyang Yu] Concurrency Control: Global lock, one entry per state being refreshed
 // Lives in server memory to prevent multiple overlapping scrape jobs
-let isRefreshing = false;
+const refreshingStates = new Set<string>();
+
+// When this server last started a refresh of each state, for the minimum interval
+const lastRefreshAttempt = new Map<string, number>();
+
+// Helper to get the minimum time between background refreshes from environment, same style as getCacheTTL
+function getRefreshMinInterval(): number {
+    const envMinutes = process.env.REFRESH_MIN_INTERVAL_MINUTES;
+    const minutes = envMinutes ? parseFloat(envMinutes) : 15; // 15 min by default
+    return minutes * 60 * 1000;
+}
+
+export async function GET(request: Request) {
+    const searchParams = new URL(request.url).searchParams;
+
+    // Which state's games to serve, e.g. /api/games?state=MA (defaults to MA)
+    const state = resolveStateParam(searchParams.get('state'));
+    if (!state) {
+        return NextResponse.json(
+            { error: `Unsupported state. Supported states: ${getSupportedStates().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    // Which ticket estimation method to compute EV with, e.g. ?method=overall-odds (defaults to median)
+    const estimationMethod = resolveEstimationMethodParam(searchParams.get('method'));
+    if (!estimationMethod) {
+        return NextResponse.json(
+            { error: `Unknown estimation method. Supported methods: ${getEstimationMethods().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    // Whether to add after-tax figures, e.g. ?tax=after-tax (defaults to pre-tax only)
+    const taxMode = resolveTaxModeParam(searchParams.get('tax'));
+    if (!taxMode) {
+        return NextResponse.json(
+            { error: 'Unknown tax mode. Supported modes: pre-tax, after-tax' },
+            { status: 400 }
+        );
+    }
+    // Signed-in users can keep their own withholding rates (see lib/users.ts)
+    const userTaxModel = taxMode === 'after-tax' ? (await getCurrentUser())?.preferences.taxModel : undefined;
+    const evOptions: EVOptions = taxMode === 'after-tax' ? { tax: userTaxModel ?? getTaxModel() } : {};
+
+    // Filtering, sorting and paging, e.g. ?q=cash&minPrice=5&sort=evPerDollar&order=desc&limit=20
+    const parsedQuery = parseGameQuery(searchParams);
+    if ('error' in parsedQuery) {
+        return NextResponse.json({ error: parsedQuery.error }, { status: 400 });
+    }
+    const { query } = parsedQuery;
 
-export async function GET() {
-    let collection = null;
-    let cachedData = null;
+    let dbAvailable = false;
+    let cachedData: MarketSnapshot | null = null;
 
     // [Zaiyang Yu] Database Integration: Connection & Cache Retrieval
-    // Safely attempt to connect to MongoDB and retrieve the latest snapshot.
+    // Safely attempt to connect to MongoDB and retrieve the latest market from the snapshot store.
     // Wrapped in try/catch so DB failures don't crash the entire app.
     try {
-        collection = await getCollection('games');
-        cachedData = await collection.findOne(
-            {},
-            { sort: { updatedAt: -1 }, projection: { _id: 0 } }
-        );
+        cachedData = await getLatestMarket(state);
+        dbAvailable = true;
     } catch (dbError) {
         console.warn("MongoDB connection failed, falling back to live scrape:", dbError);
-        // We continue without crashing; collection remains null
+        // We continue without crashing; dbAvailable remains false
     }
 
     // Define Background Refresh Task with Locking
     const performBackgroundRefresh = async () => {
-        if (!collection) return; // Cannot save if DB is down
+        if (!dbAvailable) return; // Cannot save if DB is down
+
+        // Refreshed recently by this server: nothing to do yet
+        const minInterval = getRefreshMinInterval();
+        if (Date.now() - (lastRefreshAttempt.get(state) ?? 0) < minInterval) return;
 
         // [Zaiyang Yu] Concurrency Control: Lock Check
         // If a job is already running, exit immediately to save resources.
-        if (isRefreshing) {
+        if (refreshingStates.has(state)) {
             console.log('Background refresh already in progress. Skipping.');
             return;
         }
 
         // [Zaiyang Yu] Concurrency Control: Set Lock
-        isRefreshing = true;
-        console.log('Starting background data refresh...');
+        refreshingStates.add(state);
 
         try {
-            const rawGames = await getAllGames();
-            const gamesWithEV = calculateEVForGames(rawGames);
+            // Refreshed recently by someone else (another instance, the scrape CLI): nothing to do yet
+            const checkedAt = await getLatestCheckedAt(state);
+            if (checkedAt && Date.now() - Date.parse(checkedAt) < minInterval) return;
+
+            lastRefreshAttempt.set(state, Date.now());
+            console.log(`Starting background data refresh for ${state}...`);
 
-            const payload = {
-                updatedAt: new Date().toISOString(),
-                games: gamesWithEV,
-            };
             // [Zaiyang Yu] Database Integration: Persistence
-            // Save the newly scraped data to MongoDB for future requests
-            await collection.insertOne(payload);
-            console.log('Background refresh complete.');
+            // Scrape and save the newly scraped data to MongoDB for future requests (one document per changed game).
+            // Incremental: games whose stored prize counts are still current are carried forward, not re-parsed.
+            const { refreshed, skipped, changed } = await refreshGames({ state });
+            console.log(`Background refresh complete: ${refreshed} refreshed, ${skipped} skipped.`);
+
+            // Nothing new: the previous market is still current, so there is nothing to announce
+            if (!changed) return;
+
+            const current = await getLatestMarket(state);
+            if (current) {
+                announceSnapshot(state, current.updatedAt);
+            }
         } catch (err) {
             console.error('Background refresh failed:', err);
         } finally {
             // [Zaiyang Yu] Concurrency Control: Release Lock
             // Ensure lock is released even if the scrape fails
-            isRefreshing = false;
+            refreshingStates.delete(state);
         }
     };
 
     // [Zaiyang Yu] Logic: Cache Hit vs Miss Strategy
     if (cachedData) {
         // HIT: Return fast data immediately, then trigger background refresh
-        after(performBackgroundRefresh);
+        // (unless the browser is only reloading after a live update)
+        if (request.headers.get('X-No-Refresh') !== '1') {
+            after(performBackgroundRefresh);
+        }
+
+        // Recompute EV on read so stored games always carry the current calculator's fields and the requested method
+        const games = calculateEVForGames(cachedData.games, estimationMethod, evOptions);
+        const payload = {
+            updatedAt: cachedData.updatedAt,
+            estimationMethod,
+            taxMode,
+            taxModel: evOptions.tax,
+            ...runGameQuery(games, query, taxMode === 'after-tax'),
+        };
 
-        return NextResponse.json(cachedData, {
+        return NextResponse.json(payload, {
             headers: { 'X-Data-Source': 'MongoDB-Cache' },
         });
     } else {
@@ -100,18 +201,28 @@ export async function GET() {
         // This ensures the user gets data even if it's the very first run
         try {
             console.log('No cache available. Scraping live...');
-            const rawGames = await getAllGames();
-            const gamesWithEV = calculateEVForGames(rawGames);
+            // Only record the run when the audit log can actually be written
+            const rawGames = dbAvailable
+                ? (await recordScrapeRun({ state }, 'live')).games
+                : await getAllGames({ state });
+            const updatedAt = new Date().toISOString();
 
+            const games = calculateEVForGames(rawGames, estimationMethod, evOptions);
             const payload = {
-                updatedAt: new Date().toISOString(),
-                games: gamesWithEV,
+                updatedAt,
+                estimationMethod,
+                taxMode,
+                taxModel: evOptions.tax,
+                ...runGameQuery(games, query, taxMode === 'after-tax'),
             };
 
             // [Zaiyang Yu] Database Integration: Save Fallback Data
-            if (collection) {
+            // Always stored with the default method so history stays comparable
+            if (dbAvailable) {
                 try {
-                    await collection.insertOne(payload);
+                    if (await saveMarketSnapshot(calculateEVForGames(rawGames), updatedAt, { state })) {
+                        announceSnapshot(state, updatedAt);
+                    }
                 } catch (writeErr) {
                     console.error("Failed to write to MongoDB:", writeErr);
                 }
@@ -0,0 +1,93 @@
+/*
+ * API Route: GET /api/health
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Reports whether the stored market data for a state is fresh and how the
+ * last scrape run went, for uptime checks and for a quick look by hand.
+ *
+ * Logic & Reasoning:
+ * 1. Status: "down" if MongoDB can't be reached, "stale" if there is no data or
+ * it was last refreshed more than HEALTH_STALE_HOURS ago (default 24),
+ * "degraded" if the last run failed or some games didn't parse, otherwise "ok".
+ * A refresh that found nothing new still counts, so a quiet market isn't stale.
+ * 2. Only "down" answers 503; the other states answer 200 so the details are
+ * still readable by monitors that treat non-2xx as an outage.
+ * 3. Cheap: Only the time the state was last refreshed is read, never the
+ * games themselves, so frequent uptime checks cost a single indexed lookup.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getSupportedStates, resolveStateParam } from '@/lib/scraper';
+import { getLatestCheckedAt } from '@/lib/game-store';
+import { getLastSuccessfulRun, getScrapeRuns } from '@/lib/scrape-runs';
+import { HealthStatus } from '@/types/lottery';
+
+export const dynamic = 'force-dynamic';
+
+// Helper to get the staleness threshold from environment, same style as getCacheTTL
+function getStaleAfterMinutes(): number {
+    const envHours = process.env.HEALTH_STALE_HOURS;
+    return (envHours ? parseFloat(envHours) : 24) * 60; // 24 hours by default
+}
+
+export async function GET(request: Request) {
+    const searchParams = new URL(request.url).searchParams;
+
+    const state = resolveStateParam(searchParams.get('state'));
+    if (!state) {
+        return NextResponse.json(
+            { error: `Unsupported state. Supported states: ${getSupportedStates().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    const staleAfterMinutes = getStaleAfterMinutes();
+
+    try {
+        const [dataUpdatedAt, [lastRun], lastSuccess] = await Promise.all([
+            getLatestCheckedAt(state),
+            getScrapeRuns({ state, limit: 1 }),
+            getLastSuccessfulRun(state),
+        ]);
+
+        const dataAgeMinutes = dataUpdatedAt
+            ? Math.round((Date.now() - Date.parse(dataUpdatedAt)) / 60000)
+            : null;
+
+        let status: HealthStatus['status'] = 'ok';
+        if (dataAgeMinutes === null || dataAgeMinutes > staleAfterMinutes) {
+            status = 'stale';
+        } else if (lastRun && (lastRun.status === 'failed' || lastRun.status === 'partial')) {
+            status = 'degraded';
+        }
+
+        const health: HealthStatus = {
+            status,
+            state,
+            database: 'up',
+            dataUpdatedAt,
+            dataAgeMinutes,
+            staleAfterMinutes,
+            lastRun: lastRun ?? null,
+            lastSuccessfulRunAt: lastSuccess?.finishedAt ?? null,
+        };
+        return NextResponse.json(health);
+    } catch (dbError) {
+        console.error('Health check could not reach MongoDB:', dbError);
+
+        const health: HealthStatus = {
+            status: 'down',
+            state,
+            database: 'down',
+            dataUpdatedAt: null,
+            dataAgeMinutes: null,
+            staleAfterMinutes,
+            lastRun: null,
+            lastSuccessfulRunAt: null,
+        };
+        return NextResponse.json(health, { status: 503 });
+    }
+}
@@ -0,0 +1,76 @@
+/*
+ * API Route: PATCH / DELETE /api/ledger/[id]
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * PATCH records what a logged purchase paid out once it's scratched
+ * (`{ "prizeWon": 40 }`) or changes its note; DELETE removes it.
+ *
+ * Logic & Reasoning:
+ * Game, date, tickets and cost fix which prediction the entry is compared
+ * with, so they aren't editable: delete the entry and log it again instead.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { deleteLedgerEntry, LedgerEntryUpdate, updateLedgerEntry, validateLedgerEntryUpdate } from '@/lib/ledger';
+import { getCurrentOwner, signInRequired } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    const { id } = await params;
+
+    let body: LedgerEntryUpdate;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (typeof body !== 'object' || body === null) {
+        return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+    }
+
+    const invalid = validateLedgerEntryUpdate(body);
+    if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    try {
+        const entry = await updateLedgerEntry(owner, id, { prizeWon: body.prizeWon, note: body.note });
+        if (!entry) {
+            return NextResponse.json({ error: 'Ledger entry not found' }, { status: 404 });
+        }
+        return NextResponse.json(entry);
+    } catch (dbError) {
+        console.error('Failed to update ledger entry:', dbError);
+        return NextResponse.json({ error: 'Failed to update ledger entry' }, { status: 500 });
+    }
+}
+
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    const { id } = await params;
+
+    try {
+        if (!(await deleteLedgerEntry(owner, id))) {
+            return NextResponse.json({ error: 'Ledger entry not found' }, { status: 404 });
+        }
+        return NextResponse.json({ deleted: id });
+    } catch (dbError) {
+        console.error('Failed to delete ledger entry:', dbError);
+        return NextResponse.json({ error: 'Failed to delete ledger entry' }, { status: 500 });
+    }
+}
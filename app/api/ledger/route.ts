@@ -0,0 +1,85 @@
+/*
+ * API Route: GET / POST /api/ledger
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * GET returns the ticket ledger for a state (`?state=MA`, default MA): every
+ * logged purchase with the EV predicted for it, the totals, and realized vs
+ * expected ROI over time. POST logs a purchase, e.g.
+ * `{ "gameNumber": "2301", "purchasedAt": "2026-01-31", "tickets": 5,
+ *    "cost": 50, "prizeWon": 20 }`.
+ *
+ * Logic & Reasoning:
+ * Predictions come from the stored snapshot closest to the purchase date and
+ * are saved with the entry (see lib/ledger.ts), so a purchase of a game with
+ * no stored data answers 400: there would be nothing to compare it with.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getSupportedStates, resolveStateParam } from '@/lib/scraper';
+import { createLedgerEntry, getLedgerSummary, LedgerEntryInput, validateLedgerEntryInput } from '@/lib/ledger';
+import { getCurrentOwner, signInRequired } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+const unsupportedState = () => NextResponse.json(
+    { error: `Unsupported state. Supported states: ${getSupportedStates().join(', ')}` },
+    { status: 400 }
+);
+
+export async function GET(request: Request) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    const state = resolveStateParam(new URL(request.url).searchParams.get('state'));
+    if (!state) return unsupportedState();
+
+    try {
+        return NextResponse.json(await getLedgerSummary(owner, state));
+    } catch (dbError) {
+        console.error('Failed to load ledger:', dbError);
+        return NextResponse.json({ error: 'Failed to fetch ledger' }, { status: 500 });
+    }
+}
+
+export async function POST(request: Request) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    let body: Partial<LedgerEntryInput>;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (typeof body !== 'object' || body === null) {
+        return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+    }
+
+    if (body.state !== undefined && body.state !== null && typeof body.state !== 'string') {
+        return NextResponse.json({ error: '"state" must be a string' }, { status: 400 });
+    }
+    const state = resolveStateParam(body.state ?? null);
+    if (!state) return unsupportedState();
+
+    const invalid = validateLedgerEntryInput(body);
+    if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    try {
+        const entry = await createLedgerEntry(owner, { ...(body as LedgerEntryInput), state });
+        if (!entry) {
+            return NextResponse.json(
+                { error: `No stored data for game ${body.gameNumber} in ${state}, so there is no prediction to compare with` },
+                { status: 400 }
+            );
+        }
+        return NextResponse.json(entry, { status: 201 });
+    } catch (dbError) {
+        console.error('Failed to save ledger entry:', dbError);
+        return NextResponse.json({ error: 'Failed to save ledger entry' }, { status: 500 });
+    }
+}
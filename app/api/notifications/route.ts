@@ -0,0 +1,73 @@
+/*
+ * API Route: GET / PATCH /api/notifications
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * The in-app inbox. GET returns notifications newest first (`?unread=1` for
+ * unread only, `?limit=` default 50, max 200) plus the unread count. PATCH
+ * marks notifications read: `{ "ids": ["..."] }`, or all of them with no ids.
+ *
+ * Logic & Reasoning:
+ * Every alert match is stored, whatever channel it was sent through, so this
+ * doubles as the delivery log: each notification says whether its webhook or
+ * email went out.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getCurrentOwner, signInRequired } from '@/lib/sessions';
+import { countUnreadNotifications, getNotifications, markNotificationsRead } from '@/lib/notifications';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export async function GET(request: Request) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    const searchParams = new URL(request.url).searchParams;
+    const unreadOnly = ['1', 'true'].includes(searchParams.get('unread') ?? '');
+
+    const limitParam = parseInt(searchParams.get('limit') ?? '', 10);
+    const limit = limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT;
+
+    try {
+        const notifications = await getNotifications(owner, { unreadOnly, limit });
+        const unread = await countUnreadNotifications(owner);
+        return NextResponse.json({ unread, notifications });
+    } catch (dbError) {
+        console.error('Failed to load notifications:', dbError);
+        return NextResponse.json({ error: 'Failed to fetch notifications' }, { status: 500 });
+    }
+}
+
+export async function PATCH(request: Request) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    let body: { ids?: unknown } = {};
+    try {
+        const text = await request.text();
+        if (text) body = JSON.parse(text);
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (typeof body !== 'object' || body === null) {
+        return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+    }
+
+    const { ids } = body;
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string'))) {
+        return NextResponse.json({ error: '"ids" must be an array of strings' }, { status: 400 });
+    }
+
+    try {
+        return NextResponse.json({ marked: await markNotificationsRead(owner, ids) });
+    } catch (dbError) {
+        console.error('Failed to update notifications:', dbError);
+        return NextResponse.json({ error: 'Failed to update notifications' }, { status: 500 });
+    }
+}
@@ -0,0 +1,66 @@
+/*
+ * API Route: POST /api/notifications/test
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Sends a sample notification through a channel without storing it, so a
+ * webhook URL or mail setup can be checked before a real alert depends on it,
+ * e.g. `{ "channel": "email", "target": "me@example.com" }` against a local
+ * Mailpit, or `{ "channel": "webhook", "target": "https://hooks.example.com/alerts" }`.
+ *
+ * Logic & Reasoning:
+ * The same checks as rule creation apply (a signed-in user, and a webhook on
+ * a public address unless ALLOW_PRIVATE_WEBHOOKS is set), and the answer is
+ * the delivery record (`sent` or `failed` with the error), exactly as it
+ * would be stored on a real notification.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { checkAlertRuleTarget, validateAlertRuleInput } from '@/lib/alerts';
+import { getCurrentOwner, signInRequired } from '@/lib/sessions';
+import { deliverNotification } from '@/lib/notifications';
+import { DEFAULT_STATE } from '@/lib/scraper';
+import { AlertNotification, NotificationChannelType } from '@/types/lottery';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    let body: { channel?: NotificationChannelType; target?: string };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (typeof body !== 'object' || body === null) {
+        return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+    }
+
+    // Validated as if it were a new-game rule, which needs nothing but a channel
+    const input = { type: 'new-game' as const, channel: body.channel, target: body.target };
+    const invalid = validateAlertRuleInput(input) ?? await checkAlertRuleTarget(input);
+    if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const sample: AlertNotification = {
+        id: 'test',
+        owner,
+        ruleId: 'test',
+        ruleType: 'new-game',
+        state: DEFAULT_STATE,
+        gameNumber: '0000',
+        gameName: 'Test Notification',
+        message: 'This is a test notification from the scratcher alerts.',
+        createdAt: new Date().toISOString(),
+        read: false,
+        delivery: { channel: body.channel!, status: 'pending', attemptedAt: new Date().toISOString() },
+    };
+
+    const delivery = await deliverNotification(sample, body.channel!, body.target);
+    return NextResponse.json(delivery, { status: delivery.status === 'sent' ? 200 : 502 });
+}
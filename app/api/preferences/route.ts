@@ -0,0 +1,56 @@
+/*
+ * API Route: GET / PATCH /api/preferences
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Reads or updates the signed-in user's saved preferences. PATCH takes any of
+ * `defaultSort` ({ sort, order }), `favoriteGames`, `taxMode` and `taxModel`;
+ * fields left out are kept, and `null` clears defaultSort or taxModel.
+ *
+ * Logic & Reasoning:
+ * Preferences only exist for accounts, so both methods answer 401 when signed
+ * out; the table then simply keeps its defaults.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/sessions';
+import { parsePreferencesUpdate, updatePreferences } from '@/lib/users';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+    const user = await getCurrentUser();
+    if (!user) {
+        return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    return NextResponse.json({ preferences: user.preferences });
+}
+
+export async function PATCH(request: Request) {
+    const user = await getCurrentUser();
+    if (!user) {
+        return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const parsed = parsePreferencesUpdate(body);
+    if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    try {
+        const updated = await updatePreferences(user.id, parsed.changes);
+        return NextResponse.json({ preferences: updated?.preferences ?? user.preferences });
+    } catch (dbError) {
+        console.error('Failed to save preferences:', dbError);
+        return NextResponse.json({ error: 'Failed to save preferences' }, { status: 500 });
+    }
+}
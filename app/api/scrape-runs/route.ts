@@ -0,0 +1,51 @@
+/*
+ * API Route: GET /api/scrape-runs
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Returns the most recent scrape runs for a state from the audit log, plus a
+ * per-game summary of which pages keep failing to parse.
+ *
+ * Logic & Reasoning:
+ * 1. Query Params: `state` picks the lottery, `limit` how many runs to return
+ * (default 20, max 200). The failure summary covers the same runs.
+ * 2. Chronic vs One-Off: `failingGames` is sorted by how many of those runs a
+ * game failed in, so pages that never parse float to the top.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getSupportedStates, resolveStateParam } from '@/lib/scraper';
+import { getScrapeRuns, summarizeFailures } from '@/lib/scrape-runs';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+
+export async function GET(request: Request) {
+    const searchParams = new URL(request.url).searchParams;
+
+    const state = resolveStateParam(searchParams.get('state'));
+    if (!state) {
+        return NextResponse.json(
+            { error: `Unsupported state. Supported states: ${getSupportedStates().join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    const limitParam = parseInt(searchParams.get('limit') ?? '', 10);
+    const limit = limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT;
+
+    try {
+        const runs = await getScrapeRuns({ state, limit });
+        return NextResponse.json({ state, runs, failingGames: summarizeFailures(runs) });
+    } catch (dbError) {
+        console.error('Failed to load scrape runs:', dbError);
+        return NextResponse.json(
+            { error: 'Failed to fetch scrape runs' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,76 @@
+/*
+ * API Route: GET / PUT /api/watchlist
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Reads or replaces the list of watched games for a state
+ * (`?state=MA`, default MA). PUT takes `{ "gameNumbers": ["..."] }`.
+ *
+ * Logic & Reasoning:
+ * Alert rules without a game of their own apply to every game on this list
+ * (see lib/alerts.ts), so watching a game is just editing the list. PUT
+ * replaces the whole list, which keeps add/remove logic in the client.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { getSupportedStates, resolveStateParam } from '@/lib/scraper';
+import { getWatchlist, saveWatchlist } from '@/lib/alerts';
+import { getCurrentOwner, signInRequired } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+function stateFrom(request: Request): string | null {
+    return resolveStateParam(new URL(request.url).searchParams.get('state'));
+}
+
+const unsupportedState = () => NextResponse.json(
+    { error: `Unsupported state. Supported states: ${getSupportedStates().join(', ')}` },
+    { status: 400 }
+);
+
+export async function GET(request: Request) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    const state = stateFrom(request);
+    if (!state) return unsupportedState();
+
+    try {
+        return NextResponse.json(await getWatchlist(owner, state));
+    } catch (dbError) {
+        console.error('Failed to load watchlist:', dbError);
+        return NextResponse.json({ error: 'Failed to fetch watchlist' }, { status: 500 });
+    }
+}
+
+export async function PUT(request: Request) {
+    const owner = await getCurrentOwner();
+    if (!owner) return signInRequired();
+
+    const state = stateFrom(request);
+    if (!state) return unsupportedState();
+
+    let body: { gameNumbers?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (typeof body !== 'object' || body === null) {
+        return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+    }
+
+    const { gameNumbers } = body;
+    if (!Array.isArray(gameNumbers) || !gameNumbers.every(gameNumber => typeof gameNumber === 'string')) {
+        return NextResponse.json({ error: '"gameNumbers" must be an array of strings' }, { status: 400 });
+    }
+
+    try {
+        return NextResponse.json(await saveWatchlist(owner, state, gameNumbers));
+    } catch (dbError) {
+        console.error('Failed to save watchlist:', dbError);
+        return NextResponse.json({ error: 'Failed to save watchlist' }, { status: 500 });
+    }
+}
@@ -0,0 +1,44 @@
+/*
+ * Page: Compare Games
+ * ----------------------------------------------------------------------------
+ * Description:
+ * Side-by-side comparison of the games selected in the table, e.g.
+ * /compare?state=MA&games=2301,2315,2320.
+ *
+ * Logic & Reasoning:
+ * Same split as the game detail page: this Server Component only reads the
+ * query string, and GameComparison fetches and renders the games. The game
+ * list lives in the URL so a comparison can be bookmarked or shared.
+ * ----------------------------------------------------------------------------
+ */
+
+import Link from "next/link";
+import Header from "../components/Header";
+import Footer from "../components/Footer";
+import GameComparison from "../components/GameComparison";
+import { parseCompareParam } from "@/lib/game-comparison";
+
+export default async function ComparePage({
+    searchParams,
+}: {
+    searchParams: Promise<{ state?: string; games?: string }>
+}) {
+    const { state = "MA", games } = await searchParams;
+
+    return (
+        <div className="min-h-screen flex flex-col bg-green-100">
+            <Header />
+
+            <main className="flex-1 p-4">
+                <div className="mt-6 font-mono mx-auto max-w-4xl">
+                    <Link href="/" className="text-green-800 font-bold underline hover:text-green-700">
+                        ← Back to all games
+                    </Link>
+                </div>
+                <GameComparison gameNumbers={parseCompareParam(games)} state={state} />
+            </main>
+
+            <Footer />
+        </div>
+    );
+}
@@ -0,0 +1,58 @@
+/*
+ * Component: Account Menu
+ * ----------------------------------------------------------------------------
+ * Responsible: Alex Olson
+ *
+ * Description:
+ * Small sign-in / signed-in-as line for the header, linking to /account.
+ *
+ * Logic & Reasoning:
+ * Header stays a Server Component; only this piece runs on the client, since
+ * it asks /api/auth/me who is signed in.
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { User } from "@/types/lottery";
+
+export default function AccountMenu() {
+    const [user, setUser] = useState<User | null>(null);
+
+    useEffect(() => {
+        async function load() {
+            try {
+                const res = await fetch("/api/auth/me", { cache: "no-store" });
+                if (res.ok) {
+                    setUser((await res.json()).user);
+                }
+            } catch (err) {
+                console.error(err);
+            }
+        }
+
+        load();
+    }, []);
+
+    const signOut = async () => {
+        await fetch("/api/auth/logout", { method: "POST" });
+        // Reload so every component drops the signed-in user's preferences
+        window.location.reload();
+    };
+
+    return (
+        <div className="self-end font-mono text-xs text-white">
+            {user ? (
+                <>
+                    Signed in as <Link href="/account" className="font-bold underline">{user.username}</Link>
+                    {" · "}
+                    <button onClick={signOut} className="underline">Sign out</button>
+                </>
+            ) : (
+                <Link href="/account" className="font-bold underline">Sign in</Link>
+            )}
+        </div>
+    );
+}
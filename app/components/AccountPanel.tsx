@@ -0,0 +1,255 @@
+/*
+ * Component: Account Panel
+ * ----------------------------------------------------------------------------
+ * Responsible: Alex Olson
+ *
+ * Description:
+ * Sign in / create account when signed out; when signed in, the saved
+ * preferences: default tax mode, own withholding rates, the table's default
+ * sort and favorite games.
+ *
+ * Logic & Reasoning:
+ * - Credentials and preferences are checked by the API (/api/auth/*,
+ * /api/preferences) and its error messages are shown as-is.
+ * - Default sort and favorites are set from the table itself ("Save as
+ * Default", the ☆ on each row); here they can be reviewed and cleared.
+ * - Rates are entered as percentages and sent as fractions, like the rest of
+ * the API.
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { TaxMode, User, UserPreferences } from "@/types/lottery";
+
+const inputClass = "block px-2 py-1 border-2 border-green-800 bg-white";
+const labelClass = "text-xs font-bold text-green-900 uppercase";
+const buttonClass = "px-3 py-1 border-2 border-green-800 font-bold";
+
+async function readError(res: Response): Promise<string> {
+    try {
+        return (await res.json()).error ?? `API error ${res.status}`;
+    } catch {
+        return `API error ${res.status}`;
+    }
+}
+
+function SignInForm({ onSignedIn }: { onSignedIn: (user: User) => void }) {
+    const [mode, setMode] = useState<"login" | "register">("login");
+    const [username, setUsername] = useState("");
+    const [password, setPassword] = useState("");
+    const [message, setMessage] = useState<string | null>(null);
+
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setMessage(null);
+        const res = await fetch(`/api/auth/${mode}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ username, password }),
+        });
+        if (!res.ok) {
+            setMessage(await readError(res));
+            return;
+        }
+        onSignedIn((await res.json()).user);
+    };
+
+    return (
+        <form onSubmit={submit} className="flex flex-col gap-4 max-w-sm mx-auto">
+            <h2 className="text-2xl font-bold text-green-800 uppercase border-b-4 border-green-800 pb-2">
+                {mode === "login" ? "Sign In" : "Create Account"}
+            </h2>
+            <label className={labelClass}>
+                Username
+                <input value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="username" className={`${inputClass} w-full`} />
+            </label>
+            <label className={labelClass}>
+                Password
+                <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete={mode === "login" ? "current-password" : "new-password"}
+                    className={`${inputClass} w-full`}
+                />
+            </label>
+            {message && <p className="text-sm text-red-700">{message}</p>}
+            <button type="submit" className={`${buttonClass} bg-green-800 text-white`}>
+                {mode === "login" ? "Sign In" : "Create Account"}
+            </button>
+            <button
+                type="button"
+                onClick={() => { setMode(mode === "login" ? "register" : "login"); setMessage(null); }}
+                className="text-xs underline text-green-800"
+            >
+                {mode === "login" ? "No account yet? Create one" : "Already have an account? Sign in"}
+            </button>
+        </form>
+    );
+}
+
+function PreferencesForm({ user }: { user: User }) {
+    const [preferences, setPreferences] = useState<UserPreferences>(user.preferences);
+    const [customTax, setCustomTax] = useState(Boolean(user.preferences.taxModel));
+    const [rates, setRates] = useState({
+        federalRate: String((user.preferences.taxModel?.federalRate ?? 0.24) * 100),
+        federalThreshold: String(user.preferences.taxModel?.federalThreshold ?? 5000),
+        stateRate: String((user.preferences.taxModel?.stateRate ?? 0.05) * 100),
+        stateThreshold: String(user.preferences.taxModel?.stateThreshold ?? 600),
+    });
+    const [message, setMessage] = useState<string | null>(null);
+
+    const save = async (changes: Record<string, unknown>) => {
+        setMessage(null);
+        const res = await fetch("/api/preferences", {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(changes),
+        });
+        if (!res.ok) {
+            setMessage(await readError(res));
+            return;
+        }
+        setPreferences((await res.json()).preferences);
+        setMessage("Saved.");
+    };
+
+    const saveTax = () => save({
+        taxMode: preferences.taxMode,
+        taxModel: customTax
+            ? {
+                federalRate: Number(rates.federalRate) / 100,
+                federalThreshold: Number(rates.federalThreshold),
+                stateRate: Number(rates.stateRate) / 100,
+                stateThreshold: Number(rates.stateThreshold),
+            }
+            : null,
+    });
+
+    const rateInput = (key: keyof typeof rates, label: string) => (
+        <label className={labelClass}>
+            {label}
+            <input
+                type="number"
+                min={0}
+                value={rates[key]}
+                onChange={(e) => setRates({ ...rates, [key]: e.target.value })}
+                className={`${inputClass} w-28`}
+            />
+        </label>
+    );
+
+    return (
+        <div className="flex flex-col gap-8">
+            <h2 className="text-2xl font-bold text-green-800 uppercase border-b-4 border-green-800 pb-2">
+                {user.username}&apos;s Preferences
+            </h2>
+
+            <section className="flex flex-col gap-3">
+                <h3 className="font-bold text-green-800 uppercase">Taxes</h3>
+                <label className={labelClass}>
+                    Show EV
+                    <select
+                        value={preferences.taxMode}
+                        onChange={(e) => setPreferences({ ...preferences, taxMode: e.target.value as TaxMode })}
+                        className={`${inputClass} w-40`}
+                    >
+                        <option value="pre-tax">Pre-tax</option>
+                        <option value="after-tax">After-tax</option>
+                    </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-green-900">
+                    <input type="checkbox" checked={customTax} onChange={(e) => setCustomTax(e.target.checked)} />
+                    Use my own withholding rates
+                </label>
+                {customTax && (
+                    <div className="flex flex-wrap gap-4">
+                        {rateInput("federalRate", "Federal %")}
+                        {rateInput("federalThreshold", "Over $")}
+                        {rateInput("stateRate", "State %")}
+                        {rateInput("stateThreshold", "Over $")}
+                    </div>
+                )}
+                <div>
+                    <button onClick={saveTax} className={`${buttonClass} bg-green-800 text-white`}>Save Tax Settings</button>
+                </div>
+            </section>
+
+            <section className="flex flex-col gap-2 text-sm">
+                <h3 className="font-bold text-green-800 uppercase">Table Default Sort</h3>
+                {preferences.defaultSort ? (
+                    <div className="flex items-center gap-4">
+                        {preferences.defaultSort.sort} ({preferences.defaultSort.order === "asc" ? "ascending" : "descending"})
+                        <button onClick={() => save({ defaultSort: null })} className="text-xs underline text-red-700">Clear</button>
+                    </div>
+                ) : (
+                    <p className="text-green-700">None. Sort the table and use &quot;Save as Default&quot;.</p>
+                )}
+            </section>
+
+            <section className="flex flex-col gap-2 text-sm">
+                <h3 className="font-bold text-green-800 uppercase">Favorite Games</h3>
+                {preferences.favoriteGames.length === 0 ? (
+                    <p className="text-green-700">None. Use the ☆ next to a game in the table.</p>
+                ) : (
+                    <ul>
+                        {preferences.favoriteGames.map(gameNumber => (
+                            <li key={gameNumber} className="flex justify-between items-center border-b-2 border-green-100 py-1">
+                                <Link href={`/games/${encodeURIComponent(gameNumber)}`} className="underline font-bold">#{gameNumber}</Link>
+                                <button
+                                    onClick={() => save({ favoriteGames: preferences.favoriteGames.filter(n => n !== gameNumber) })}
+                                    className="px-2 font-bold text-red-700"
+                                >
+                                    ✕
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+
+            <p className="text-xs text-green-700">
+                Alert rules and your watchlist are on the <Link href="/alerts" className="underline">Alerts</Link> page.
+            </p>
+            {message && <p className="text-sm text-green-900">{message}</p>}
+        </div>
+    );
+}
+
+export default function AccountPanel() {
+    const [user, setUser] = useState<User | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        async function load() {
+            try {
+                const res = await fetch("/api/auth/me", { cache: "no-store" });
+                if (res.ok) {
+                    setUser((await res.json()).user);
+                }
+            } catch (err) {
+                console.error(err);
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        load();
+    }, []);
+
+    return (
+        <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6">
+            {loading ? (
+                <p className="text-center">Loading account…</p>
+            ) : user ? (
+                <PreferencesForm user={user} />
+            ) : (
+                // Reload after signing in so the header and table pick up the account too
+                <SignInForm onSignedIn={() => window.location.reload()} />
+            )}
+        </div>
+    );
+}
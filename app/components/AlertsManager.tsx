@@ -0,0 +1,337 @@
+/*
+ * Component: Alerts Manager
+ * ----------------------------------------------------------------------------
+ * Responsible: Alex Olson
+ *
+ * Description:
+ * One screen for alerts: the inbox of notifications, the alert rules with a
+ * form to add one (and test its channel), and the watchlist that rules
+ * without a game of their own apply to.
+ *
+ * Logic & Reasoning:
+ * - Everything goes through the API routes (/api/alerts, /api/watchlist,
+ * /api/notifications); the server validates rules, and its 400 message is
+ * shown as-is so the form doesn't duplicate those checks.
+ * - Games are added to the watchlist from their detail page (WatchButton);
+ * here they can only be removed.
+ * - Alerts need an account, so a 401 from the API shows a sign-in link
+ * instead of an error.
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertNotification, AlertRule, AlertRuleType, NotificationChannelType, Watchlist } from "@/types/lottery";
+
+interface AlertsManagerProps {
+    state: string;
+}
+
+const RULE_LABELS: Record<AlertRuleType, string> = {
+    "ev-per-dollar": "EV per $ crosses",
+    "top-prizes-remaining": "Top prizes left drop to",
+    "new-game": "New game appears",
+};
+
+const inputClass = "block px-2 py-1 border-2 border-green-800 bg-white";
+const labelClass = "text-xs font-bold text-green-900 uppercase";
+const buttonClass = "px-3 py-1 border-2 border-green-800 font-bold";
+
+function describeRule(rule: AlertRule): string {
+    const scope = rule.type === "new-game" ? "" : rule.gameNumber ? ` on #${rule.gameNumber}` : " on watched games";
+    const condition = rule.type === "ev-per-dollar"
+        ? `EV per $ ${rule.direction === "below" ? "falls below" : "rises above"} $${rule.threshold?.toFixed(2)}`
+        : rule.type === "top-prizes-remaining"
+            ? `${rule.threshold} or fewer top prizes left`
+            : "A new game appears";
+    return `${condition}${scope} → ${rule.channel}${rule.target ? ` (${rule.target})` : ""}`;
+}
+
+async function readError(res: Response): Promise<string> {
+    try {
+        const json = await res.json();
+        return json.error ?? `API error ${res.status}`;
+    } catch {
+        return `API error ${res.status}`;
+    }
+}
+
+export default function AlertsManager({ state }: AlertsManagerProps) {
+    const [rules, setRules] = useState<AlertRule[]>([]);
+    const [watchlist, setWatchlist] = useState<Watchlist | null>(null);
+    const [notifications, setNotifications] = useState<AlertNotification[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [signedOut, setSignedOut] = useState(false);
+
+    // New rule form
+    const [type, setType] = useState<AlertRuleType>("ev-per-dollar");
+    const [gameNumber, setGameNumber] = useState("");
+    const [threshold, setThreshold] = useState("0.75");
+    const [direction, setDirection] = useState<"above" | "below">("above");
+    const [channel, setChannel] = useState<NotificationChannelType>("inbox");
+    const [target, setTarget] = useState("");
+    const [formMessage, setFormMessage] = useState<string | null>(null);
+
+    const query = `state=${encodeURIComponent(state)}`;
+
+    useEffect(() => {
+        async function load() {
+            try {
+                const [rulesRes, watchlistRes, inboxRes] = await Promise.all([
+                    fetch(`/api/alerts?${query}`, { cache: "no-store" }),
+                    fetch(`/api/watchlist?${query}`, { cache: "no-store" }),
+                    fetch("/api/notifications", { cache: "no-store" }),
+                ]);
+                if ([rulesRes, watchlistRes, inboxRes].some(res => res.status === 401)) {
+                    setSignedOut(true);
+                    return;
+                }
+                if (!rulesRes.ok || !watchlistRes.ok || !inboxRes.ok) {
+                    throw new Error("API error");
+                }
+                setRules((await rulesRes.json()).rules);
+                setWatchlist(await watchlistRes.json());
+                setNotifications((await inboxRes.json()).notifications);
+            } catch (err) {
+                console.error(err);
+                setError("Failed to load alerts. Please try again.");
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        load();
+    }, [query]);
+
+    const ruleInput = () => ({
+        state,
+        type,
+        channel,
+        gameNumber: gameNumber.trim() || undefined,
+        threshold: type === "new-game" ? undefined : Number(threshold),
+        direction: type === "ev-per-dollar" ? direction : undefined,
+        target: channel === "inbox" ? undefined : target.trim(),
+    });
+
+    const addRule = async () => {
+        setFormMessage(null);
+        const res = await fetch("/api/alerts", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(ruleInput()),
+        });
+        if (!res.ok) {
+            setFormMessage(await readError(res));
+            return;
+        }
+        const rule: AlertRule = await res.json();
+        setRules([rule, ...rules]);
+        setFormMessage("Rule added.");
+    };
+
+    const testChannel = async () => {
+        setFormMessage("Sending test…");
+        const res = await fetch("/api/notifications/test", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ channel, target: channel === "inbox" ? undefined : target.trim() }),
+        });
+        // 502 is a delivery that failed, and still describes it
+        if (!res.ok && res.status !== 502) {
+            setFormMessage(await readError(res));
+            return;
+        }
+        const delivery = await res.json();
+        setFormMessage(delivery.status === "sent" ? "Test sent." : `Test failed: ${delivery.error}`);
+    };
+
+    const deleteRule = async (id: string) => {
+        const res = await fetch(`/api/alerts/${encodeURIComponent(id)}`, { method: "DELETE" });
+        if (res.ok || res.status === 404) {
+            setRules(rules.filter(rule => rule.id !== id));
+        }
+    };
+
+    const unwatch = async (gameNumberToRemove: string) => {
+        if (!watchlist) return;
+        const res = await fetch(`/api/watchlist?${query}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ gameNumbers: watchlist.gameNumbers.filter(n => n !== gameNumberToRemove) }),
+        });
+        if (res.ok) {
+            setWatchlist(await res.json());
+        }
+    };
+
+    const markAllRead = async () => {
+        const res = await fetch("/api/notifications", { method: "PATCH" });
+        if (res.ok) {
+            setNotifications(notifications.map(notification => ({ ...notification, read: true })));
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 text-center">
+                Loading alerts…
+            </div>
+        );
+    }
+
+    if (signedOut) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 text-center">
+                <Link href="/account" className="font-bold underline">Sign in</Link> to set up alerts, a watchlist and an inbox.
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-red-800 bg-red-50 p-6 text-center text-red-700">
+                {error}
+            </div>
+        );
+    }
+
+    const unread = notifications.filter(notification => !notification.read).length;
+
+    return (
+        <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 flex flex-col gap-8">
+            <section>
+                <div className="flex justify-between items-baseline mb-2 border-b-4 border-green-800 pb-2">
+                    <h2 className="text-2xl font-bold text-green-800 uppercase">
+                        Inbox{unread > 0 ? ` (${unread} new)` : ""}
+                    </h2>
+                    {unread > 0 && (
+                        <button onClick={markAllRead} className={`${buttonClass} text-xs bg-white text-green-800`}>
+                            Mark all read
+                        </button>
+                    )}
+                </div>
+                {notifications.length === 0 ? (
+                    <p className="text-sm text-green-700">No notifications yet. Rules are checked after every data refresh.</p>
+                ) : (
+                    <ul className="text-sm">
+                        {notifications.map(notification => (
+                            <li
+                                key={notification.id}
+                                className={`border-b-2 border-green-100 py-2 ${notification.read ? "text-green-700" : "font-bold text-black"}`}
+                            >
+                                {notification.message}
+                                <span className="block text-xs font-normal text-green-700">
+                                    {new Date(notification.createdAt).toLocaleString()} · via {notification.delivery.channel}
+                                    {notification.delivery.status === "failed" && (
+                                        <span className="text-red-700"> (failed: {notification.delivery.error})</span>
+                                    )}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+
+            <section>
+                <h2 className="text-2xl font-bold text-green-800 uppercase mb-2 border-b-4 border-green-800 pb-2">Alert Rules</h2>
+                {rules.length === 0 ? (
+                    <p className="text-sm text-green-700 mb-4">No rules yet.</p>
+                ) : (
+                    <ul className="text-sm mb-4">
+                        {rules.map(rule => (
+                            <li key={rule.id} className="flex justify-between items-center border-b-2 border-green-100 py-2">
+                                {describeRule(rule)}
+                                <button onClick={() => deleteRule(rule.id)} className="px-2 font-bold text-red-700">
+                                    ✕
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="border-2 border-green-800 p-3 flex flex-wrap gap-4 items-end">
+                    <label className={labelClass}>
+                        When
+                        <select value={type} onChange={(e) => setType(e.target.value as AlertRuleType)} className={inputClass}>
+                            {Object.entries(RULE_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {type === "ev-per-dollar" && (
+                        <label className={labelClass}>
+                            Direction
+                            <select value={direction} onChange={(e) => setDirection(e.target.value as "above" | "below")} className={inputClass}>
+                                <option value="above">Rises above</option>
+                                <option value="below">Falls below</option>
+                            </select>
+                        </label>
+                    )}
+                    {type !== "new-game" && (
+                        <>
+                            <label className={labelClass}>
+                                {type === "ev-per-dollar" ? "EV per $" : "Prizes left"}
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={type === "ev-per-dollar" ? 0.05 : 1}
+                                    value={threshold}
+                                    onChange={(e) => setThreshold(e.target.value)}
+                                    className={`${inputClass} w-24`}
+                                />
+                            </label>
+                            <label className={labelClass}>
+                                Game # (blank = watchlist)
+                                <input value={gameNumber} onChange={(e) => setGameNumber(e.target.value)} className={`${inputClass} w-32`} />
+                            </label>
+                        </>
+                    )}
+                    <label className={labelClass}>
+                        Notify via
+                        <select value={channel} onChange={(e) => setChannel(e.target.value as NotificationChannelType)} className={inputClass}>
+                            <option value="inbox">Inbox</option>
+                            <option value="webhook">Webhook</option>
+                            <option value="email">Email</option>
+                        </select>
+                    </label>
+                    {channel !== "inbox" && (
+                        <label className={labelClass}>
+                            {channel === "webhook" ? "URL" : "Address"}
+                            <input value={target} onChange={(e) => setTarget(e.target.value)} className={`${inputClass} w-56`} />
+                        </label>
+                    )}
+                    <div className="flex gap-2">
+                        <button onClick={addRule} className={`${buttonClass} bg-green-800 text-white`}>Add Rule</button>
+                        {channel !== "inbox" && (
+                            <button onClick={testChannel} className={`${buttonClass} bg-white text-green-800`}>Send Test</button>
+                        )}
+                    </div>
+                    {formMessage && <p className="w-full text-sm text-green-900">{formMessage}</p>}
+                </div>
+            </section>
+
+            <section>
+                <h2 className="text-2xl font-bold text-green-800 uppercase mb-2 border-b-4 border-green-800 pb-2">Watchlist</h2>
+                {!watchlist || watchlist.gameNumbers.length === 0 ? (
+                    <p className="text-sm text-green-700">Nothing watched yet. Use &quot;Watch&quot; on a game&apos;s page to add it.</p>
+                ) : (
+                    <ul className="text-sm">
+                        {watchlist.gameNumbers.map(watched => (
+                            <li key={watched} className="flex justify-between items-center border-b-2 border-green-100 py-2">
+                                <Link href={`/games/${encodeURIComponent(watched)}?state=${state}`} className="underline font-bold">
+                                    #{watched}
+                                </Link>
+                                <button onClick={() => unwatch(watched)} className="px-2 font-bold text-red-700">
+                                    ✕
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+        </div>
+    );
+}
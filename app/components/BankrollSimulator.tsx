@@ -0,0 +1,292 @@
+/*
+ * Component: Bankroll Simulator
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * Lets the user pick games and ticket quantities (or a total budget) and runs
+ * a Monte Carlo simulation of what that bundle of tickets would pay out.
+ *
+ * Logic & Reasoning:
+ * - Game data comes from the shared /api/games feed (`useGames`), the same
+ * one as the main table, so the simulation uses exactly the prize tiers and
+ * ticket estimates shown there.
+ * - The simulation itself (lib/simulator.ts) runs in the browser when the user
+ * presses "Run", so it needs no extra API route or outside services. The budget
+ * is only spread across games at that point too, not on every keystroke, and
+ * every input is capped so a run stays within the simulator's limits.
+ * - Results are shown as percentile bands and a histogram of net outcomes,
+ * because the mean alone hides how often you walk away with nothing.
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import { SimulationResult, SimulationSelection } from "@/types/lottery";
+import { allocateBudget, MAX_TICKETS, MAX_TRIALS, simulateBankroll } from "@/lib/simulator";
+import { useGames } from "./GamesDataProvider";
+
+const DEFAULT_TRIALS = 5000;
+const MAX_BUDGET = 10_000;
+
+// Whole number between 0 (or `min`) and `max`, for the numeric inputs
+function clampInput(value: number, max: number, min = 0): number {
+    return Math.min(max, Math.max(min, Math.floor(value) || min));
+}
+
+function formatNet(value: number): string {
+    return `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`;
+}
+
+export default function BankrollSimulator() {
+    const { data, loading, error } = useGames();
+    const games = useMemo(
+        () => [...(data?.games ?? [])].sort((a, b) => a.price - b.price || a.name.localeCompare(b.name)),
+        [data]
+    );
+
+    const [mode, setMode] = useState<"quantity" | "budget">("quantity");
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const [budget, setBudget] = useState(100);
+    const [trials, setTrials] = useState(DEFAULT_TRIALS);
+    const [result, setResult] = useState<SimulationResult | null>(null);
+    const [runError, setRunError] = useState<string | null>(null);
+
+    // In budget mode any game with a non-zero quantity counts as "selected"
+    const chosen = games.filter(game => (quantities[game.gameNumber] ?? 0) > 0);
+    const chosenTickets = chosen.reduce((sum, game) => sum + quantities[game.gameNumber], 0);
+    const chosenCost = chosen.reduce((sum, game) => sum + quantities[game.gameNumber] * game.price, 0);
+
+    const setQuantity = (gameNumber: string, quantity: number) => {
+        setQuantities(prev => ({ ...prev, [gameNumber]: clampInput(quantity, MAX_TICKETS) }));
+    };
+
+    const run = () => {
+        const selections: SimulationSelection[] = mode === "budget"
+            ? allocateBudget(chosen, budget)
+            : chosen.map(game => ({ game, quantity: quantities[game.gameNumber] }));
+        try {
+            setResult(simulateBankroll(selections, trials));
+            setRunError(null);
+        } catch (err) {
+            // Over MAX_TICKETS: too many tickets in total, or a budget that buys that many
+            setResult(null);
+            setRunError(err instanceof Error ? err.message : "Simulation failed");
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="mt-12 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 text-center">
+                Loading lottery data…
+            </div>
+        );
+    }
+
+    if (!data) {
+        return (
+            <div className="mt-12 font-mono mx-auto max-w-4xl border-4 border-red-800 bg-red-50 p-6 text-center text-red-700">
+                {error}
+            </div>
+        );
+    }
+
+    const maxBucket = result ? Math.max(...result.histogram.map(b => b.count), 1) : 1;
+
+    return (
+        <div className="mt-12 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6">
+            <div className="flex justify-between items-baseline mb-4 border-b-4 border-green-800 pb-2">
+                <h2 className="text-2xl font-bold text-green-800 uppercase">Bankroll Simulator</h2>
+                <div className="flex gap-2 text-sm">
+                    <button
+                        onClick={() => setMode("quantity")}
+                        className={`px-3 py-1 border-2 border-green-800 font-bold ${mode === "quantity" ? "bg-green-800 text-white" : "bg-white text-green-800"}`}
+                    >
+                        Quantities
+                    </button>
+                    <button
+                        onClick={() => setMode("budget")}
+                        className={`px-3 py-1 border-2 border-green-800 font-bold ${mode === "budget" ? "bg-green-800 text-white" : "bg-white text-green-800"}`}
+                    >
+                        Budget
+                    </button>
+                </div>
+            </div>
+
+            <p className="text-xs text-green-700 mb-4">
+                {mode === "quantity"
+                    ? "Enter how many tickets of each game to buy."
+                    : "Tick the games to play and set a budget; it is spread across them one ticket at a time."}
+            </p>
+
+            <div className="max-h-80 overflow-y-auto border-2 border-green-800 mb-4">
+                <table className="w-full border-collapse text-sm">
+                    <thead>
+                    <tr className="bg-green-800 text-white">
+                        <th className="p-2 border-2 border-green-900">Game</th>
+                        <th className="p-2 border-2 border-green-900">Price</th>
+                        <th className="p-2 border-2 border-green-900">EV per $</th>
+                        <th className="p-2 border-2 border-green-900">{mode === "quantity" ? "Tickets" : "Play"}</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {games.map((game, idx) => (
+                        <tr key={game.gameNumber} className={idx % 2 === 0 ? "bg-green-50" : "bg-green-100"}>
+                            <td className="p-2 border-2 border-green-900">{game.name}</td>
+                            <td className="p-2 border-2 border-green-900">${game.price.toFixed(2)}</td>
+                            <td className="p-2 border-2 border-green-900">${game.evPerDollar.toFixed(2)}</td>
+                            <td className="p-2 border-2 border-green-900 text-center">
+                                {mode === "quantity" ? (
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={MAX_TICKETS}
+                                        value={quantities[game.gameNumber] ?? 0}
+                                        onChange={(e) => setQuantity(game.gameNumber, Number(e.target.value))}
+                                        className="w-20 px-2 py-1 border-2 border-green-800"
+                                    />
+                                ) : (
+                                    <input
+                                        type="checkbox"
+                                        checked={(quantities[game.gameNumber] ?? 0) > 0}
+                                        onChange={(e) => setQuantity(game.gameNumber, e.target.checked ? 1 : 0)}
+                                    />
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex flex-wrap gap-4 items-end mb-6">
+                {mode === "budget" && (
+                    <label className="text-sm font-bold text-green-900">
+                        Budget ($)
+                        <input
+                            type="number"
+                            min={0}
+                            max={MAX_BUDGET}
+                            value={budget}
+                            onChange={(e) => setBudget(clampInput(Number(e.target.value), MAX_BUDGET))}
+                            className="block w-28 px-2 py-1 border-2 border-green-800"
+                        />
+                    </label>
+                )}
+                <label className="text-sm font-bold text-green-900">
+                    Trials
+                    <input
+                        type="number"
+                        min={100}
+                        max={MAX_TRIALS}
+                        step={100}
+                        value={trials}
+                        onChange={(e) => setTrials(clampInput(Number(e.target.value) || DEFAULT_TRIALS, MAX_TRIALS, 1))}
+                        className="block w-28 px-2 py-1 border-2 border-green-800"
+                    />
+                </label>
+                <div className="text-sm text-green-800">
+                    {mode === "quantity"
+                        ? `${chosenTickets} tickets, $${chosenCost.toFixed(2)}`
+                        : `${chosen.length} games, up to $${budget.toFixed(2)}`}
+                </div>
+                <button
+                    onClick={run}
+                    disabled={chosen.length === 0}
+                    className="ml-auto px-6 py-2 bg-green-800 text-white font-bold border-2 border-green-900 disabled:opacity-50"
+                >
+                    Run Simulation
+                </button>
+            </div>
+
+            {runError && (
+                <div className="mb-4 border-2 border-red-800 bg-red-50 p-3 text-sm text-red-700">{runError}</div>
+            )}
+
+            {result && result.trials > 0 && (
+                <div className="border-t-4 border-green-800 pt-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                        <div className="border-2 border-green-800 bg-green-50 p-3">
+                            <div className="text-[10px] text-green-900 font-bold uppercase">Total Cost</div>
+                            <div className="font-bold text-black text-lg">${result.totalCost.toFixed(2)}</div>
+                        </div>
+                        <div className="border-2 border-green-800 bg-green-50 p-3">
+                            <div className="text-[10px] text-green-900 font-bold uppercase">Expected Net</div>
+                            <div className="font-bold text-black text-lg">{formatNet(result.expectedNet)}</div>
+                        </div>
+                        <div className="border-2 border-green-800 bg-green-50 p-3">
+                            <div className="text-[10px] text-green-900 font-bold uppercase">Median Net</div>
+                            <div className="font-bold text-black text-lg">{formatNet(result.percentiles.p50)}</div>
+                        </div>
+                        <div className="border-2 border-green-800 bg-green-50 p-3">
+                            <div className="text-[10px] text-green-900 font-bold uppercase">Chance of Profit</div>
+                            <div className="font-bold text-black text-lg">{(result.profitProbability * 100).toFixed(1)}%</div>
+                        </div>
+                    </div>
+
+                    <h3 className="text-lg font-bold text-green-900 uppercase mb-2">Outcome Bands</h3>
+                    <div className="grid grid-cols-5 gap-2 mb-6 text-center text-sm">
+                        {([
+                            ["5th", result.percentiles.p5],
+                            ["25th", result.percentiles.p25],
+                            ["Median", result.percentiles.p50],
+                            ["75th", result.percentiles.p75],
+                            ["95th", result.percentiles.p95],
+                        ] as const).map(([label, value]) => (
+                            <div key={label} className="border-2 border-green-800 p-2">
+                                <div className="text-[10px] text-green-900 font-bold uppercase">{label}</div>
+                                <div className="font-bold text-black">{formatNet(value)}</div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <h3 className="text-lg font-bold text-green-900 uppercase mb-2">Distribution of Net Results</h3>
+                    <div className="mb-6 space-y-1">
+                        {result.histogram.map(bucket => (
+                            <div key={bucket.from} className="flex items-center gap-2 text-xs">
+                                <div className="w-40 text-right text-green-900 shrink-0">
+                                    {formatNet(bucket.from)} to {formatNet(bucket.to)}
+                                </div>
+                                <div className="flex-1 bg-white h-3 border-2 border-green-800">
+                                    <div className="bg-green-600 h-full" style={{ width: `${(bucket.count / maxBucket) * 100}%` }}></div>
+                                </div>
+                                <div className="w-12 text-green-900">{((bucket.count / result.trials) * 100).toFixed(1)}%</div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <h3 className="text-lg font-bold text-green-900 uppercase mb-2">Chance of Hitting Each Tier</h3>
+                    <div className="max-h-80 overflow-y-auto">
+                        <table className="w-full border-collapse text-sm">
+                            <thead>
+                            <tr className="bg-green-800 text-white">
+                                <th className="p-2 border-2 border-green-900">Game</th>
+                                <th className="p-2 border-2 border-green-900">Prize</th>
+                                <th className="p-2 border-2 border-green-900">At Least Once</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {result.tierOdds.map((tier, idx) => (
+                                <tr key={`${tier.gameNumber}-${tier.prize}-${idx}`} className={idx % 2 === 0 ? "bg-green-50" : "bg-green-100"}>
+                                    <td className="p-2 border-2 border-green-900">{tier.gameName}</td>
+                                    <td className="p-2 border-2 border-green-900">{tier.prize}</td>
+                                    <td className="p-2 border-2 border-green-900">
+                                        {tier.hitProbability < 0.0001
+                                            ? "< 0.01%"
+                                            : `${(tier.hitProbability * 100).toFixed(2)}%`}
+                                    </td>
+                                </tr>
+                            ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <p className="mt-3 text-xs text-center text-green-700">
+                        Based on {result.trials.toLocaleString()} simulated runs. Mean result {formatNet(result.meanNet)}.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
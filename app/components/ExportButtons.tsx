@@ -0,0 +1,68 @@
+/*
+ * Component: Export Buttons
+ * ----------------------------------------------------------------------------
+ * Responsible: Alex Olson
+ *
+ * Description:
+ * Download links for the table's current view as CSV, JSON or XLSX, with an
+ * option to include every prize tier (one row per tier).
+ *
+ * Logic & Reasoning:
+ * - The parent (Table.tsx) passes the query string of its current search,
+ * filters, sort and tax mode, and /api/games/export applies the same params, so
+ * the file has the same games in the same order as the screen.
+ * - Plain links with `download` let the browser handle the file; no blobs or
+ * fetch needed.
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import React, { useState } from "react";
+
+interface ExportButtonsProps {
+    query: URLSearchParams; // Search, filter, sort and tax params of the current view
+}
+
+const FORMATS = [
+    { format: "csv", label: "CSV" },
+    { format: "json", label: "JSON" },
+    { format: "xlsx", label: "XLSX" },
+];
+
+const ExportButtons: React.FC<ExportButtonsProps> = ({ query }) => {
+    const [includeTiers, setIncludeTiers] = useState(false);
+
+    const exportUrl = (format: string) => {
+        const params = new URLSearchParams(query);
+        params.set("format", format);
+        if (includeTiers) params.set("includeTiers", "1");
+        return `/api/games/export?${params.toString()}`;
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm mb-4">
+            <span className="text-xs font-bold text-green-900 uppercase">Export</span>
+            {FORMATS.map(({ format, label }) => (
+                <a
+                    key={format}
+                    href={exportUrl(format)}
+                    download
+                    className="px-3 py-1 border-2 border-green-800 font-bold bg-white text-green-800 hover:bg-green-800 hover:text-white"
+                >
+                    {label}
+                </a>
+            ))}
+            <label className="flex items-center gap-2 text-xs text-green-900">
+                <input
+                    type="checkbox"
+                    checked={includeTiers}
+                    onChange={(e) => setIncludeTiers(e.target.checked)}
+                />
+                Include prize tiers
+            </label>
+        </div>
+    );
+};
+
+export default ExportButtons;
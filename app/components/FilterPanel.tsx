@@ -0,0 +1,230 @@
+/*
+ * Component: Filter Panel
+ * ----------------------------------------------------------------------------
+ * Responsible: Zachary Memoli
+ *
+ * Description:
+ * Structured filters for the game table: price range, minimum EV per dollar,
+ * positive net EV only, top prize still available, minimum remaining tickets,
+ * and any number of "at least N prizes of $X or more left" tier conditions.
+ *
+ * Logic & Reasoning:
+ * - Like SearchBar, this is a controlled component: the filters live in the
+ * parent (Table.tsx), which keeps them in the URL, so this only renders inputs
+ * and reports changes.
+ * - "Copy Link" copies the current address, which already has every filter
+ * encoded in it, so a view can be shared as-is.
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { GameFilters, TierCondition } from "@/types/lottery";
+import { countActiveFilters } from "@/lib/game-filters";
+
+interface FilterPanelProps {
+    filters: GameFilters;
+    onFiltersChange: (filters: GameFilters) => void;
+}
+
+// Empty input means "no filter"
+function toNumber(value: string): number | undefined {
+    if (value.trim() === "") return undefined;
+    const number = Number(value);
+    return isFinite(number) ? number : undefined;
+}
+
+// Number input that keeps what the user typed (e.g. "0." on the way to "0.75") while
+// reporting parsed values upward, and still follows outside changes like Clear
+function NumberInput({ value, onValueChange, className, min, step }: {
+    value: number | undefined;
+    onValueChange: (value: number | undefined) => void;
+    className: string;
+    min?: number;
+    step?: number;
+}) {
+    const [text, setText] = useState(value === undefined ? "" : String(value));
+    const [lastValue, setLastValue] = useState(value);
+
+    if (value !== lastValue) {
+        setLastValue(value);
+        if (toNumber(text) !== value) {
+            setText(value === undefined ? "" : String(value));
+        }
+    }
+
+    return (
+        <input
+            type="number"
+            min={min}
+            step={step}
+            value={text}
+            onChange={(e) => {
+                setText(e.target.value);
+                onValueChange(toNumber(e.target.value));
+            }}
+            className={className}
+        />
+    );
+}
+
+const inputClass = "block w-28 px-2 py-1 border-2 border-green-800 bg-white";
+const labelClass = "text-xs font-bold text-green-900 uppercase";
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ filters, onFiltersChange }) => {
+    const [open, setOpen] = useState(countActiveFilters(filters) > 0);
+    const [copied, setCopied] = useState(false);
+
+    const activeCount = countActiveFilters(filters);
+    const tiers = filters.tiers ?? [];
+
+    const update = (changes: Partial<GameFilters>) => {
+        onFiltersChange({ ...filters, ...changes });
+    };
+
+    const updateTier = (index: number, changes: Partial<TierCondition>) => {
+        update({ tiers: tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)) });
+    };
+
+    const removeTier = (index: number) => {
+        const next = tiers.filter((_, i) => i !== index);
+        update({ tiers: next.length > 0 ? next : undefined });
+    };
+
+    const copyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (err) {
+            console.error("Failed to copy link:", err);
+        }
+    };
+
+    return (
+        <div className="mb-6 border-2 border-green-800">
+            <div className="flex justify-between items-center bg-green-50 px-3 py-2">
+                <button onClick={() => setOpen(!open)} className="font-bold text-green-900 uppercase text-sm">
+                    {open ? "▾" : "▸"} Filters{activeCount > 0 ? ` (${activeCount})` : ""}
+                </button>
+                <div className="flex gap-2 text-xs">
+                    {activeCount > 0 && (
+                        <button
+                            onClick={() => onFiltersChange({ q: filters.q })}
+                            className="px-2 py-1 border-2 border-green-800 font-bold bg-white text-green-800"
+                        >
+                            Clear
+                        </button>
+                    )}
+                    <button
+                        onClick={copyLink}
+                        className="px-2 py-1 border-2 border-green-800 font-bold bg-green-800 text-white"
+                    >
+                        {copied ? "Copied!" : "Copy Link"}
+                    </button>
+                </div>
+            </div>
+
+            {open && (
+                <div className="p-3 flex flex-col gap-4">
+                    <div className="flex flex-wrap gap-4 items-end">
+                        <label className={labelClass}>
+                            Min Price ($)
+                            <NumberInput
+                                min={0}
+                                value={filters.minPrice}
+                                onValueChange={(minPrice) => update({ minPrice })}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className={labelClass}>
+                            Max Price ($)
+                            <NumberInput
+                                min={0}
+                                value={filters.maxPrice}
+                                onValueChange={(maxPrice) => update({ maxPrice })}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className={labelClass}>
+                            Min EV per $
+                            <NumberInput
+                                min={0}
+                                step={0.05}
+                                value={filters.minEvPerDollar}
+                                onValueChange={(minEvPerDollar) => update({ minEvPerDollar })}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className={labelClass}>
+                            Min Tickets Left
+                            <NumberInput
+                                min={0}
+                                step={1000}
+                                value={filters.minRemainingTickets}
+                                onValueChange={(minRemainingTickets) => update({ minRemainingTickets })}
+                                className={inputClass}
+                            />
+                        </label>
+                    </div>
+
+                    <div className="flex flex-wrap gap-6 text-sm text-green-900">
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={Boolean(filters.positiveNetEV)}
+                                onChange={(e) => update({ positiveNetEV: e.target.checked || undefined })}
+                            />
+                            Positive net EV only
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={Boolean(filters.topPrizeAvailable)}
+                                onChange={(e) => update({ topPrizeAvailable: e.target.checked || undefined })}
+                            />
+                            Top prize still available
+                        </label>
+                    </div>
+
+                    <div className="text-sm text-green-900">
+                        <div className={labelClass}>Prize Tier Conditions</div>
+                        {tiers.map((tier, idx) => (
+                            <div key={idx} className="flex flex-wrap items-center gap-2 mt-2">
+                                At least
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={tier.minRemaining}
+                                    onChange={(e) => updateTier(idx, { minRemaining: Math.max(1, Number(e.target.value) || 1) })}
+                                    className="w-20 px-2 py-1 border-2 border-green-800"
+                                />
+                                prizes of $
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={tier.minPrize}
+                                    onChange={(e) => updateTier(idx, { minPrize: Math.max(0, Number(e.target.value) || 0) })}
+                                    className="w-28 px-2 py-1 border-2 border-green-800"
+                                />
+                                or more left
+                                <button onClick={() => removeTier(idx)} className="px-2 font-bold text-red-700">
+                                    ✕
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => update({ tiers: [...tiers, { minPrize: 1000, minRemaining: 1 }] })}
+                            className="mt-2 px-2 py-1 border-2 border-green-800 font-bold text-xs bg-white text-green-800"
+                        >
+                            + Add Condition
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FilterPanel;
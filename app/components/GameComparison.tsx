@@ -0,0 +1,200 @@
+/*
+ * Component: Game Comparison
+ * ----------------------------------------------------------------------------
+ * Responsible: Alex Olson
+ *
+ * Description:
+ * Lines up two to four games side by side: the headline EV and risk metrics,
+ * then every prize tier (odds, remaining vs. start, claimed percentage and EV
+ * contribution), with the winner of each row highlighted.
+ *
+ * Logic & Reasoning:
+ * - Each game is fetched from /api/games/[gameNumber], which already has the
+ * per-tier breakdown the detail page uses, so the numbers match that page.
+ * - Which value wins and how tiers line up is decided in lib/game-comparison.ts;
+ * this component only formats and highlights.
+ * - Games that can't be loaded are listed above the table instead of failing
+ * the whole comparison.
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { GameDetail } from "@/types/lottery";
+import { alignPrizeTiers, COMPARISON_METRICS, findWinners } from "@/lib/game-comparison";
+
+interface GameDetailResponse {
+    updatedAt: string;
+    game: GameDetail;
+}
+
+interface GameComparisonProps {
+    gameNumbers: string[];
+    state: string;
+}
+
+const cellClass = "p-3 border-2 border-green-900";
+const winnerClass = "bg-green-300 font-bold";
+
+export default function GameComparison({ gameNumbers, state }: GameComparisonProps) {
+    const [games, setGames] = useState<GameDetail[]>([]);
+    const [missing, setMissing] = useState<string[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        async function load() {
+            try {
+                const results = await Promise.all(gameNumbers.map(async (gameNumber) => {
+                    const res = await fetch(`/api/games/${encodeURIComponent(gameNumber)}?state=${encodeURIComponent(state)}`, { cache: "no-store" });
+                    if (!res.ok) {
+                        return { gameNumber, game: null };
+                    }
+                    const json: GameDetailResponse = await res.json();
+                    return { gameNumber, game: json.game };
+                }));
+
+                setGames(results.flatMap(result => (result.game ? [result.game] : [])));
+                setMissing(results.filter(result => !result.game).map(result => result.gameNumber));
+            } catch (err) {
+                console.error(err);
+                setError("Failed to load game data. Please try again.");
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        load();
+    }, [gameNumbers, state]);
+
+    if (gameNumbers.length < 2) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 text-center">
+                Select at least two games in the <Link href="/" className="underline font-bold">table</Link> to compare them.
+            </div>
+        );
+    }
+
+    if (loading) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 text-center">
+                Loading games…
+            </div>
+        );
+    }
+
+    if (error || games.length === 0) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-red-800 bg-red-50 p-6 text-center text-red-700">
+                {error ?? "None of the selected games could be found."}
+            </div>
+        );
+    }
+
+    const tierRows = alignPrizeTiers(games);
+
+    return (
+        <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6">
+            <div className="mb-4 border-b-4 border-green-800 pb-2">
+                <h2 className="text-2xl font-bold text-green-800 uppercase">Compare Games</h2>
+                <p className="text-xs text-green-700">Highlighted cells are the best value in their row.</p>
+            </div>
+
+            {missing.length > 0 && (
+                <div className="mb-4 border-2 border-yellow-600 bg-yellow-50 p-3 text-sm text-yellow-900">
+                    Could not load: {missing.map(gameNumber => `#${gameNumber}`).join(", ")}
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="w-full border-collapse mb-6">
+                    <thead>
+                    <tr className="bg-green-800 text-white">
+                        <th className={cellClass}>Metric</th>
+                        {games.map(game => (
+                            <th key={game.gameNumber} className={cellClass}>
+                                <Link
+                                    href={`/games/${encodeURIComponent(game.gameNumber)}?state=${game.state}`}
+                                    className="underline hover:text-green-200"
+                                >
+                                    {game.name}
+                                </Link>
+                                <span className="block text-xs font-normal">#{game.gameNumber}</span>
+                            </th>
+                        ))}
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {COMPARISON_METRICS.map((metric, idx) => {
+                        const values = games.map(metric.value);
+                        const winners = findWinners(values, metric.better);
+                        return (
+                            <tr key={metric.label} className={idx % 2 === 0 ? "bg-green-50" : "bg-green-100"}>
+                                <td className={`${cellClass} font-bold`}>
+                                    {metric.label}
+                                    <span className="block text-[10px] font-normal text-green-700">
+                                        {metric.better} is better
+                                    </span>
+                                </td>
+                                {values.map((value, gameIdx) => (
+                                    <td
+                                        key={games[gameIdx].gameNumber}
+                                        className={`${cellClass} ${winners.includes(gameIdx) ? winnerClass : ""}`}
+                                    >
+                                        {metric.format(value)}
+                                    </td>
+                                ))}
+                            </tr>
+                        );
+                    })}
+                    </tbody>
+                </table>
+
+                <h3 className="text-lg font-bold text-green-800 uppercase mb-2">Prize Tiers</h3>
+                <table className="w-full border-collapse">
+                    <thead>
+                    <tr className="bg-green-800 text-white">
+                        <th className={cellClass}>Prize</th>
+                        {games.map(game => (
+                            <th key={game.gameNumber} className={cellClass}>{game.name}</th>
+                        ))}
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {tierRows.map((row, idx) => {
+                        // The game getting the most EV out of this prize level wins the row
+                        const winners = findWinners(row.tiers.map(tier => tier?.evContribution ?? null), "higher");
+                        return (
+                            <tr key={row.prizeValue} className={idx % 2 === 0 ? "bg-green-50" : "bg-green-100"}>
+                                <td className={`${cellClass} font-bold`}>
+                                    ${row.prizeValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                </td>
+                                {row.tiers.map((tier, gameIdx) => (
+                                    <td
+                                        key={games[gameIdx].gameNumber}
+                                        className={`${cellClass} text-xs ${winners.includes(gameIdx) ? winnerClass : ""}`}
+                                    >
+                                        {tier ? (
+                                            <>
+                                                <div className="text-sm font-bold">{tier.prize}</div>
+                                                <div>Odds {tier.oddsText}</div>
+                                                <div>{tier.prizesRemaining.toLocaleString()} of {tier.prizesAtStart.toLocaleString()} left</div>
+                                                <div>{tier.claimedPercent.toFixed(1)}% claimed</div>
+                                                <div>EV ${tier.evContribution.toFixed(3)} ({(tier.evShare * 100).toFixed(1)}%)</div>
+                                            </>
+                                        ) : (
+                                            <span className="text-green-700">—</span>
+                                        )}
+                                    </td>
+                                ))}
+                            </tr>
+                        );
+                    })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,184 @@
+/*
+ * Component: Game Detail
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * Displays a single game's EV metrics and a per-tier table with prize, odds,
+ * start vs. remaining counts, claimed percentage and EV contribution.
+ *
+ * Logic & Reasoning:
+ * - Fetches from /api/games/[gameNumber], which returns the tier breakdown
+ * already computed, so this component only formats numbers.
+ * - The "Share of EV" bar makes it obvious when a game's value is carried by
+ * one or two tiers (usually the top prizes).
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { GameDetail as GameDetailData } from "@/types/lottery";
+
+interface GameDetailResponse {
+    updatedAt: string;
+    game: GameDetailData;
+}
+
+interface GameDetailProps {
+    gameNumber: string;
+    state: string;
+}
+
+export default function GameDetail({ gameNumber, state }: GameDetailProps) {
+    const [data, setData] = useState<GameDetailResponse | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        async function load() {
+            try {
+                const res = await fetch(`/api/games/${encodeURIComponent(gameNumber)}?state=${encodeURIComponent(state)}`, { cache: "no-store" });
+                if (res.status === 404) {
+                    setError("Game not found.");
+                    return;
+                }
+                if (!res.ok) {
+                    throw new Error(`API error ${res.status}`);
+                }
+                const json: GameDetailResponse = await res.json();
+                setData(json);
+            } catch (err) {
+                console.error(err);
+                setError("Failed to load game data. Please try again.");
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        load();
+    }, [gameNumber, state]);
+
+    if (loading) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 text-center">
+                Loading game data…
+            </div>
+        );
+    }
+
+    if (error || !data) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-red-800 bg-red-50 p-6 text-center text-red-700">
+                {error ?? "No data returned from API."}
+            </div>
+        );
+    }
+
+    const { game, updatedAt } = data;
+
+    const metrics = [
+        { label: "Price", value: `$${game.price.toFixed(2)}` },
+        { label: "Overall Odds", value: game.overallOdds },
+        { label: "Initial EV", value: `$${game.initialEV.toFixed(2)}` },
+        { label: "Current EV", value: `$${game.currentEV.toFixed(2)}`, range: `$${game.currentEVLow.toFixed(2)}–$${game.currentEVHigh.toFixed(2)}` },
+        { label: "EV per $", value: `$${game.evPerDollar.toFixed(2)}`, range: `$${game.evPerDollarLow.toFixed(2)}–$${game.evPerDollarHigh.toFixed(2)}` },
+        { label: "Current Net", value: `${game.netCurrentEV >= 0 ? "+" : "-"}$${Math.abs(game.netCurrentEV).toFixed(2)}` },
+        { label: "Est. Total Tickets", value: Math.round(game.estimatedTotalTickets).toLocaleString() },
+        {
+            label: "Est. Remaining Tickets",
+            value: Math.round(game.estimatedRemainingTickets).toLocaleString(),
+            range: `${Math.round(game.estimatedRemainingTicketsLow).toLocaleString()}–${Math.round(game.estimatedRemainingTicketsHigh).toLocaleString()}`,
+        },
+    ];
+
+    return (
+        <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6">
+            <div className="flex justify-between items-baseline mb-4 border-b-4 border-green-800 pb-2">
+                <h2 className="text-2xl font-bold text-green-800 uppercase">
+                    {game.name}
+                    <span className="block text-xs text-green-700 normal-case">#{game.gameNumber}</span>
+                </h2>
+                <p className="text-xs text-green-700">
+                    Updated: {new Date(updatedAt).toLocaleString()}
+                </p>
+            </div>
+
+            {game.validationWarnings && game.validationWarnings.length > 0 && (
+                <div className="mb-6 border-2 border-yellow-600 bg-yellow-50 p-3 text-sm text-yellow-900">
+                    <div className="font-bold uppercase text-xs mb-1">Suspect data (repaired automatically)</div>
+                    <ul className="list-disc pl-5">
+                        {game.validationWarnings.map((issue, idx) => (
+                            <li key={`${issue.code}-${idx}`}>{issue.message}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {metrics.map((metric) => (
+                    <div key={metric.label} className="border-2 border-green-800 bg-green-50 p-3">
+                        <div className="text-[10px] text-green-900 font-bold uppercase">{metric.label}</div>
+                        <div className="font-bold text-black text-lg">{metric.value}</div>
+                        {"range" in metric && (
+                            <div className="text-xs text-green-700">Range {metric.range}</div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                    <thead>
+                    <tr className="bg-green-800 text-white">
+                        <th className="p-3 border-2 border-green-900">Prize</th>
+                        <th className="p-3 border-2 border-green-900">Odds</th>
+                        <th className="p-3 border-2 border-green-900">Start</th>
+                        <th className="p-3 border-2 border-green-900">Remaining</th>
+                        <th className="p-3 border-2 border-green-900">Claimed</th>
+                        <th className="p-3 border-2 border-green-900">EV Contribution</th>
+                        <th className="p-3 border-2 border-green-900">Share of EV</th>
+                    </tr>
+                    </thead>
+
+                    <tbody>
+                    {game.prizeTiers.map((tier, idx) => (
+                        <tr
+                            key={`${tier.prize}-${tier.oddsText}`}
+                            className={idx % 2 === 0 ? "bg-green-50" : "bg-green-100"}
+                        >
+                            <td className="p-3 border-2 border-green-900 font-bold">
+                                {tier.prize}
+                                {tier.kind && (tier.kind !== "cash" || tier.plusFreeTicket) && (
+                                    <span className="block text-xs font-normal text-green-700">
+                                        {tier.plusFreeTicket ? "cash + free ticket" : tier.kind.replace("-", " ")}, valued at ${tier.prizeValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                    </span>
+                                )}
+                            </td>
+                            <td className="p-3 border-2 border-green-900">{tier.oddsText}</td>
+                            <td className="p-3 border-2 border-green-900">{tier.prizesAtStart.toLocaleString()}</td>
+                            <td className="p-3 border-2 border-green-900">{tier.prizesRemaining.toLocaleString()}</td>
+                            <td className="p-3 border-2 border-green-900">{tier.claimedPercent.toFixed(1)}%</td>
+                            <td className="p-3 border-2 border-green-900">${tier.evContribution.toFixed(3)}</td>
+                            <td className="p-3 border-2 border-green-900">
+                                <div className="w-full bg-white h-3 border-2 border-green-800">
+                                    <div
+                                        className="bg-green-600 h-full"
+                                        style={{ width: `${Math.min(tier.evShare * 100, 100)}%` }}
+                                    ></div>
+                                </div>
+                                <span className="text-xs text-green-700">{(tier.evShare * 100).toFixed(1)}%</span>
+                            </td>
+                        </tr>
+                    ))}
+                    </tbody>
+                </table>
+                <p className="mt-3 text-xs text-center text-green-700">
+                    <a href={game.url} target="_blank" rel="noreferrer" className="underline hover:text-green-700">
+                        View official game page
+                    </a>
+                </p>
+            </div>
+        </div>
+    );
+}
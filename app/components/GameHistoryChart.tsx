@@ -0,0 +1,125 @@
+/*
+ * Component: Game History Chart
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Plots how a game's value has drifted across stored snapshots: current EV,
+ * EV per dollar, estimated remaining tickets and prizes remaining per tier.
+ *
+ * Logic & Reasoning:
+ * - Data comes from /api/games/[gameNumber]/history, which already aligns the
+ * tiers across snapshots, so this component only maps points to chart series.
+ * - Per-tier counts differ by orders of magnitude (a handful of top prizes vs.
+ * hundreds of thousands of small ones), so tiers are plotted as "% of start
+ * remaining" on a shared 0-100 scale rather than raw counts.
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { GameHistory } from "@/types/lottery";
+import LineChart, { ChartSeries } from "./LineChart";
+
+const TIER_COLORS = ["#dc2626", "#ea580c", "#ca8a04", "#16a34a", "#0891b2", "#2563eb", "#7c3aed", "#db2777"];
+
+interface GameHistoryChartProps {
+    gameNumber: string;
+    state: string;
+}
+
+export default function GameHistoryChart({ gameNumber, state }: GameHistoryChartProps) {
+    const [history, setHistory] = useState<GameHistory | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        async function load() {
+            try {
+                const res = await fetch(`/api/games/${encodeURIComponent(gameNumber)}/history?state=${encodeURIComponent(state)}`, { cache: "no-store" });
+                if (res.status === 404) {
+                    setError("No history recorded for this game yet.");
+                    return;
+                }
+                if (!res.ok) {
+                    throw new Error(`API error ${res.status}`);
+                }
+                const json: GameHistory = await res.json();
+                setHistory(json);
+            } catch (err) {
+                console.error(err);
+                setError("Failed to load game history.");
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        load();
+    }, [gameNumber, state]);
+
+    if (loading) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 text-center animate-pulse">
+                Loading history…
+            </div>
+        );
+    }
+
+    if (error || !history) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 text-center text-green-700 italic">
+                {error ?? "No history returned from API."}
+            </div>
+        );
+    }
+
+    const timestamps = history.points.map(p => p.updatedAt);
+
+    // Express each tier's remaining count as a percentage of the first count we saw for it
+    const tierSeries: ChartSeries[] = history.prizes.map((prize, tierIdx) => {
+        const values = history.points.map(p => p.prizesRemaining[tierIdx]);
+        const baseline = values.find((v): v is number => v !== null && v > 0);
+        return {
+            label: prize,
+            color: TIER_COLORS[tierIdx % TIER_COLORS.length],
+            values: values.map(v => (v === null || !baseline ? null : (v / baseline) * 100)),
+        };
+    });
+
+    return (
+        <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6">
+            <div className="flex justify-between items-baseline mb-4 border-b-4 border-green-800 pb-2">
+                <h2 className="text-2xl font-bold text-green-800 uppercase">EV Over Time</h2>
+                <p className="text-xs text-green-700">{history.points.length} snapshots</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <LineChart
+                    title="Current EV"
+                    timestamps={timestamps}
+                    series={[{ label: "Current EV", color: "#166534", values: history.points.map(p => p.currentEV) }]}
+                    formatValue={(v) => `$${v.toFixed(2)}`}
+                />
+                <LineChart
+                    title="EV per $"
+                    timestamps={timestamps}
+                    series={[{ label: "EV per $", color: "#166534", values: history.points.map(p => p.evPerDollar) }]}
+                    formatValue={(v) => `$${v.toFixed(2)}`}
+                />
+                <LineChart
+                    title="Est. Remaining Tickets"
+                    timestamps={timestamps}
+                    series={[{ label: "Remaining", color: "#166534", values: history.points.map(p => p.estimatedRemainingTickets) }]}
+                    formatValue={(v) => Math.round(v).toLocaleString()}
+                />
+                <LineChart
+                    title="Prizes Remaining (% of first snapshot)"
+                    timestamps={timestamps}
+                    series={tierSeries}
+                    formatValue={(v) => `${v.toFixed(0)}%`}
+                />
+            </div>
+        </div>
+    );
+}
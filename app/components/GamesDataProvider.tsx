@@ -0,0 +1,179 @@
+/*
+ * Component: Games Data Provider
+ * ----------------------------------------------------------------------------
+ * Responsible: Alex Olson
+ *
+ * Description:
+ * The one place the browser loads /api/games. Wrap a page in
+ * <GamesDataProvider> and every widget inside reads the same copy of the
+ * feed with `useGames()`, so the page makes one request and the table,
+ * digest and simulator always agree.
+ *
+ * Logic & Reasoning:
+ * 1. One Request: Concurrent loads of the same URL share one fetch, and the
+ * response is cached for the whole visit, so going back to a page shows the
+ * last copy right away instead of a spinner.
+ * 2. Both Tax Modes: The feed is always loaded with `tax=after-tax`; the
+ * pre-tax fields come along anyway, so widgets pick whichever they need.
+ * 3. Revalidation: A newer snapshot announced on /api/games/events, or coming
+ * back to the tab with a copy older than a minute, loads the feed again in the
+ * background. Games whose EV changed are listed in `changed` for a few
+ * seconds so widgets can highlight them. Loads set off by an announced
+ * snapshot send `X-No-Refresh: 1`, so they only read the stored copy and never
+ * start another server refresh (whose announcement would start another load).
+ * 4. Retries: A failed load is retried up to 3 times (1s, 2s, 4s apart)
+ * before `error` is set. The last good copy stays in `data`, and `revalidate`
+ * tries again on demand (e.g. from a Retry button).
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { GamesResponse } from "@/types/lottery";
+import { findEVChanges, useChangeHighlight, useSnapshotEvents } from "./useSnapshotEvents";
+
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_MS = 1000;
+const STALE_AFTER_MS = 60 * 1000;
+
+interface CacheEntry {
+    data?: GamesResponse;
+    fetchedAt: number;
+    request?: Promise<GamesResponse>;
+}
+
+// Feed responses by URL, kept for the whole visit
+const cache = new Map<string, CacheEntry>();
+
+// Load the feed, sharing one request between everyone asking for the same URL at the same time.
+// `noRefresh` asks the server not to start a background refresh for this request.
+function fetchGames(url: string, noRefresh = false): Promise<GamesResponse> {
+    let entry = cache.get(url);
+    if (!entry) {
+        entry = { fetchedAt: 0 };
+        cache.set(url, entry);
+    }
+
+    const current = entry;
+    if (!current.request) {
+        current.request = fetch(url, { cache: "no-store", headers: noRefresh ? { "X-No-Refresh": "1" } : undefined })
+            .then(async (res) => {
+                if (!res.ok) {
+                    throw new Error(`API error ${res.status}`);
+                }
+                const data: GamesResponse = await res.json();
+                current.data = data;
+                current.fetchedAt = Date.now();
+                return data;
+            })
+            .finally(() => {
+                current.request = undefined;
+            });
+    }
+    return current.request;
+}
+
+function isStale(url: string): boolean {
+    const entry = cache.get(url);
+    return !entry?.data || Date.now() - entry.fetchedAt > STALE_AFTER_MS;
+}
+
+export interface GamesData {
+    data: GamesResponse | null;
+    loading: boolean; // First load, nothing to show yet
+    revalidating: boolean; // Loading a newer copy while showing the current one
+    error: string | null; // Set once retries are used up; `data` keeps the last good copy
+    changed: Set<string>; // Games whose EV changed in the latest update, for a few seconds
+    revalidate: () => void;
+}
+
+const GamesDataContext = createContext<GamesData | null>(null);
+
+interface GamesDataProviderProps {
+    state?: string;
+    children: ReactNode;
+}
+
+export default function GamesDataProvider({ state = "MA", children }: GamesDataProviderProps) {
+    const url = `/api/games?state=${encodeURIComponent(state)}&tax=after-tax`;
+
+    const [data, setData] = useState<GamesResponse | null>(() => cache.get(url)?.data ?? null);
+    const [revalidating, setRevalidating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [changed, highlight] = useChangeHighlight();
+
+    // The copy on screen, for spotting EV changes when a newer one arrives
+    const dataRef = useRef(data);
+    useEffect(() => {
+        dataRef.current = data;
+    });
+
+    const load = useCallback(async (noRefresh = false) => {
+        setRevalidating(true);
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const next = await fetchGames(url, noRefresh);
+                const previous = dataRef.current;
+                if (previous && previous.updatedAt !== next.updatedAt) {
+                    highlight(findEVChanges(previous.games, next.games));
+                }
+                setData(next);
+                setError(null);
+                break;
+            } catch (err) {
+                if (attempt >= MAX_ATTEMPTS) {
+                    console.error(err);
+                    setError("Failed to load lottery data. Please try again.");
+                    break;
+                }
+                await new Promise(resolve => setTimeout(resolve, RETRY_BASE_MS * 2 ** (attempt - 1)));
+            }
+        }
+        setRevalidating(false);
+    }, [url, highlight]);
+
+    useEffect(() => {
+        if (isStale(url)) {
+            load();
+        }
+    }, [url, load]);
+
+    // A newer snapshot was stored: load it, without asking for yet another refresh
+    useSnapshotEvents(state, (updatedAt) => {
+        if (dataRef.current && updatedAt > dataRef.current.updatedAt) {
+            load(true);
+        }
+    });
+
+    // Coming back to the tab after a while: make sure the copy is still current
+    useEffect(() => {
+        const onVisible = () => {
+            if (document.visibilityState === "visible" && isStale(url)) {
+                load();
+            }
+        };
+        document.addEventListener("visibilitychange", onVisible);
+        return () => document.removeEventListener("visibilitychange", onVisible);
+    }, [url, load]);
+
+    const value = useMemo<GamesData>(() => ({
+        data,
+        loading: !data && !error,
+        revalidating,
+        error,
+        changed,
+        revalidate: () => load(),
+    }), [data, error, revalidating, changed, load]);
+
+    return <GamesDataContext.Provider value={value}>{children}</GamesDataContext.Provider>;
+}
+
+ //The shared games feed. Must be used inside <GamesDataProvider>.
+export function useGames(): GamesData {
+    const context = useContext(GamesDataContext);
+    if (!context) {
+        throw new Error("useGames must be used inside <GamesDataProvider>");
+    }
+    return context;
+}
@@ -14,42 +14,23 @@
  * preventing unnecessary re-renders when the user interacts with other parts of the UI.
  * 2. Scarcity Logic: We specifically defined "Scarce" as games with <= 5 top prizes
  * remaining to create a sense of urgency for the user based on real data.
+ * 3. Shared Data: The digest reads the same /api/games feed as the table
+ * (`useGames`, see GamesDataProvider), so both always show the same snapshot
+ * and update together; games whose EV changed are highlighted for a few seconds.
  * ----------------------------------------------------------------------------
  */
 
 'use client';
 
-import { useEffect, useState, useMemo } from 'react';
-import { GameWithEV } from '@/types/lottery';
-
-// Define the response shape from /api/games
-interface GamesResponse {
-    updatedAt: string;
-    games: GameWithEV[];
-}
+import { useMemo } from 'react';
+import { useGames } from './GamesDataProvider';
 
 export default function InstantAnalytics() {
-    const [data, setData] = useState<GamesResponse | null>(null);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-
-    useEffect(() => {
-        //Fetch from the working /api/games endpoint (same as Table.tsx)
-        fetch('/api/games')
-            .then(async (res) => {
-                if (!res.ok) throw new Error(`API Error: ${res.status}`);
-                return res.json();
-            })
-            .then((json: GamesResponse) => {
-                setData(json);
-                setLoading(false);
-            })
-            .catch(err => {
-                console.error(err);
-                setError("Failed to load market analytics.");
-                setLoading(false);
-            });
-    }, []);
+    //Same /api/games feed as Table.tsx, loaded once for both
+    const { data, loading, error, changed } = useGames();
+
+    const rowClass = (gameNumber: string) =>
+        `transition-colors duration-1000 ${changed.has(gameNumber) ? 'bg-yellow-200' : ''}`;
 
     // Calculate the "Digest" stats client-side with NEW Logic
     const stats = useMemo(() => {
@@ -97,7 +78,8 @@ export default function InstantAnalytics() {
         );
     }
 
-    if (error) {
+    // An older copy is still worth showing; the table above reports the failed refresh
+    if (!data) {
         return (
             <div className="mt-8 border-4 border-red-800 bg-red-50 p-6 font-mono text-center text-red-900 font-bold">
                 {error}
@@ -128,7 +110,7 @@ export default function InstantAnalytics() {
                     <div className="space-y-4 overflow-y-auto pr-2">
                         {stats.bestValue.length > 0 ? (
                             stats.bestValue.map((game) => (
-                                <div key={game.gameNumber} className="flex justify-between items-start border-b-2 border-green-800/20 pb-2 last:border-0">
+                                <div key={game.gameNumber} className={`flex justify-between items-start border-b-2 border-green-800/20 pb-2 last:border-0 ${rowClass(game.gameNumber)}`}>
                                     <div className="flex-1 pr-2">
                                         <div className="font-bold text-black text-sm leading-tight">
                                             {game.name}
@@ -161,7 +143,7 @@ export default function InstantAnalytics() {
                     <div className="space-y-4 overflow-y-auto pr-2">
                         {stats.scarce.length > 0 ? (
                             stats.scarce.map((game) => (
-                                <div key={game.gameNumber} className="flex justify-between items-center border-b-2 border-green-800/20 pb-2 last:border-0">
+                                <div key={game.gameNumber} className={`flex justify-between items-center border-b-2 border-green-800/20 pb-2 last:border-0 ${rowClass(game.gameNumber)}`}>
                                     <div className="flex-1 pr-2">
                                         <div className="font-bold text-black text-sm leading-tight">
                                             {game.name}
@@ -191,7 +173,7 @@ export default function InstantAnalytics() {
                     </h3>
                     <div className="space-y-4 overflow-y-auto pr-2">
                         {stats.inventory.map((game) => (
-                            <div key={game.gameNumber} className="border-b-2 border-green-800/20 pb-2 last:border-0">
+                            <div key={game.gameNumber} className={`border-b-2 border-green-800/20 pb-2 last:border-0 ${rowClass(game.gameNumber)}`}>
                                 <div className="flex justify-between items-end mb-1">
                                     <div className="font-bold text-black text-sm leading-tight pr-2">
                                         {game.name}
@@ -0,0 +1,302 @@
+/*
+ * Component: Ledger View
+ * ----------------------------------------------------------------------------
+ * Responsible: Alex Olson
+ *
+ * Description:
+ * The ticket ledger: a form to log a purchase, realized vs expected ROI over
+ * time, and every purchase next to the EV the app predicted for it.
+ *
+ * Logic & Reasoning:
+ * - The summary (predictions, totals, timeline) is built by /api/ledger, so
+ * after any change the whole ledger is simply fetched again.
+ * - "Won" is editable in the table, since tickets are often logged when
+ * bought and scratched later.
+ * - ROI is shown as a percentage: -100% lost everything, 0% broke even.
+ * - A prediction taken from a snapshot stored after the purchase (the game
+ * wasn't tracked yet that day) is marked with * and explained under the table.
+ * - The ledger needs an account, so a 401 shows a sign-in link instead of an
+ * error.
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import LineChart from "./LineChart";
+import { LedgerSummary } from "@/types/lottery";
+
+interface LedgerViewProps {
+    state: string;
+}
+
+const inputClass = "block px-2 py-1 border-2 border-green-800 bg-white";
+const labelClass = "text-xs font-bold text-green-900 uppercase";
+const buttonClass = "px-3 py-1 border-2 border-green-800 font-bold";
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+const formatROI = (value: number | null) => value === null ? "—" : `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)}%`;
+const roiClass = (value: number | null) => value === null ? "" : value >= 0 ? "text-green-700" : "text-red-700";
+
+async function readError(res: Response): Promise<string> {
+    try {
+        return (await res.json()).error ?? `API error ${res.status}`;
+    } catch {
+        return `API error ${res.status}`;
+    }
+}
+
+export default function LedgerView({ state }: LedgerViewProps) {
+    const [ledger, setLedger] = useState<LedgerSummary | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [signedOut, setSignedOut] = useState(false);
+
+    // New purchase form
+    const [gameNumber, setGameNumber] = useState("");
+    const [purchasedAt, setPurchasedAt] = useState(() => new Date().toISOString().slice(0, 10));
+    const [tickets, setTickets] = useState("1");
+    const [cost, setCost] = useState("");
+    const [prizeWon, setPrizeWon] = useState("0");
+    const [note, setNote] = useState("");
+    const [formMessage, setFormMessage] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/ledger?state=${encodeURIComponent(state)}`, { cache: "no-store" });
+            if (res.status === 401) {
+                setSignedOut(true);
+                return;
+            }
+            if (!res.ok) {
+                throw new Error(`API error ${res.status}`);
+            }
+            setLedger(await res.json());
+            setError(null);
+        } catch (err) {
+            console.error(err);
+            setError("Failed to load the ledger. Please try again.");
+        } finally {
+            setLoading(false);
+        }
+    }, [state]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const addEntry = async () => {
+        setFormMessage(null);
+        const res = await fetch("/api/ledger", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                state,
+                gameNumber: gameNumber.trim(),
+                purchasedAt,
+                tickets: Number(tickets),
+                cost: Number(cost),
+                prizeWon: Number(prizeWon),
+                note: note.trim() || undefined,
+            }),
+        });
+        if (!res.ok) {
+            setFormMessage(await readError(res));
+            return;
+        }
+        setGameNumber("");
+        setCost("");
+        setPrizeWon("0");
+        setNote("");
+        setFormMessage("Purchase logged.");
+        await load();
+    };
+
+    const updatePrize = async (id: string, value: string) => {
+        const res = await fetch(`/api/ledger/${encodeURIComponent(id)}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ prizeWon: Number(value) }),
+        });
+        if (!res.ok) {
+            setFormMessage(await readError(res));
+        }
+        await load();
+    };
+
+    const deleteEntry = async (id: string) => {
+        const res = await fetch(`/api/ledger/${encodeURIComponent(id)}`, { method: "DELETE" });
+        if (res.ok || res.status === 404) {
+            await load();
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 text-center">
+                Loading ledger…
+            </div>
+        );
+    }
+
+    if (signedOut) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 text-center">
+                <Link href="/account" className="font-bold underline">Sign in</Link> to keep a ticket ledger.
+            </div>
+        );
+    }
+
+    if (error || !ledger) {
+        return (
+            <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-red-800 bg-red-50 p-6 text-center text-red-700">
+                {error}
+            </div>
+        );
+    }
+
+    const { totals, timeline, entries } = ledger;
+    // Noon local time, so the chart's date labels don't slip a day in timezones behind UTC
+    const timestamps = timeline.map(point => `${point.date}T12:00:00`);
+
+    return (
+        <div className="mt-6 font-mono mx-auto max-w-4xl border-4 border-green-800 bg-white p-6 flex flex-col gap-8">
+            <section>
+                <h2 className="text-2xl font-bold text-green-800 uppercase mb-2 border-b-4 border-green-800 pb-2">Ticket Ledger</h2>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+                    <div>
+                        <div className={labelClass}>Spent</div>
+                        <div className="text-lg font-bold">{formatMoney(totals.cost)}</div>
+                        <div className="text-xs text-green-700">{totals.tickets} tickets</div>
+                    </div>
+                    <div>
+                        <div className={labelClass}>Won</div>
+                        <div className="text-lg font-bold">{formatMoney(totals.prizeWon)}</div>
+                    </div>
+                    <div>
+                        <div className={labelClass}>Realized ROI</div>
+                        <div className={`text-lg font-bold ${roiClass(totals.realizedROI)}`}>{formatROI(totals.realizedROI)}</div>
+                    </div>
+                    <div>
+                        <div className={labelClass}>Expected ROI</div>
+                        <div className={`text-lg font-bold ${roiClass(totals.expectedROI)}`}>{formatROI(totals.expectedROI)}</div>
+                        <div className="text-xs text-green-700">EV {formatMoney(totals.expectedValue)}</div>
+                    </div>
+                </div>
+                <LineChart
+                    title="Cumulative ROI"
+                    timestamps={timestamps}
+                    series={[
+                        { label: "Realized", color: "#166534", values: timeline.map(point => point.realizedROI * 100) },
+                        { label: "Expected", color: "#ca8a04", values: timeline.map(point => point.expectedROI === null ? null : point.expectedROI * 100) },
+                    ]}
+                    formatValue={(v) => `${v.toFixed(0)}%`}
+                />
+            </section>
+
+            <section>
+                <h2 className="text-2xl font-bold text-green-800 uppercase mb-2 border-b-4 border-green-800 pb-2">Log a Purchase</h2>
+                <div className="border-2 border-green-800 p-3 flex flex-wrap gap-4 items-end">
+                    <label className={labelClass}>
+                        Game #
+                        <input value={gameNumber} onChange={(e) => setGameNumber(e.target.value)} className={`${inputClass} w-28`} />
+                    </label>
+                    <label className={labelClass}>
+                        Date
+                        <input type="date" value={purchasedAt} onChange={(e) => setPurchasedAt(e.target.value)} className={inputClass} />
+                    </label>
+                    <label className={labelClass}>
+                        Tickets
+                        <input type="number" min={1} value={tickets} onChange={(e) => setTickets(e.target.value)} className={`${inputClass} w-20`} />
+                    </label>
+                    <label className={labelClass}>
+                        Cost $
+                        <input type="number" min={0} step={0.01} value={cost} onChange={(e) => setCost(e.target.value)} className={`${inputClass} w-24`} />
+                    </label>
+                    <label className={labelClass}>
+                        Won $
+                        <input type="number" min={0} step={0.01} value={prizeWon} onChange={(e) => setPrizeWon(e.target.value)} className={`${inputClass} w-24`} />
+                    </label>
+                    <label className={labelClass}>
+                        Note
+                        <input value={note} onChange={(e) => setNote(e.target.value)} className={`${inputClass} w-48`} />
+                    </label>
+                    <button onClick={addEntry} className={`${buttonClass} bg-green-800 text-white`}>Add</button>
+                    {formMessage && <p className="w-full text-sm text-green-900">{formMessage}</p>}
+                </div>
+            </section>
+
+            <section>
+                <h2 className="text-2xl font-bold text-green-800 uppercase mb-2 border-b-4 border-green-800 pb-2">Purchases</h2>
+                {entries.length === 0 ? (
+                    <p className="text-sm text-green-700">No purchases logged yet.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs uppercase text-green-900 border-b-2 border-green-800">
+                                    <th className="py-1">Date</th>
+                                    <th>Game</th>
+                                    <th className="text-right">Tickets</th>
+                                    <th className="text-right">Cost</th>
+                                    <th className="text-right">Won</th>
+                                    <th className="text-right">Expected</th>
+                                    <th className="text-right">ROI</th>
+                                    <th className="text-right">Exp. ROI</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {entries.map(entry => (
+                                    <tr key={entry.id} className="border-b-2 border-green-100">
+                                        <td className="py-1 whitespace-nowrap">{entry.purchasedAt}</td>
+                                        <td>
+                                            <Link href={`/games/${encodeURIComponent(entry.gameNumber)}?state=${state}`} className="underline font-bold">
+                                                {entry.gameName}
+                                            </Link>
+                                            {entry.note && <span className="block text-xs text-green-700">{entry.note}</span>}
+                                        </td>
+                                        <td className="text-right">{entry.tickets}</td>
+                                        <td className="text-right">{formatMoney(entry.cost)}</td>
+                                        <td className="text-right">
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                step={0.01}
+                                                defaultValue={entry.prizeWon}
+                                                onBlur={(e) => {
+                                                    if (Number(e.target.value) !== entry.prizeWon) updatePrize(entry.id, e.target.value);
+                                                }}
+                                                className="w-20 px-1 border border-green-800 text-right"
+                                            />
+                                        </td>
+                                        <td
+                                            className="text-right"
+                                            title={entry.snapshotUpdatedAt
+                                                ? `Snapshot from ${new Date(entry.snapshotUpdatedAt).toLocaleString()}${entry.snapshotAfterPurchase ? ", after the purchase" : ""}`
+                                                : "No snapshot"}
+                                        >
+                                            {entry.expectedValue === null ? "—" : formatMoney(entry.expectedValue)}
+                                            {entry.snapshotAfterPurchase && "*"}
+                                        </td>
+                                        <td className={`text-right ${roiClass(entry.realizedROI)}`}>{formatROI(entry.realizedROI)}</td>
+                                        <td className={`text-right ${roiClass(entry.expectedROI)}`}>{formatROI(entry.expectedROI)}</td>
+                                        <td className="text-right">
+                                            <button onClick={() => deleteEntry(entry.id)} className="px-2 font-bold text-red-700">✕</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {entries.some(entry => entry.snapshotAfterPurchase) && (
+                            <p className="mt-2 text-xs text-green-700">
+                                * The game wasn&apos;t tracked yet on the purchase date, so this prediction uses the first data stored after it.
+                            </p>
+                        )}
+                    </div>
+                )}
+            </section>
+        </div>
+    );
+}
@@ -55,10 +55,52 @@ export default function Legend(){
                     </dd>
                 </div>
 
+                <div className="p-4 border-2 border-green-800 bg-green-50">
+                    <dt className="font-bold mb-1 text-black underline decoration-green-400 decoration-4"> Win % / Break Even %:</dt>
+                    <dd className="text-green-900">
+                        Chance that one ticket bought now wins any prize, and chance that it wins at least the ticket price back.
+                    </dd>
+                </div>
+
+                <div className="p-4 border-2 border-green-800 bg-green-50">
+                    <dt className="font-bold mb-1 text-black underline decoration-green-400 decoration-4"> Std Dev:</dt>
+                    <dd className="text-green-900">
+                        Standard deviation of one ticket&apos;s payout. Higher means a lumpier game: mostly losses with the odd big win.
+                    </dd>
+                </div>
+
+                <div className="p-4 border-2 border-green-800 bg-green-50">
+                    <dt className="font-bold mb-1 text-black underline decoration-green-400 decoration-4"> Top Tier Share:</dt>
+                    <dd className="text-green-900">
+                        How much of the Current EV comes from the top prize alone. A high share means the EV depends on a prize you will almost certainly not win.
+                    </dd>
+                </div>
+
                 <div className="p-4 border-2 border-green-800 bg-green-50">
                     <dt className="font-bold mb-1 text-black underline decoration-green-400 decoration-4"> Ticket Estimation:</dt>
                     <dd className="text-green-900">
-                        Median of (odds × prizes) across all prize tiers
+                        Median of (odds × prizes) across all prize tiers (default). The API can also estimate from the lowest tier only, the overall odds, or a weighted least-squares fit.
+                    </dd>
+                </div>
+
+                <div className="p-4 border-2 border-green-800 bg-green-50">
+                    <dt className="font-bold mb-1 text-black underline decoration-green-400 decoration-4"> EV Range:</dt>
+                    <dd className="text-green-900">
+                        The small figures under Current EV and EV per $ are a low–high band. Each prize tier gives its own estimate of tickets remaining; the band uses the middle half of those estimates (25th to 75th percentile). A wide band means the headline number is a rough guess.
+                    </dd>
+                </div>
+
+                <div className="p-4 border-2 border-green-800 bg-green-50">
+                    <dt className="font-bold mb-1 text-black underline decoration-green-400 decoration-4"> After-Tax:</dt>
+                    <dd className="text-green-900">
+                        Switches Current EV, EV per $ and Current Net to what you keep after withholding (by default 24% federal on prizes over $5,000 and 5% Massachusetts on prizes over $600). The pre-tax figure is shown underneath for comparison.
+                    </dd>
+                </div>
+
+                <div className="p-4 border-2 border-green-800 bg-green-50">
+                    <dt className="font-bold mb-1 text-black underline decoration-green-400 decoration-4"> Suspect Data:</dt>
+                    <dd className="text-green-900">
+                        Games marked ⚠ had something odd on the lottery site, like more prizes remaining than printed or missing overall odds. We repair what we can before calculating EV; hover the mark to see what was changed.
                     </dd>
                 </div>
 
@@ -0,0 +1,108 @@
+/*
+ * Component: Line Chart
+ * ----------------------------------------------------------------------------
+ * Responsible: Alex Olson
+ *
+ * Description:
+ * A small dependency-free SVG line chart for plotting metrics over time.
+ *
+ * Logic & Reasoning:
+ * - We draw plain SVG instead of pulling in a charting library; the app only
+ * needs a handful of simple time series and this keeps the bundle small.
+ * - Points with a `null` value are skipped, which splits the line into
+ * segments instead of drawing a misleading drop to zero.
+ * ----------------------------------------------------------------------------
+ */
+
+export interface ChartSeries {
+    label: string;
+    color: string;
+    values: (number | null)[];
+}
+
+interface LineChartProps {
+    title: string;
+    timestamps: string[];
+    series: ChartSeries[];
+    formatValue?: (value: number) => string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 40;
+
+export default function LineChart({ title, timestamps, series, formatValue = (v) => v.toFixed(2) }: LineChartProps) {
+    const allValues = series.flatMap(s => s.values).filter((v): v is number => v !== null);
+
+    if (timestamps.length === 0 || allValues.length === 0) {
+        return null;
+    }
+
+    let min = Math.min(...allValues);
+    let max = Math.max(...allValues);
+    if (min === max) {
+        // Flat line: pad the range so it renders in the middle of the chart
+        min -= 1;
+        max += 1;
+    }
+
+    const x = (i: number) =>
+        timestamps.length === 1
+            ? WIDTH / 2
+            : PADDING + (i / (timestamps.length - 1)) * (WIDTH - PADDING * 2);
+    const y = (v: number) => HEIGHT - PADDING - ((v - min) / (max - min)) * (HEIGHT - PADDING * 2);
+
+    // Break each series into runs of consecutive non-null points
+    const segmentsFor = (values: (number | null)[]) => {
+        const segments: string[] = [];
+        let current: string[] = [];
+        values.forEach((v, i) => {
+            if (v === null) {
+                if (current.length) segments.push(current.join(' '));
+                current = [];
+                return;
+            }
+            current.push(`${x(i)},${y(v)}`);
+        });
+        if (current.length) segments.push(current.join(' '));
+        return segments;
+    };
+
+    return (
+        <div className="border-2 border-green-800 bg-green-50 p-3">
+            <div className="text-xs text-green-900 font-bold uppercase mb-2">{title}</div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-white border border-green-800">
+                <line x1={PADDING} y1={HEIGHT - PADDING} x2={WIDTH - PADDING} y2={HEIGHT - PADDING} stroke="#166534" />
+                <line x1={PADDING} y1={PADDING} x2={PADDING} y2={HEIGHT - PADDING} stroke="#166534" />
+                <text x={PADDING - 4} y={PADDING} textAnchor="end" fontSize="10" fill="#14532d">{formatValue(max)}</text>
+                <text x={PADDING - 4} y={HEIGHT - PADDING} textAnchor="end" fontSize="10" fill="#14532d">{formatValue(min)}</text>
+                <text x={PADDING} y={HEIGHT - PADDING + 16} fontSize="10" fill="#14532d">
+                    {new Date(timestamps[0]).toLocaleDateString()}
+                </text>
+                <text x={WIDTH - PADDING} y={HEIGHT - PADDING + 16} textAnchor="end" fontSize="10" fill="#14532d">
+                    {new Date(timestamps[timestamps.length - 1]).toLocaleDateString()}
+                </text>
+
+                {series.map(s =>
+                    segmentsFor(s.values).map((points, idx) =>
+                        points.includes(' ') ? (
+                            <polyline key={`${s.label}-${idx}`} points={points} fill="none" stroke={s.color} strokeWidth="2" />
+                        ) : (
+                            <circle key={`${s.label}-${idx}`} cx={points.split(',')[0]} cy={points.split(',')[1]} r="3" fill={s.color} />
+                        )
+                    )
+                )}
+            </svg>
+            {series.length > 1 && (
+                <div className="flex flex-wrap gap-3 mt-2 text-xs">
+                    {series.map(s => (
+                        <span key={s.label} className="flex items-center gap-1 text-black">
+                            <span className="inline-block w-3 h-3" style={{ backgroundColor: s.color }}></span>
+                            {s.label}
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -9,7 +9,8 @@
  * It includes interactive features like sorting by column and filtering via search.
  *
  * Logic & Reasoning:
- * 1. Data Fetching: We use `useEffect` to fetch from our internal API (/api/games).
+ * 1. Data Fetching: Games come from the shared /api/games feed (`useGames`, see
+ * GamesDataProvider), so the table and the digest below it use one request.
  * This ensures we decouple the frontend from the direct DB connection.
  * 2. Sorting: We implemented a custom `colSort` function using `useState`.
  * We sort client-side (using JavaScript's .sort()) rather than server-side
@@ -17,95 +18,172 @@
  * slower than local processing.
  * 3. Search: The search logic filters the `games` array in real-time based on
  * user input before mapping it to the DOM.
+ * 4. Taxes: We always ask the API for after-tax figures too, so the Pre-Tax /
+ * After-Tax toggle is instant. In after-tax mode the EV columns (and sorting on
+ * them) use the after-tax values, with the pre-tax value underneath.
+ * 5. Shareable Views: Search, the filter panel (lib/game-filters.ts), sorting
+ * and the tax toggle all live in the URL query string instead of component
+ * state, so any view can be bookmarked or pasted to a teammate.
+ * 6. Export: The export links pass the same search, filters, sort and tax mode
+ * to /api/games/export, so the downloaded file matches what is on screen.
+ * 7. Compare: Rows can be ticked (up to MAX_COMPARE_GAMES) and opened side by
+ * side on /compare. Selection is per visit, so it stays in component state.
+ * 8. Accounts: For a signed-in user, the saved default sort and tax mode apply
+ * whenever the URL doesn't pick one, "Save as Default" stores the current ones,
+ * and the ☆ next to a game adds it to their favorites (lib/users.ts).
+ * 9. Live Updates: When the feed picks up a newer snapshot, the rows whose EV
+ * changed are briefly highlighted, so a background refresh shows up without a
+ * reload.
  * ----------------------------------------------------------------------------
  */
 
 "use client";
 
 import { useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import SearchBar from "./SearchBar";
+import FilterPanel from "./FilterPanel";
+import ExportButtons from "./ExportButtons";
+import { useGames } from "./GamesDataProvider";
+import { applyGameFilters, parseGameFilters, writeGameFilters } from "@/lib/game-filters";
+import { MAX_COMPARE_GAMES } from "@/lib/game-comparison";
+import { TABLE_SORT_KEYS } from "@/lib/game-query";
+import { GameFilters, GameWithEV, User } from "@/types/lottery";
 
-interface PrizeTier {
-    prize: string;
-    prizeValue: number;
-    odds: number;
-    oddsText: string;
-    prizesAtStart: number;
-    prizesRemaining: number;
-}
-
-interface GameWithEV {
-    name: string;
-    gameNumber: string;
-    price: number;
-    overallOdds: string;
-    overallOddsValue: number;
-    url: string;
-    prizeTiers: PrizeTier[];
-    lastUpdated: string;
-
-
-    initialEV: number;
-    currentEV: number;
-    netInitialEV: number;
-    netCurrentEV: number;
-    evPerDollar: number;
-    estimatedTotalTickets: number;
-    estimatedRemainingTickets: number;
-}
+// Pre-tax columns and the after-tax field shown in their place in after-tax mode
+const AFTER_TAX_KEYS: Partial<Record<keyof GameWithEV, keyof GameWithEV>> = {
+    currentEV: "afterTaxCurrentEV",
+    evPerDollar: "afterTaxEVPerDollar",
+    netCurrentEV: "afterTaxNetCurrentEV",
+};
 
-interface GamesResponse {
-    updatedAt: string;
-    games: GameWithEV[];
-}
+// Columns that can be sorted from the `?sort=` param
+const SORTABLE_KEYS: readonly (keyof GameWithEV)[] = TABLE_SORT_KEYS;
 
 export default function Table() {
-    const [data, setData] = useState<GamesResponse | null>(null);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const { data, loading, error, changed, revalidate } = useGames();
+    const [selected, setSelected] = useState<string[]>([]);
+    const [user, setUser] = useState<User | null>(null);
+    const preferences = user?.preferences;
+
+    // View state (search, filters, sort, tax mode) is read from and written to the URL
+    const searchParams = useSearchParams();
+    const router = useRouter();
+    const pathname = usePathname();
+
+    const replaceQuery = (params: URLSearchParams) => {
+        const query = params.toString();
+        router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    };
+    const updateParams = (apply: (params: URLSearchParams) => void) => {
+        const params = new URLSearchParams(searchParams.toString());
+        apply(params);
+        replaceQuery(params);
+    };
 
-    //Added search useState by Zachary Memoli
-    const [searchTerm, setSearchTerm] = useState("");
+    //Search term by Zachary Memoli, now part of the filters in the URL
+    const filters = parseGameFilters(searchParams);
+    const setFilters = (next: GameFilters) => {
+        replaceQuery(writeGameFilters(next, new URLSearchParams(searchParams.toString())));
+    };
+
+    // The search box keeps its own copy so typing never waits on the URL; it follows outside changes (e.g. back button)
+    const [searchTerm, setSearchTermState] = useState(filters.q ?? "");
+    const [lastQuery, setLastQuery] = useState(filters.q);
+    if (filters.q !== lastQuery) {
+        setLastQuery(filters.q);
+        setSearchTermState(filters.q ?? "");
+    }
+    const setSearchTerm = (value: string) => {
+        setSearchTermState(value);
+        setLastQuery(value || undefined);
+        setFilters({ ...filters, q: value || undefined });
+    };
 
     // Alex's sorting...
-    // creating a hook of which attribute to sort by (starting just with name we can change if we want)
-    const [sortKey, setSortKey] = useState<keyof GameWithEV>('name');
-    // using another hook to decide what direction to sort (ascending or descending)
-    const [sortDir, setSortDir] = useState<'ascending' | 'descending'>('ascending');
+    // which attribute to sort by (starting just with name) and which direction, from ?sort= and ?order=
+    // (falling back to the signed-in user's saved default sort)
+    const sortParam = (searchParams.get("sort") ?? preferences?.defaultSort?.sort ?? null) as keyof GameWithEV | null;
+    const sortKey: keyof GameWithEV = sortParam && SORTABLE_KEYS.includes(sortParam) ? sortParam : 'name';
+    const orderParam = searchParams.get("order") ?? preferences?.defaultSort?.order;
+    const sortDir: 'ascending' | 'descending' = orderParam === "desc" ? 'descending' : 'ascending';
+
+    // ?tax= wins; without it the user's saved tax mode (or pre-tax) applies, so only differences go in the URL
+    const defaultAfterTax = preferences?.taxMode === "after-tax";
+    const taxParam = searchParams.get("tax");
+    const afterTax = taxParam ? taxParam === "after-tax" : defaultAfterTax;
+    const setAfterTax = (value: boolean) => {
+        updateParams(params => (value === defaultAfterTax
+            ? params.delete("tax")
+            : params.set("tax", value ? "after-tax" : "pre-tax")));
+    };
+
+    const savePreferences = async (changes: Record<string, unknown>) => {
+        try {
+            const res = await fetch("/api/preferences", {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(changes),
+            });
+            if (!res.ok) {
+                throw new Error(`API error ${res.status}`);
+            }
+            const json = await res.json();
+            setUser(current => (current ? { ...current, preferences: json.preferences } : current));
+        } catch (err) {
+            console.error("Failed to save preferences:", err);
+        }
+    };
+
+    const saveAsDefault = () => savePreferences({
+        defaultSort: { sort: sortKey, order: sortDir === "ascending" ? "asc" : "desc" },
+        taxMode: afterTax ? "after-tax" : "pre-tax",
+    });
+
+    const favorites = preferences?.favoriteGames ?? [];
+    const toggleFavorite = (gameNumber: string) => savePreferences({
+        favoriteGames: favorites.includes(gameNumber)
+            ? favorites.filter(n => n !== gameNumber)
+            : [...favorites, gameNumber],
+    });
+
+    // Value of a column for display and sorting, swapped for its after-tax field in after-tax mode
+    const columnValue = (game: GameWithEV, key: keyof GameWithEV) => {
+        const afterTaxKey = AFTER_TAX_KEYS[key];
+        return afterTax && afterTaxKey ? game[afterTaxKey] ?? 0 : game[key];
+    };
 
     // operation to decide which direction we are sorting based on column
     // toggles direction if we are sorting again by current key (else resets for new col)
     const colSort = (key: keyof GameWithEV) => {
-        if (sortKey === key) {
-            if (sortDir === 'ascending') {
-                setSortDir('descending');
-            } else {
-                setSortDir('ascending');
-            }
-            return;
-        }
-        setSortDir('ascending');
-        setSortKey(key);
+        const nextDir = sortKey === key && sortDir === 'ascending' ? 'descending' : 'ascending';
+        updateParams(params => {
+            params.set("sort", key);
+            params.set("order", nextDir === 'ascending' ? "asc" : "desc");
+        });
     }
 
+    const toggleSelected = (gameNumber: string) => {
+        setSelected(current => current.includes(gameNumber)
+            ? current.filter(n => n !== gameNumber)
+            : current.length < MAX_COMPARE_GAMES ? [...current, gameNumber] : current);
+    };
+
+    // Who is signed in, for saved defaults and favorites; signed out just means no preferences
     useEffect(() => {
-        async function load() {
+        async function loadUser() {
             try {
-                const res = await fetch("/api/games", { cache: "no-store" });
-                if (!res.ok) {
-                    throw new Error(`API error ${res.status}`);
+                const res = await fetch("/api/auth/me", { cache: "no-store" });
+                if (res.ok) {
+                    setUser((await res.json()).user);
                 }
-                const json: GamesResponse = await res.json();
-                setData(json);
             } catch (err) {
                 console.error(err);
-                setError("Failed to load lottery data. Please try again.");
-            } finally {
-                setLoading(false);
             }
         }
 
-        load();
+        loadUser();
     }, []);
 
     if (loading) {
@@ -116,37 +194,33 @@ export default function Table() {
         );
     }
 
-    if (error || !data) {
+    // Without any data there is nothing to show; with an older copy, the table stays up and the error shows above it
+    if (!data) {
         return (
             <div className="mt-12 font-mono mx-auto max-w-4xl border-4 border-red-800 bg-red-50 p-6 text-center text-red-700">
                 {error ?? "No data returned from API."}
+                <button onClick={revalidate} className="block mx-auto mt-3 px-3 py-1 border-2 border-red-800 font-bold bg-white">
+                    Retry
+                </button>
             </div>
         );
     }
 
     const { games, updatedAt } = data;
-    //Search bar implementation here (ZM). 
-        // First set values to lowercase for unified complete filtering
-    const lowerCased = searchTerm.trim().toLowerCase();
-        // Make filteredGames from the list of games
-    const filteredGames = games.filter((game)=>{
-        // debug test
-        if(!lowerCased){
-             return true;
-        }
-        // filter the results based on the lowerCased values (includes function, not exact)
-        const nameMatch = game.name.toLowerCase().includes(lowerCased);
-        const numberMatch = game.gameNumber.toLowerCase().includes(lowerCased);
-        const priceMatch = game.price.toString().includes(lowerCased);
-
-        // return a mix of the matched values (will be mapped later on each searchTerm change)
-        return nameMatch || numberMatch || priceMatch;
-    });
+    //Search bar implementation here (ZM), now together with the filter panel.
+        // Name / number / price substring search plus the structured filters, see lib/game-filters.ts
+    const filteredGames = applyGameFilters(games, { ...filters, q: searchTerm }, afterTax);
 
     // alex sorting continued sorting using the hooks and comparisons...
+    // Export the view as shown: the server sorts on the after-tax field when that's what the column displays
+    const exportQuery = writeGameFilters({ ...filters, q: searchTerm || undefined });
+    exportQuery.set("sort", afterTax ? AFTER_TAX_KEYS[sortKey] ?? sortKey : sortKey);
+    exportQuery.set("order", sortDir === "ascending" ? "asc" : "desc");
+    if (afterTax) exportQuery.set("tax", "after-tax");
+
     const sorted = [...filteredGames].sort((a, b) => {
-        const v1 = a[sortKey];
-        const v2 = b[sortKey];
+        const v1 = columnValue(a, sortKey);
+        const v2 = columnValue(b, sortKey);
         // consulted documentation on type checking in React (typeof)
         if (typeof v2 === "string" && typeof v1 === "string") {
             if (sortDir === "ascending") {
@@ -175,6 +249,35 @@ export default function Table() {
                     Updated: {new Date(updatedAt).toLocaleString()}
                 </p>
             </div>
+            {error && (
+                <p className="text-xs text-red-700 mb-2">
+                    {error} Showing the last data loaded.{" "}
+                    <button onClick={revalidate} className="underline font-bold">Retry</button>
+                </p>
+            )}
+            <div className="flex gap-2 text-sm mb-2">
+                <button
+                    onClick={() => setAfterTax(false)}
+                    className={`px-3 py-1 border-2 border-green-800 font-bold ${!afterTax ? "bg-green-800 text-white" : "bg-white text-green-800"}`}
+                >
+                    Pre-Tax
+                </button>
+                <button
+                    onClick={() => setAfterTax(true)}
+                    className={`px-3 py-1 border-2 border-green-800 font-bold ${afterTax ? "bg-green-800 text-white" : "bg-white text-green-800"}`}
+                >
+                    After-Tax
+                </button>
+                {user && (
+                    <button
+                        onClick={saveAsDefault}
+                        title="Use the current sort and tax mode every time you open the table"
+                        className="ml-auto px-3 py-1 border-2 border-green-800 font-bold bg-white text-green-800"
+                    >
+                        Save as Default
+                    </button>
+                )}
+            </div>
             {/* search bar component implemented here with interface (ZM)*/}
             <SearchBar
                 searchTerm={searchTerm}
@@ -183,11 +286,35 @@ export default function Table() {
                 totalGames={games.length}
                 filteredGames={filteredGames.length}
             />
+            <FilterPanel filters={filters} onFiltersChange={setFilters} />
+            <div className="flex flex-wrap justify-between items-start gap-2">
+                <ExportButtons query={exportQuery} />
+                <div className="flex items-center gap-2 text-sm mb-4">
+                    {selected.length > 0 && (
+                        <button onClick={() => setSelected([])} className="text-xs underline text-green-800">
+                            Clear selection
+                        </button>
+                    )}
+                    {selected.length >= 2 ? (
+                        <Link
+                            href={`/compare?state=${games.find(g => g.gameNumber === selected[0])?.state ?? "MA"}&games=${selected.map(encodeURIComponent).join(",")}`}
+                            className="px-3 py-1 border-2 border-green-800 font-bold bg-green-800 text-white"
+                        >
+                            Compare ({selected.length})
+                        </Link>
+                    ) : (
+                        <span className="px-3 py-1 border-2 border-green-800 font-bold text-green-800 opacity-50">
+                            Select 2–{MAX_COMPARE_GAMES} games to compare
+                        </span>
+                    )}
+                </div>
+            </div>
 
             <div className="overflow-x-auto">
                 <table className="w-full border-collapse">
                     <thead>
                     <tr className="bg-green-800 text-white">
+                        <th className="p-3 border-2 border-green-900" title="Select to compare">⇄</th>
                         <th onClick={()=> colSort("name")} className="p-3 border-2 border-green-900">Game</th>
                         <th onClick={()=> colSort("price")} className="p-3 border-2 border-green-900">Price</th>
                         <th onClick={()=> colSort("overallOddsValue")} className="p-3 border-2 border-green-900">Odds</th>
@@ -195,6 +322,10 @@ export default function Table() {
                         <th onClick={()=> colSort("currentEV")} className="p-3 border-2 border-green-900">Current EV</th>
                         <th onClick={()=> colSort("evPerDollar")} className="p-3 border-2 border-green-900">EV per $</th>
                         <th onClick={()=> colSort("netCurrentEV")} className="p-3 border-2 border-green-900">Current Net</th>
+                        <th onClick={()=> colSort("winProbability")} className="p-3 border-2 border-green-900">Win %</th>
+                        <th onClick={()=> colSort("breakEvenProbability")} className="p-3 border-2 border-green-900">Break Even %</th>
+                        <th onClick={()=> colSort("returnStdDev")} className="p-3 border-2 border-green-900">Std Dev</th>
+                        <th onClick={()=> colSort("topTierEVShare")} className="p-3 border-2 border-green-900">Top Tier Share</th>
                         <th className="p-3 border-2 border-green-900">Link</th>
                     </tr>
                     </thead>
@@ -203,13 +334,45 @@ export default function Table() {
                     {sorted.map((game, idx) => (
                         <tr
                             key={game.gameNumber}
-                            className={idx % 2 === 0 ? "bg-green-50" : "bg-green-100"}
+                            className={`transition-colors duration-1000 ${changed.has(game.gameNumber) ? "bg-yellow-200" : idx % 2 === 0 ? "bg-green-50" : "bg-green-100"}`}
+                            title={changed.has(game.gameNumber) ? "EV changed in the latest update" : undefined}
                         >
+                            <td className="p-3 border-2 border-green-900 text-center">
+                                <input
+                                    type="checkbox"
+                                    aria-label={`Compare ${game.name}`}
+                                    checked={selected.includes(game.gameNumber)}
+                                    disabled={!selected.includes(game.gameNumber) && selected.length >= MAX_COMPARE_GAMES}
+                                    onChange={() => toggleSelected(game.gameNumber)}
+                                />
+                            </td>
                             <td className="p-3 border-2 border-green-900">
-                                {game.name}
+                                {user && (
+                                    <button
+                                        onClick={() => toggleFavorite(game.gameNumber)}
+                                        title={favorites.includes(game.gameNumber) ? "Remove from favorites" : "Add to favorites"}
+                                        className="mr-1 text-yellow-600"
+                                    >
+                                        {favorites.includes(game.gameNumber) ? "★" : "☆"}
+                                    </button>
+                                )}
+                                <Link
+                                    href={`/games/${encodeURIComponent(game.gameNumber)}?state=${game.state}`}
+                                    className="font-bold underline hover:text-green-700"
+                                >
+                                    {game.name}
+                                </Link>
                                 <span className="block text-xs text-green-700">
                     #{game.gameNumber}
                   </span>
+                                {game.validationWarnings && game.validationWarnings.length > 0 && (
+                                    <span
+                                        title={game.validationWarnings.map(w => w.message).join("\n")}
+                                        className="block text-xs font-bold text-yellow-700 cursor-help"
+                                    >
+                                        ⚠ Suspect data
+                                    </span>
+                                )}
                             </td>
                             <td className="p-3 border-2 border-green-900">
                                 ${game.price.toFixed(2)}
@@ -221,14 +384,41 @@ export default function Table() {
                                 ${game.initialEV.toFixed(2)}
                             </td>
                             <td className="p-3 border-2 border-green-900">
-                                ${game.currentEV.toFixed(2)}
+                                ${Number(columnValue(game, "currentEV")).toFixed(2)}
+                                <span className="block text-xs text-green-700">
+                                    {afterTax
+                                        ? `pre-tax $${game.currentEV.toFixed(2)}`
+                                        : `$${game.currentEVLow.toFixed(2)}–$${game.currentEVHigh.toFixed(2)}`}
+                                </span>
+                            </td>
+                            <td className="p-3 border-2 border-green-900">
+                                ${Number(columnValue(game, "evPerDollar")).toFixed(2)}
+                                <span className="block text-xs text-green-700">
+                                    {afterTax
+                                        ? `pre-tax $${game.evPerDollar.toFixed(2)}`
+                                        : `$${game.evPerDollarLow.toFixed(2)}–$${game.evPerDollarHigh.toFixed(2)}`}
+                                </span>
+                            </td>
+                            <td className="p-3 border-2 border-green-900">
+                                {Number(columnValue(game, "netCurrentEV")) >= 0 ? "+" : "-"}$
+                                {Math.abs(Number(columnValue(game, "netCurrentEV"))).toFixed(2)}
+                                {afterTax && (
+                                    <span className="block text-xs text-green-700">
+                                        pre-tax {game.netCurrentEV >= 0 ? "+" : "-"}${Math.abs(game.netCurrentEV).toFixed(2)}
+                                    </span>
+                                )}
+                            </td>
+                            <td className="p-3 border-2 border-green-900">
+                                {(game.winProbability * 100).toFixed(1)}%
+                            </td>
+                            <td className="p-3 border-2 border-green-900">
+                                {(game.breakEvenProbability * 100).toFixed(1)}%
                             </td>
                             <td className="p-3 border-2 border-green-900">
-                                ${game.evPerDollar.toFixed(2)}
+                                ${game.returnStdDev.toFixed(2)}
                             </td>
                             <td className="p-3 border-2 border-green-900">
-                                {game.netCurrentEV >= 0 ? "+" : "-"}$
-                                {Math.abs(game.netCurrentEV).toFixed(2)}
+                                {(game.topTierEVShare * 100).toFixed(1)}%
                             </td>
                             <td className="p-3 border-2 border-green-900 underline">
                                 <a
@@ -0,0 +1,95 @@
+/*
+ * Component: Watch Button
+ * ----------------------------------------------------------------------------
+ * Responsible: Alex Olson
+ *
+ * Description:
+ * Adds a game to (or removes it from) the watchlist, which alert rules without
+ * a game of their own apply to.
+ *
+ * Logic & Reasoning:
+ * The watchlist API replaces the whole list, so the button reads the current
+ * list first and writes it back with this game added or removed. Watchlists
+ * need an account, so signed out (a 401) it links to sign-in instead.
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Watchlist } from "@/types/lottery";
+
+interface WatchButtonProps {
+    gameNumber: string;
+    state: string;
+}
+
+export default function WatchButton({ gameNumber, state }: WatchButtonProps) {
+    const [watchlist, setWatchlist] = useState<Watchlist | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [signedOut, setSignedOut] = useState(false);
+
+    const url = `/api/watchlist?state=${encodeURIComponent(state)}`;
+
+    useEffect(() => {
+        async function load() {
+            try {
+                const res = await fetch(url, { cache: "no-store" });
+                if (res.status === 401) {
+                    setSignedOut(true);
+                } else if (res.ok) {
+                    setWatchlist(await res.json());
+                }
+            } catch (err) {
+                console.error(err);
+            }
+        }
+
+        load();
+    }, [url]);
+
+    if (signedOut) {
+        return (
+            <Link href="/account" className="px-3 py-1 border-2 border-green-800 font-bold text-sm bg-white text-green-800">
+                ☆ Sign in to watch
+            </Link>
+        );
+    }
+
+    // Without a database there is no watchlist, so there is nothing to show
+    if (!watchlist) return null;
+
+    const watching = watchlist.gameNumbers.includes(gameNumber);
+
+    const toggle = async () => {
+        setSaving(true);
+        try {
+            const gameNumbers = watching
+                ? watchlist.gameNumbers.filter(n => n !== gameNumber)
+                : [...watchlist.gameNumbers, gameNumber];
+            const res = await fetch(url, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ gameNumbers }),
+            });
+            if (res.ok) {
+                setWatchlist(await res.json());
+            }
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <button
+            onClick={toggle}
+            disabled={saving}
+            className={`px-3 py-1 border-2 border-green-800 font-bold text-sm ${watching ? "bg-green-800 text-white" : "bg-white text-green-800"}`}
+        >
+            {watching ? "★ Watching" : "☆ Watch"}
+        </button>
+    );
+}
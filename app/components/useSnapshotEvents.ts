@@ -0,0 +1,80 @@
+/*
+ * Hook: Snapshot Events
+ * ----------------------------------------------------------------------------
+ * Responsible: Alex Olson
+ *
+ * Description:
+ * Client side of /api/games/events: calls back with the time of every new
+ * market snapshot, plus the helpers GamesDataProvider uses to show which
+ * games changed.
+ *
+ * Logic & Reasoning:
+ * - `EventSource` reconnects by itself, and the server repeats the latest
+ * snapshot on connect, so a dropped connection only delays an update.
+ * - The callback is kept in a ref, so re-rendering the component doesn't
+ * reopen the stream.
+ * - A game counts as changed when its current EV differs from the previous
+ * data; games that are new or gone aren't highlighted, they simply appear or
+ * disappear.
+ * ----------------------------------------------------------------------------
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// How long a changed row stays highlighted
+export const CHANGE_HIGHLIGHT_MS = 5000;
+
+ //Call `onSnapshot` with `updatedAt` whenever a new snapshot of `state` is stored
+export function useSnapshotEvents(state: string, onSnapshot: (updatedAt: string) => void) {
+    const callback = useRef(onSnapshot);
+    useEffect(() => {
+        callback.current = onSnapshot;
+    });
+
+    useEffect(() => {
+        // Older browsers and test environments without EventSource just don't get live updates
+        if (typeof EventSource === "undefined") return;
+
+        const source = new EventSource(`/api/games/events?state=${encodeURIComponent(state)}`);
+        source.addEventListener("snapshot", (event) => {
+            try {
+                callback.current(JSON.parse((event as MessageEvent).data).updatedAt);
+            } catch (err) {
+                console.error("Bad snapshot event:", err);
+            }
+        });
+        return () => source.close();
+    }, [state]);
+}
+
+ //Game numbers whose current EV differs between two loads of the same market
+export function findEVChanges(
+    previous: { gameNumber: string; currentEV: number }[],
+    next: { gameNumber: string; currentEV: number }[]
+): Set<string> {
+    const before = new Map(previous.map(game => [game.gameNumber, game.currentEV]));
+    return new Set(next
+        .filter(game => before.has(game.gameNumber) && before.get(game.gameNumber) !== game.currentEV)
+        .map(game => game.gameNumber));
+}
+
+ //Game numbers to highlight, and the function that highlights a new set for CHANGE_HIGHLIGHT_MS
+export function useChangeHighlight(): [Set<string>, (changed: Set<string>) => void] {
+    const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+    const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    useEffect(() => () => {
+        if (timer.current) clearTimeout(timer.current);
+    }, []);
+
+    const highlight = useCallback((changed: Set<string>) => {
+        if (changed.size === 0) return;
+        if (timer.current) clearTimeout(timer.current);
+        setHighlighted(changed);
+        timer.current = setTimeout(() => setHighlighted(new Set()), CHANGE_HIGHLIGHT_MS);
+    }, []);
+
+    return [highlighted, highlight];
+}
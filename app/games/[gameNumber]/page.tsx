@@ -0,0 +1,53 @@
+/*
+ * Page: Game Detail
+ * ----------------------------------------------------------------------------
+ * Description:
+ * Drill-down page for a single scratcher game. Shows the headline EV metrics
+ * together with the full prize-tier breakdown so users can see *why* a game's
+ * EV is where it is.
+ *
+ * Logic & Reasoning:
+ * Same split as the home page: this is a Server Component that only resolves
+ * the route parameter and lays out the page, while the Client Component
+ * (GameDetail) fetches from /api/games/[gameNumber] and renders the data.
+ * GameHistoryChart sits underneath and plots the game's stored snapshots.
+ * WatchButton adds the game to the watchlist used by alert rules.
+ * ----------------------------------------------------------------------------
+ */
+
+import Link from "next/link";
+import Header from "../../components/Header";
+import Footer from "../../components/Footer";
+import GameDetail from "../../components/GameDetail";
+import GameHistoryChart from "../../components/GameHistoryChart";
+import WatchButton from "../../components/WatchButton";
+
+export default async function GamePage({
+    params,
+    searchParams,
+}: {
+    params: Promise<{ gameNumber: string }>
+    searchParams: Promise<{ state?: string }>
+}) {
+    const { gameNumber } = await params;
+    const { state = "MA" } = await searchParams;
+
+    return (
+        <div className="min-h-screen flex flex-col bg-green-100">
+            <Header />
+
+            <main className="flex-1 p-4">
+                <div className="mt-6 font-mono mx-auto max-w-4xl flex justify-between items-center">
+                    <Link href="/" className="text-green-800 font-bold underline hover:text-green-700">
+                        ← Back to all games
+                    </Link>
+                    <WatchButton gameNumber={gameNumber} state={state} />
+                </div>
+                <GameDetail gameNumber={gameNumber} state={state} />
+                <GameHistoryChart gameNumber={gameNumber} state={state} />
+            </main>
+
+            <Footer />
+        </div>
+    );
+}
@@ -0,0 +1,42 @@
+/*
+ * Page: Ledger
+ * ----------------------------------------------------------------------------
+ * Description:
+ * Page wrapper for the ticket ledger: real purchases and winnings against the
+ * EV predicted when they were bought.
+ *
+ * Logic & Reasoning:
+ * Same layout as the other pages: a Server Component for the page shell
+ * (reading `?state=`, default MA), with LedgerView as a Client Component.
+ * ----------------------------------------------------------------------------
+ */
+
+import Link from "next/link";
+import Header from "../components/Header";
+import Footer from "../components/Footer";
+import LedgerView from "../components/LedgerView";
+
+export default async function LedgerPage({
+    searchParams,
+}: {
+    searchParams: Promise<{ state?: string }>
+}) {
+    const { state = "MA" } = await searchParams;
+
+    return (
+        <div className="min-h-screen flex flex-col bg-green-100">
+            <Header />
+
+            <main className="flex-1 p-4">
+                <div className="mt-6 font-mono mx-auto max-w-4xl">
+                    <Link href="/" className="text-green-800 font-bold underline hover:text-green-700">
+                        ← Back to all games
+                    </Link>
+                </div>
+                <LedgerView state={state} />
+            </main>
+
+            <Footer />
+        </div>
+    );
+}
@@ -10,15 +10,19 @@
  * We chose a clean, component-based architecture here. The page itself is a
  * Server Component, but it imports Client Components (Table, InstantAnalytics)
  * to handle interactivity. This separation ensures SEO optimization while
- * maintaining a reactive user experience.
+ * maintaining a reactive user experience. The Table and InstantAnalytics share
+ * one load of /api/games through GamesDataProvider.
  * ----------------------------------------------------------------------------
  */
 
+import { Suspense } from "react";
+import Link from "next/link";
 import Header from "./components/Header";
 import Footer from "./components/Footer";
 import Legend from "./components/Legend";
 import Table from "./components/Table";
 import InstantAnalytics from './components/InstantAnalytics';
+import GamesDataProvider from "./components/GamesDataProvider";
 
 export default function HomePage() {
     return (
@@ -26,9 +30,25 @@ export default function HomePage() {
             <Header />
 
             <main className="flex-1 p-4">
-                
-                <Table />
-                <InstantAnalytics/>
+                <div className="mt-6 font-mono mx-auto max-w-4xl flex justify-end gap-6">
+                    <Link href="/alerts" className="text-green-800 font-bold underline hover:text-green-700">
+                        Alerts →
+                    </Link>
+                    <Link href="/ledger" className="text-green-800 font-bold underline hover:text-green-700">
+                        Ledger →
+                    </Link>
+                    <Link href="/simulator" className="text-green-800 font-bold underline hover:text-green-700">
+                        Bankroll Simulator →
+                    </Link>
+                </div>
+
+                <GamesDataProvider>
+                    {/* Table reads its view state from the URL, which needs a Suspense boundary */}
+                    <Suspense>
+                        <Table />
+                    </Suspense>
+                    <InstantAnalytics/>
+                </GamesDataProvider>
                 <Legend />
             </main>
 
@@ -0,0 +1,38 @@
+/*
+ * Page: Bankroll Simulator
+ * ----------------------------------------------------------------------------
+ * Description:
+ * Page wrapper for the Monte Carlo bankroll simulator.
+ *
+ * Logic & Reasoning:
+ * Same layout as the other pages: a Server Component for the page shell, with
+ * the interactive simulator as a Client Component.
+ * ----------------------------------------------------------------------------
+ */
+
+import Link from "next/link";
+import Header from "../components/Header";
+import Footer from "../components/Footer";
+import BankrollSimulator from "../components/BankrollSimulator";
+import GamesDataProvider from "../components/GamesDataProvider";
+
+export default function SimulatorPage() {
+    return (
+        <div className="min-h-screen flex flex-col bg-green-100">
+            <Header />
+
+            <main className="flex-1 p-4">
+                <div className="mt-6 font-mono mx-auto max-w-4xl">
+                    <Link href="/" className="text-green-800 font-bold underline hover:text-green-700">
+                        ← Back to all games
+                    </Link>
+                </div>
+                <GamesDataProvider>
+                    <BankrollSimulator />
+                </GamesDataProvider>
+            </main>
+
+            <Footer />
+        </div>
+    );
+}
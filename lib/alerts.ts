@@ -0,0 +1,261 @@
+/*
+ * Library: Watchlists & Alert Rules
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Watchlists (`watchlists` collection) and alert rules (`alert_rules`), and
+ * the check that runs them against each refresh: the market before the
+ * refresh is compared with the market after it, and every rule that fires
+ * becomes a notification (lib/notifications.ts).
+ *
+ * Logic & Reasoning:
+ * 1. Crossings, Not Levels: A rule fires when its condition *becomes* true
+ * between two markets (EV per dollar goes from below 0.75 to above it, the top
+ * prize count goes from 3 to 2), not on every refresh while it stays true. That
+ * keeps a refresh every few minutes from repeating the same alert.
+ * 2. Watchlist Scope: A rule can name one game; without one it covers every game
+ * on the owner's watchlist for that state. "new-game" rules look at the whole
+ * market, and never fire on the very first market (everything would be new).
+ * 3. Same EV Everywhere: Both markets are recalculated with the default method
+ * before comparing, so a calculator change between refreshes can't look like a
+ * market move.
+ * 4. Owners: Rules and watchlists belong to the signed-in user's id; signed-out
+ * visitors can't have any (see lib/sessions.ts). Rules left over from when
+ * signed-out visitors shared the LEGACY_ANONYMOUS_OWNER are never run.
+ * ----------------------------------------------------------------------------
+ */
+
+import { Collection, ObjectId } from 'mongodb';
+import getCollection from '@/db';
+import { calculateEVForGames } from '@/lib/ev-calculator';
+import { createNotifications, getNotificationChannelTypes, NotificationDraft } from '@/lib/notifications';
+import { checkWebhookTarget } from '@/lib/notification-channels/webhook';
+import { AlertNotification, AlertRule, AlertRuleType, GameWithEV, LotteryGame, Watchlist } from '@/types/lottery';
+
+const RULES_COLLECTION = 'alert_rules';
+const WATCHLISTS_COLLECTION = 'watchlists';
+
+// Owner of rules made while signed out, before that needed an account
+const LEGACY_ANONYMOUS_OWNER = 'anonymous';
+
+const RULE_TYPES: AlertRuleType[] = ['ev-per-dollar', 'top-prizes-remaining', 'new-game'];
+
+type StoredAlertRule = Omit<AlertRule, 'id'> & { _id?: ObjectId };
+type StoredWatchlist = Watchlist & { _id?: ObjectId };
+
+// The fields a client sends to create a rule
+export type AlertRuleInput = Pick<AlertRule, 'state' | 'type' | 'gameNumber' | 'threshold' | 'direction' | 'channel' | 'target'>;
+
+let initialized: Promise<void> | null = null;
+
+async function rulesCollection(): Promise<Collection<StoredAlertRule>> {
+    const collection = await getCollection(RULES_COLLECTION);
+    return collection as unknown as Collection<StoredAlertRule>;
+}
+
+async function watchlistsCollection(): Promise<Collection<StoredWatchlist>> {
+    const collection = await getCollection(WATCHLISTS_COLLECTION);
+    return collection as unknown as Collection<StoredWatchlist>;
+}
+
+// Make sure indexes exist before first use
+async function ensureInitialized(): Promise<void> {
+    if (!initialized) {
+        initialized = Promise.all([
+            rulesCollection().then(collection => collection.createIndex({ state: 1, enabled: 1 })),
+            watchlistsCollection().then(collection => collection.createIndex({ owner: 1, state: 1 }, { unique: true })),
+        ])
+            .then(() => undefined)
+            .catch(err => {
+                // Allow a retry on the next call instead of caching the failure
+                initialized = null;
+                throw err;
+            });
+    }
+    await initialized;
+}
+
+function toRule({ _id, ...rule }: StoredAlertRule): AlertRule {
+    return { id: _id!.toString(), ...rule };
+}
+
+ //Check a rule sent by a client. Returns an error message for the 400 response, or null if it's fine.
+export function validateAlertRuleInput(input: Partial<AlertRuleInput>): string | null {
+    if (!input.type || !RULE_TYPES.includes(input.type)) {
+        return `"type" must be one of: ${RULE_TYPES.join(', ')}`;
+    }
+    if (input.type !== 'new-game' && (typeof input.threshold !== 'number' || !isFinite(input.threshold) || input.threshold < 0)) {
+        return '"threshold" must be a number of at least 0';
+    }
+    if (input.direction !== undefined && input.direction !== 'above' && input.direction !== 'below') {
+        return '"direction" must be "above" or "below"';
+    }
+    if (input.gameNumber !== undefined && (typeof input.gameNumber !== 'string' || !input.gameNumber.trim())) {
+        return '"gameNumber" must be a non-empty string';
+    }
+
+    const channels = getNotificationChannelTypes();
+    if (!input.channel || !channels.includes(input.channel)) {
+        return `"channel" must be one of: ${channels.join(', ')}`;
+    }
+    if (input.channel === 'webhook' && !/^https?:\/\/\S+$/.test(input.target ?? '')) {
+        return 'Webhook rules need an http(s) URL as "target"';
+    }
+    if (input.channel === 'email' && !/^[^\s@<>,;]+@[^\s@<>,;]+$/.test(input.target ?? '')) {
+        return 'Email rules need one email address as "target"';
+    }
+    return null;
+}
+
+ //The checks on a rule's target that need a DNS lookup: a webhook must point at a public address. Run after validateAlertRuleInput.
+export async function checkAlertRuleTarget(input: Partial<AlertRuleInput>): Promise<string | null> {
+    return input.channel === 'webhook' && input.target ? checkWebhookTarget(input.target) : null;
+}
+
+export async function getAlertRules(owner: string, state?: string): Promise<AlertRule[]> {
+    await ensureInitialized();
+    const collection = await rulesCollection();
+    const docs = await collection.find(state ? { owner, state } : { owner }).sort({ createdAt: -1 }).toArray();
+    return docs.map(toRule);
+}
+
+export async function createAlertRule(owner: string, input: AlertRuleInput): Promise<AlertRule> {
+    await ensureInitialized();
+    const collection = await rulesCollection();
+
+    const rule: StoredAlertRule = {
+        owner,
+        state: input.state,
+        type: input.type,
+        channel: input.channel,
+        enabled: true,
+        createdAt: new Date().toISOString(),
+    };
+    // Only keep the optional fields that mean something for this rule, so the stored rule stays readable
+    if (input.type !== 'new-game' && input.gameNumber) rule.gameNumber = input.gameNumber.trim();
+    if (input.type !== 'new-game') rule.threshold = input.threshold;
+    if (input.type === 'ev-per-dollar') rule.direction = input.direction ?? 'above';
+    if (input.channel !== 'inbox') rule.target = input.target;
+
+    const { insertedId } = await collection.insertOne(rule);
+    return toRule({ ...rule, _id: insertedId });
+}
+
+ //Delete one of the owner's rules. Returns false if there was no such rule.
+export async function deleteAlertRule(owner: string, id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) return false;
+    await ensureInitialized();
+    const collection = await rulesCollection();
+    const { deletedCount } = await collection.deleteOne({ _id: new ObjectId(id), owner });
+    return deletedCount > 0;
+}
+
+export async function getWatchlist(owner: string, state: string): Promise<Watchlist> {
+    await ensureInitialized();
+    const collection = await watchlistsCollection();
+    const doc = await collection.findOne({ owner, state }, { projection: { _id: 0 } });
+    return doc ?? { owner, state, gameNumbers: [], updatedAt: new Date(0).toISOString() };
+}
+
+ //Replace the owner's watchlist for a state
+export async function saveWatchlist(owner: string, state: string, gameNumbers: string[]): Promise<Watchlist> {
+    await ensureInitialized();
+    const collection = await watchlistsCollection();
+    const watchlist: Watchlist = {
+        owner,
+        state,
+        gameNumbers: [...new Set(gameNumbers.map(gameNumber => gameNumber.trim()).filter(Boolean))],
+        updatedAt: new Date().toISOString(),
+    };
+    await collection.replaceOne({ owner, state }, watchlist, { upsert: true });
+    return watchlist;
+}
+
+// Combined remaining count of the highest-value prize in a game
+function topPrizesRemaining(game: LotteryGame): number {
+    if (game.prizeTiers.length === 0) return 0;
+    const topValue = Math.max(...game.prizeTiers.map(tier => tier.prizeValue));
+    return game.prizeTiers
+        .filter(tier => tier.prizeValue === topValue)
+        .reduce((sum, tier) => sum + tier.prizesRemaining, 0);
+}
+
+function checkRule(rule: AlertRule, before: GameWithEV, after: GameWithEV): string | null {
+    const threshold = rule.threshold ?? 0;
+
+    switch (rule.type) {
+        case 'ev-per-dollar': {
+            const crossedUp = before.evPerDollar < threshold && after.evPerDollar >= threshold;
+            const crossedDown = before.evPerDollar >= threshold && after.evPerDollar < threshold;
+            if (rule.direction === 'below' ? !crossedDown : !crossedUp) return null;
+            return `${after.name}: EV per $ ${rule.direction === 'below' ? 'fell below' : 'rose above'} $${threshold.toFixed(2)} `
+                + `(was $${before.evPerDollar.toFixed(3)}, now $${after.evPerDollar.toFixed(3)})`;
+        }
+        case 'top-prizes-remaining': {
+            const was = topPrizesRemaining(before);
+            const now = topPrizesRemaining(after);
+            if (!(was > threshold && now <= threshold)) return null;
+            return `${after.name}: ${now} top prize${now === 1 ? '' : 's'} left (was ${was})`;
+        }
+        default:
+            return null;
+    }
+}
+
+ //Work out which rules fire between two markets of one state. `watchlists` are keyed by owner.
+export function evaluateAlertRules(
+    rules: AlertRule[],
+    watchlists: Map<string, string[]>,
+    previous: GameWithEV[],
+    current: GameWithEV[]
+): NotificationDraft[] {
+    const before = new Map(previous.map(game => [game.gameNumber, game]));
+    const drafts: NotificationDraft[] = [];
+
+    for (const rule of rules) {
+        if (!rule.enabled) continue;
+
+        if (rule.type === 'new-game') {
+            if (previous.length === 0) continue;
+            current
+                .filter(game => !before.has(game.gameNumber))
+                .forEach(game => drafts.push({
+                    rule,
+                    gameNumber: game.gameNumber,
+                    gameName: game.name,
+                    message: `New game: ${game.name} ($${game.price}, EV per $ $${game.evPerDollar.toFixed(3)})`,
+                }));
+            continue;
+        }
+
+        const watched = new Set(rule.gameNumber ? [rule.gameNumber] : watchlists.get(rule.owner) ?? []);
+        for (const game of current) {
+            const previousGame = before.get(game.gameNumber);
+            if (!watched.has(game.gameNumber) || !previousGame) continue;
+
+            const message = checkRule(rule, previousGame, game);
+            if (message) drafts.push({ rule, gameNumber: game.gameNumber, gameName: game.name, message });
+        }
+    }
+
+    return drafts;
+}
+
+ //Run every enabled rule of a state against a refresh and send what fired. Called by refreshGames (lib/refresh.ts) after every refresh that changed the market.
+export async function runAlerts(state: string, previous: LotteryGame[], current: LotteryGame[]): Promise<AlertNotification[]> {
+    await ensureInitialized();
+    const rules = (await (await rulesCollection()).find({ state, enabled: true, owner: { $ne: LEGACY_ANONYMOUS_OWNER } }).toArray()).map(toRule);
+    if (rules.length === 0) return [];
+
+    const owners = [...new Set(rules.map(rule => rule.owner))];
+    const watchlistDocs = await (await watchlistsCollection()).find({ state, owner: { $in: owners } }).toArray();
+    const watchlists = new Map(watchlistDocs.map(doc => [doc.owner, doc.gameNumbers]));
+
+    const drafts = evaluateAlertRules(rules, watchlists, calculateEVForGames(previous), calculateEVForGames(current));
+    const notifications = await createNotifications(drafts);
+    if (notifications.length > 0) {
+        console.log(`Alerts for ${state}: ${notifications.length} notification(s) sent`);
+    }
+    return notifications;
+}
@@ -0,0 +1,123 @@
+/*
+ * Library: Shared Browser Page Pool
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * One headless Chromium instance shared by a whole scrape, with a fixed-size
+ * pool of tabs that scraper adapters borrow through `withPage`.
+ *
+ * Logic & Reasoning:
+ * 1. One Browser: Launching Chromium per game was the slowest and most
+ * memory-hungry part of a scrape. Tabs are far cheaper than browsers.
+ * 2. Bounded Pool: At most `size` tabs exist at once; extra callers wait in a
+ * FIFO queue and get a tab the moment one is released.
+ * 3. Retry With Backoff: Puppeteer timeouts on the lottery site are usually
+ * transient, so a timed-out callback is retried on a fresh tab after an
+ * exponentially growing delay (1s, 2s, 4s, ... by default). Other errors are
+ * rethrown immediately.
+ * 4. A tab that errored is closed rather than returned to the pool, so a page
+ * stuck mid-navigation can't poison the next game.
+ * ----------------------------------------------------------------------------
+ */
+
+import puppeteer, { Browser, Page, TimeoutError } from 'puppeteer';
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+
+export interface BrowserPoolOptions {
+    size: number;
+    retries?: number; // Extra attempts after a timeout
+    retryDelayMs?: number; // Delay before the first retry; doubles each time
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class BrowserPool {
+    private browser: Promise<Browser> | null = null;
+    private idle: Page[] = [];
+    private open = 0;
+    private waiters: (() => void)[] = [];
+    private readonly size: number;
+    private readonly retries: number;
+    private readonly retryDelayMs: number;
+
+    constructor({ size, retries = 2, retryDelayMs = 1000 }: BrowserPoolOptions) {
+        this.size = Math.max(1, size);
+        this.retries = retries;
+        this.retryDelayMs = retryDelayMs;
+    }
+
+    private getBrowser(): Promise<Browser> {
+        if (!this.browser) {
+            this.browser = puppeteer.launch({
+                headless: true,
+                args: ['--no-sandbox', '--disable-setuid-sandbox'] //launching puppeteer in headless mode
+            });
+        }
+        return this.browser;
+    }
+
+    // Wait until a tab slot is free, then hand out an idle tab or open a new one
+    private async acquire(): Promise<Page> {
+        while (this.idle.length === 0 && this.open >= this.size) {
+            await new Promise<void>(resolve => this.waiters.push(resolve));
+        }
+
+        const idlePage = this.idle.pop();
+        if (idlePage) return idlePage;
+
+        this.open++;
+        try {
+            const page = await (await this.getBrowser()).newPage();
+            await page.setUserAgent(USER_AGENT); //config the scraper
+            return page;
+        } catch (err) {
+            this.open--;
+            this.waiters.shift()?.();
+            throw err;
+        }
+    }
+
+    private async release(page: Page, healthy: boolean): Promise<void> {
+        if (healthy) {
+            this.idle.push(page);
+        } else {
+            this.open--;
+            await page.close().catch(() => undefined);
+        }
+        this.waiters.shift()?.();
+    }
+
+    // Run `fn` with a pooled tab, retrying with backoff if it times out
+    async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            const page = await this.acquire();
+            try {
+                const result = await fn(page);
+                await this.release(page, true);
+                return result;
+            } catch (err) {
+                await this.release(page, false);
+                if (!(err instanceof TimeoutError) || attempt >= this.retries) {
+                    throw err;
+                }
+                const delay = this.retryDelayMs * 2 ** attempt;
+                console.warn(`Page timed out, retrying in ${delay}ms (attempt ${attempt + 2}/${this.retries + 1})`);
+                await sleep(delay);
+            }
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.browser) {
+            const browser = await this.browser.catch(() => null);
+            this.browser = null;
+            this.idle = [];
+            this.open = 0;
+            await browser?.close();
+        }
+    }
+}
@@ -9,58 +9,96 @@
  *
  * Logic & Reasoning:
  * 1. Estimation Strategy: Since the total number of tickets printed is not
- * publicly listed, we estimate it using the Median of (Odds * Initial Prizes)
- * across all tiers. The median is chosen over the mean to avoid skewing results
- * based on outliers in the prize structure.
+ * publicly listed, we have to estimate it. By default we use the Median of
+ * (Odds * Initial Prizes) across all tiers; the median is chosen over the mean
+ * to avoid skewing results based on outliers in the prize structure. Other
+ * methods live in lib/ticket-estimators.ts and can be selected per call.
  * 2. Net EV: We calculate "Net EV" (EV - Price) to give users a realistic
  * view of their expected return (usually negative).
- * 3. Separation of Concerns: This logic is isolated from the scraper so it can
+ * 3. Uncertainty: The per-tier ticket estimates rarely agree, so we also take
+ * their 25th and 75th percentiles as a low/high range for remaining tickets
+ * (whichever estimation method produced the headline figure).
+ * Dividing the remaining prize pool by each end of that range gives an EV band
+ * (`currentEVLow`/`currentEVHigh`) that shows how noisy the headline figure is.
+ * 4. Risk: EV alone hides how lumpy a game is, so we also treat one ticket as a
+ * draw from the remaining prizes (tier probability = prizes remaining /
+ * remaining tickets) and report the chance of any win, the chance of at least
+ * breaking even, the standard deviation of the payout, and how much of the EV
+ * rides on the top prize tier.
+ * 5. Prize Valuation: Tiers are re-valued with lib/prize-valuation.ts before any
+ * of the above, so free tickets, annuities and merchandise count at what they
+ * are worth under the configured model rather than their face amount.
+ * 6. Taxes: With a tax model, each prize above the federal / state withholding
+ * threshold is reduced by that rate, giving after-tax EV, net EV and EV per
+ * dollar alongside the pre-tax figures (which are never replaced).
+ * 7. Separation of Concerns: This logic is isolated from the scraper so it can
  * be unit-tested or modified (e.g., changing the estimation formula) without
  * breaking the data fetching layer.
  * ----------------------------------------------------------------------------
  */
 
-import { LotteryGame, GameWithEV, PrizeTier } from '@/types/lottery';
+import { LotteryGame, GameWithEV, GameDetail, PrizeTier, PrizeTierWithEV, EstimationMethod, TaxMode, TaxModel } from '@/types/lottery';
+import { DEFAULT_ESTIMATION_METHOD, getTicketEstimator } from './ticket-estimators';
+import { applyPrizeValuation, getPrizeValuationModel, PrizeValuationModel } from './prize-valuation';
 
+export interface EVOptions {
+    valuation?: PrizeValuationModel; // Defaults to the model configured in the environment
+    tax?: TaxModel; // Also calculate after-tax figures with this model
+}
 
-//Estimate total tickets as the median of odds x initial prizes across all tiers
+// Helper to read the tax model from environment, same style as getCacheTTL.
+// Defaults: 24% federal withholding over $5,000, 5% Massachusetts withholding over $600.
+export function getTaxModel(): TaxModel {
+    const envFederalRate = process.env.TAX_FEDERAL_RATE;
+    const envFederalThreshold = process.env.TAX_FEDERAL_THRESHOLD;
+    const envStateRate = process.env.TAX_STATE_RATE;
+    const envStateThreshold = process.env.TAX_STATE_THRESHOLD;
 
-function estimateTotalTickets(prizeTiers: PrizeTier[]): number {
-    const estimates = prizeTiers
-        .filter(tier => tier.odds > 0 && tier.prizesAtStart > 0)
-        .map(tier => tier.odds * tier.prizesAtStart);
+    return {
+        federalRate: envFederalRate ? parseFloat(envFederalRate) : 0.24,
+        federalThreshold: envFederalThreshold ? parseFloat(envFederalThreshold) : 5000,
+        stateRate: envStateRate ? parseFloat(envStateRate) : 0.05,
+        stateThreshold: envStateThreshold ? parseFloat(envStateThreshold) : 600,
+    };
+}
 
-    if (estimates.length === 0) return 0;
+ //Turn a `?tax=` query param into a tax mode. Missing means pre-tax; unknown means null.
+export function resolveTaxModeParam(param: string | null): TaxMode | null {
+    if (!param) return 'pre-tax';
+    return param === 'pre-tax' || param === 'after-tax' ? param : null;
+}
 
-    // Calculate the median
-    estimates.sort((a, b) => a - b);
-    const mid = Math.floor(estimates.length / 2);
+    //What the winner keeps of one prize after withholding
 
-    if (estimates.length % 2 === 0) {
-        return (estimates[mid - 1] + estimates[mid]) / 2;
-    } else {
-        return estimates[mid];
-    }
+export function afterTaxPrizeValue(prizeValue: number, tax: TaxModel): number {
+    let withheld = 0;
+    if (prizeValue > tax.federalThreshold) withheld += prizeValue * tax.federalRate;
+    if (prizeValue > tax.stateThreshold) withheld += prizeValue * tax.stateRate;
+    return prizeValue - withheld;
 }
 
-    // Estimate remaining tickets based on remaining prizes. Slightly redundant, could combine both in the future.
+    //Value at percentile p (0-1) of an already-sorted list, interpolating between neighbours
 
-function estimateRemainingTickets(prizeTiers: PrizeTier[]): number {
-    const estimates = prizeTiers
-        .filter(tier => tier.odds > 0 && tier.prizesRemaining > 0)
-        .map(tier => tier.odds * tier.prizesRemaining);
+export function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const pos = (sorted.length - 1) * p;
+    const lower = Math.floor(pos);
+    const upper = Math.ceil(pos);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
 
-    if (estimates.length === 0) return 0;
+    //Low/high remaining-ticket estimates from the interquartile range of the per-tier estimates
 
-    // Calculate median
-    estimates.sort((a, b) => a - b);
-    const mid = Math.floor(estimates.length / 2);
+function estimateRemainingTicketsRange(prizeTiers: PrizeTier[]): { low: number; high: number } {
+    const estimates = prizeTiers
+        .filter(tier => tier.odds > 0 && tier.prizesRemaining > 0)
+        .map(tier => tier.odds * tier.prizesRemaining)
+        .sort((a, b) => a - b);
 
-    if (estimates.length % 2 === 0) {
-        return (estimates[mid - 1] + estimates[mid]) / 2;
-    } else {
-        return estimates[mid];
-    }
+    return {
+        low: percentile(estimates, 0.25),
+        high: percentile(estimates, 0.75)
+    };
 }
 
     //Calculate total prize pool
@@ -97,11 +135,72 @@ function calculateCurrentEV(game: LotteryGame, remainingTickets: number): number
 }
 
 
+    //Current EV, net EV and EV per dollar counting only what is left of each prize after withholding
+
+function calculateAfterTaxMetrics(game: LotteryGame, remainingTickets: number, tax: TaxModel) {
+    const remainingPool = game.prizeTiers.reduce(
+        (sum, tier) => sum + afterTaxPrizeValue(tier.prizeValue, tax) * tier.prizesRemaining,
+        0
+    );
+    const afterTaxCurrentEV = remainingTickets > 0 ? remainingPool / remainingTickets : 0;
+
+    return {
+        afterTaxCurrentEV,
+        afterTaxNetCurrentEV: afterTaxCurrentEV - game.price,
+        afterTaxEVPerDollar: game.price > 0 ? afterTaxCurrentEV / game.price : 0
+    };
+}
+
+
+    //Risk metrics for buying one ticket now, treating each remaining prize as equally likely to be on any remaining ticket
+
+function calculateRiskMetrics(game: LotteryGame, remainingTickets: number, currentEV: number) {
+    if (remainingTickets === 0) {
+        return { winProbability: 0, breakEvenProbability: 0, returnStdDev: 0, topTierEVShare: 0 };
+    }
+
+    let winProbability = 0;
+    let breakEvenProbability = 0;
+    let expectedSquare = 0;
+
+    for (const tier of game.prizeTiers) {
+        const p = tier.prizesRemaining / remainingTickets;
+        winProbability += p;
+        if (tier.prizeValue >= game.price) {
+            breakEvenProbability += p;
+        }
+        expectedSquare += p * tier.prizeValue * tier.prizeValue;
+    }
+
+    // Var(X) = E[X^2] - E[X]^2, clamped since estimated tickets can make it slightly negative
+    const returnStdDev = Math.sqrt(Math.max(expectedSquare - currentEV * currentEV, 0));
+
+    const topTier = game.prizeTiers.reduce<PrizeTier | null>(
+        (top, tier) => (!top || tier.prizeValue > top.prizeValue ? tier : top),
+        null
+    );
+    const topTierEV = topTier ? (topTier.prizeValue * topTier.prizesRemaining) / remainingTickets : 0;
+
+    return {
+        winProbability: Math.min(winProbability, 1),
+        breakEvenProbability: Math.min(breakEvenProbability, 1),
+        returnStdDev,
+        topTierEVShare: currentEV > 0 ? topTierEV / currentEV : 0
+    };
+}
+
+
  // Calculate EV metrics for a single game
 
-export function calculateEVForGame(game: LotteryGame): GameWithEV {
-    const estimatedTotalTickets = estimateTotalTickets(game.prizeTiers);
-    const estimatedRemainingTickets = estimateRemainingTickets(game.prizeTiers);
+export function calculateEVForGame(
+    rawGame: LotteryGame,
+    method: EstimationMethod = DEFAULT_ESTIMATION_METHOD,
+    { valuation = getPrizeValuationModel(), tax }: EVOptions = {}
+): GameWithEV {
+    const game = applyPrizeValuation(rawGame, valuation);
+    const estimator = getTicketEstimator(method);
+    const estimatedTotalTickets = estimator.estimate(game, 'prizesAtStart');
+    const estimatedRemainingTickets = estimator.estimate(game, 'prizesRemaining');
 
     const initialEV = calculateInitialEV(game, estimatedTotalTickets);
     const currentEV = calculateCurrentEV(game, estimatedRemainingTickets);
@@ -112,6 +211,13 @@ export function calculateEVForGame(game: LotteryGame): GameWithEV {
     // Calculate expected value per dollar spent
     const evPerDollar = game.price > 0 ? currentEV / game.price : 0;
 
+    // More remaining tickets spreads the same prize pool thinner, so the high ticket estimate gives the low EV
+    const ticketRange = estimateRemainingTicketsRange(game.prizeTiers);
+    const currentEVLow = calculateCurrentEV(game, ticketRange.high);
+    const currentEVHigh = calculateCurrentEV(game, ticketRange.low);
+
+    const risk = calculateRiskMetrics(game, estimatedRemainingTickets, currentEV);
+
     return {
         ...game,
         initialEV,
@@ -120,13 +226,54 @@ export function calculateEVForGame(game: LotteryGame): GameWithEV {
         netCurrentEV,
         evPerDollar,
         estimatedTotalTickets,
-        estimatedRemainingTickets
+        estimatedRemainingTickets,
+        estimationMethod: method,
+        currentEVLow,
+        currentEVHigh,
+        evPerDollarLow: game.price > 0 ? currentEVLow / game.price : 0,
+        evPerDollarHigh: game.price > 0 ? currentEVHigh / game.price : 0,
+        estimatedRemainingTicketsLow: ticketRange.low,
+        estimatedRemainingTicketsHigh: ticketRange.high,
+        ...risk,
+        ...(tax ? calculateAfterTaxMetrics(game, estimatedRemainingTickets, tax) : {})
     };
 }
 
 
     //Big overarching wrapper to calculate ev for all games in a gamelist
 
-export function calculateEVForGames(games: LotteryGame[]): GameWithEV[] {
-    return games.map(calculateEVForGame);
+export function calculateEVForGames(
+    games: LotteryGame[],
+    method: EstimationMethod = DEFAULT_ESTIMATION_METHOD,
+    options: EVOptions = {}
+): GameWithEV[] {
+    return games.map(game => calculateEVForGame(game, method, options));
+}
+
+
+    //Break a game's current EV down by tier so the detail page can show where the value comes from.
+    //Each tier contributes (prize value * prizes remaining) / estimated remaining tickets, so the contributions sum to currentEV.
+
+function calculateTierContribution(tier: PrizeTier, remainingTickets: number, currentEV: number): PrizeTierWithEV {
+    const prizesClaimed = Math.max(tier.prizesAtStart - tier.prizesRemaining, 0);
+    const claimedPercent = tier.prizesAtStart > 0 ? (prizesClaimed / tier.prizesAtStart) * 100 : 0;
+    const evContribution = remainingTickets > 0 ? (tier.prizeValue * tier.prizesRemaining) / remainingTickets : 0;
+    const evShare = currentEV > 0 ? evContribution / currentEV : 0;
+
+    return {
+        ...tier,
+        prizesClaimed,
+        claimedPercent,
+        evContribution,
+        evShare
+    };
+}
+
+export function calculateGameDetail(game: GameWithEV): GameDetail {
+    return {
+        ...game,
+        prizeTiers: game.prizeTiers.map(tier =>
+            calculateTierContribution(tier, game.estimatedRemainingTickets, game.currentEV)
+        )
+    };
 }
@@ -0,0 +1,129 @@
+/*
+ * Library: Game Export
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Turns a list of games into flat rows for download as CSV, JSON or XLSX
+ * (GET /api/games/export).
+ *
+ * Logic & Reasoning:
+ * 1. Flat Rows: Spreadsheets can't hold the nested prizeTiers array, so every
+ * format gets the same flat rows: one per game, or with `includeTiers` one per
+ * prize tier, with the game's columns repeated on each. The JSON export uses
+ * the same rows so all three formats line up column for column.
+ * 2. After-Tax: The after-tax columns are only added when the games were
+ * calculated with a tax model, so pre-tax exports don't carry empty columns.
+ * 3. CSV: Fields with commas, quotes or line breaks are quoted (RFC 4180), and
+ * fields starting with =, +, - or @ get a leading apostrophe so spreadsheet apps
+ * don't run them as formulas. Negative numbers stay numbers.
+ * ----------------------------------------------------------------------------
+ */
+
+import { GameWithEV, PrizeTier } from '@/types/lottery';
+import { buildXlsx, CellValue } from '@/lib/xlsx';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx'];
+
+export interface ExportOptions {
+    includeTiers?: boolean; // One row per prize tier instead of one per game
+    afterTax?: boolean; // Add the after-tax columns
+}
+
+export type ExportRow = Record<string, CellValue>;
+
+interface Column<T> {
+    header: string;
+    value: (item: T) => CellValue;
+}
+
+const GAME_COLUMNS: Column<GameWithEV>[] = [
+    { header: 'gameNumber', value: game => game.gameNumber },
+    { header: 'name', value: game => game.name },
+    { header: 'state', value: game => game.state },
+    { header: 'price', value: game => game.price },
+    { header: 'overallOdds', value: game => game.overallOddsValue },
+    { header: 'initialEV', value: game => game.initialEV },
+    { header: 'currentEV', value: game => game.currentEV },
+    { header: 'currentEVLow', value: game => game.currentEVLow },
+    { header: 'currentEVHigh', value: game => game.currentEVHigh },
+    { header: 'netCurrentEV', value: game => game.netCurrentEV },
+    { header: 'evPerDollar', value: game => game.evPerDollar },
+    { header: 'estimatedRemainingTickets', value: game => game.estimatedRemainingTickets },
+    { header: 'estimationMethod', value: game => game.estimationMethod },
+    { header: 'winProbability', value: game => game.winProbability },
+    { header: 'breakEvenProbability', value: game => game.breakEvenProbability },
+    { header: 'returnStdDev', value: game => game.returnStdDev },
+    { header: 'topTierEVShare', value: game => game.topTierEVShare },
+    { header: 'validationWarnings', value: game => game.validationWarnings?.map(issue => issue.message).join('; ') ?? null },
+    { header: 'url', value: game => game.url },
+];
+
+const AFTER_TAX_COLUMNS: Column<GameWithEV>[] = [
+    { header: 'afterTaxCurrentEV', value: game => game.afterTaxCurrentEV ?? null },
+    { header: 'afterTaxNetCurrentEV', value: game => game.afterTaxNetCurrentEV ?? null },
+    { header: 'afterTaxEVPerDollar', value: game => game.afterTaxEVPerDollar ?? null },
+];
+
+const TIER_COLUMNS: Column<PrizeTier>[] = [
+    { header: 'prize', value: tier => tier.prize },
+    { header: 'prizeKind', value: tier => tier.kind ?? null },
+    { header: 'prizeValue', value: tier => tier.prizeValue },
+    { header: 'prizeOdds', value: tier => tier.odds },
+    { header: 'prizesAtStart', value: tier => tier.prizesAtStart },
+    { header: 'prizesRemaining', value: tier => tier.prizesRemaining },
+];
+
+function gameColumns(options: ExportOptions): Column<GameWithEV>[] {
+    return options.afterTax ? [...GAME_COLUMNS, ...AFTER_TAX_COLUMNS] : GAME_COLUMNS;
+}
+
+ //Column headers of the export, in order
+export function exportHeaders(options: ExportOptions = {}): string[] {
+    const headers = gameColumns(options).map(column => column.header);
+    return options.includeTiers ? [...headers, ...TIER_COLUMNS.map(column => column.header)] : headers;
+}
+
+ //Flatten games into export rows, keeping the order they were given in
+export function buildExportRows(games: GameWithEV[], options: ExportOptions = {}): ExportRow[] {
+    const columns = gameColumns(options);
+
+    return games.flatMap(game => {
+        const row: ExportRow = {};
+        columns.forEach(column => { row[column.header] = column.value(game); });
+        if (!options.includeTiers) return [row];
+
+        // Games without tiers still get a row so they don't vanish from the export
+        if (game.prizeTiers.length === 0) {
+            const empty: ExportRow = { ...row };
+            TIER_COLUMNS.forEach(column => { empty[column.header] = null; });
+            return [empty];
+        }
+
+        return game.prizeTiers.map(tier => {
+            const tierRow: ExportRow = { ...row };
+            TIER_COLUMNS.forEach(column => { tierRow[column.header] = column.value(tier); });
+            return tierRow;
+        });
+    });
+}
+
+function csvField(value: CellValue): string {
+    if (value === null) return '';
+    if (typeof value === 'number') return isFinite(value) ? String(value) : '';
+
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCSV(rows: ExportRow[], headers: string[]): string {
+    const lines = [headers.map(csvField).join(',')];
+    rows.forEach(row => lines.push(headers.map(header => csvField(row[header] ?? null)).join(',')));
+    return lines.join('\r\n') + '\r\n';
+}
+
+export function toXLSX(rows: ExportRow[], headers: string[], sheetName = 'Games'): Buffer {
+    return buildXlsx([headers, ...rows.map(row => headers.map(header => row[header] ?? null))], sheetName);
+}
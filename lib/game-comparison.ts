@@ -0,0 +1,86 @@
+/*
+ * Library: Game Comparison
+ * ----------------------------------------------------------------------------
+ * Responsible: Alex Olson
+ *
+ * Description:
+ * The metrics the comparison page lines up, which direction is "better" for
+ * each, and how prize tiers of different games are matched into rows.
+ *
+ * Logic & Reasoning:
+ * 1. Winners: For each metric the best value wins (highest EV, lowest odds,
+ * ...). Ties all win, and a metric where every game is equal has no winner,
+ * so highlighting only shows up where it tells you something.
+ * 2. Tier Rows: Games rarely have the same prize table, so tiers are matched on
+ * prize value: one row per distinct value, highest first, and a game without
+ * that prize just shows a blank cell.
+ * 3. Pure Functions: No React here, so the page only renders.
+ * ----------------------------------------------------------------------------
+ */
+
+import { GameDetail, PrizeTierWithEV } from '@/types/lottery';
+
+// How many games can be compared at once; more columns stop fitting on screen
+export const MAX_COMPARE_GAMES = 4;
+
+export type Better = 'higher' | 'lower';
+
+export interface ComparisonMetric {
+    label: string;
+    better: Better;
+    value: (game: GameDetail) => number;
+    format: (value: number) => string;
+}
+
+const dollars = (value: number) => `$${value.toFixed(2)}`;
+const signedDollars = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const count = (value: number) => Math.round(value).toLocaleString();
+
+export const COMPARISON_METRICS: ComparisonMetric[] = [
+    { label: 'Price', better: 'lower', value: game => game.price, format: dollars },
+    { label: 'Overall Odds (1 in)', better: 'lower', value: game => game.overallOddsValue, format: value => value.toFixed(2) },
+    { label: 'Initial EV', better: 'higher', value: game => game.initialEV, format: dollars },
+    { label: 'Current EV', better: 'higher', value: game => game.currentEV, format: dollars },
+    { label: 'EV per $', better: 'higher', value: game => game.evPerDollar, format: dollars },
+    { label: 'Current Net', better: 'higher', value: game => game.netCurrentEV, format: signedDollars },
+    { label: 'Win %', better: 'higher', value: game => game.winProbability, format: percent },
+    { label: 'Break Even %', better: 'higher', value: game => game.breakEvenProbability, format: percent },
+    { label: 'Std Dev', better: 'lower', value: game => game.returnStdDev, format: dollars },
+    { label: 'Top Tier Share', better: 'lower', value: game => game.topTierEVShare, format: percent },
+    { label: 'Est. Remaining Tickets', better: 'higher', value: game => game.estimatedRemainingTickets, format: count },
+];
+
+ //Indexes of the winning values. Empty when all values are equal (nothing to highlight).
+export function findWinners(values: (number | null)[], better: Better): number[] {
+    const present = values.filter((value): value is number => value !== null && isFinite(value));
+    if (present.length < 2) return [];
+
+    const best = better === 'higher' ? Math.max(...present) : Math.min(...present);
+    const worst = better === 'higher' ? Math.min(...present) : Math.max(...present);
+    if (best === worst) return [];
+
+    return values.flatMap((value, index) => (value === best ? [index] : []));
+}
+
+export interface TierRow {
+    prizeValue: number;
+    tiers: (PrizeTierWithEV | null)[]; // One entry per game, null if the game has no prize of this value
+}
+
+ //Match the games' prize tiers on prize value, highest prize first
+export function alignPrizeTiers(games: GameDetail[]): TierRow[] {
+    const values = [...new Set(games.flatMap(game => game.prizeTiers.map(tier => tier.prizeValue)))]
+        .sort((a, b) => b - a);
+
+    return values.map(prizeValue => ({
+        prizeValue,
+        tiers: games.map(game => game.prizeTiers.find(tier => tier.prizeValue === prizeValue) ?? null),
+    }));
+}
+
+ //Read the `games` param of the comparison page ("a,b,c"), dropping blanks and duplicates
+export function parseCompareParam(param: string | null | undefined): string[] {
+    const gameNumbers = (param ?? '').split(',').map(value => value.trim()).filter(Boolean);
+    return [...new Set(gameNumbers)].slice(0, MAX_COMPARE_GAMES);
+}
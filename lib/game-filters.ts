@@ -0,0 +1,142 @@
+/*
+ * Library: Game Filters
+ * ----------------------------------------------------------------------------
+ * Responsible: Zachary Memoli
+ *
+ * Description:
+ * The structured filters behind the table's filter panel, plus the code that
+ * reads and writes them as a URL query string so a filtered view can be
+ * bookmarked or sent to someone else.
+ *
+ * Logic & Reasoning:
+ * 1. Query Format: One param per filter, only written when set, so shared
+ * links stay short and readable, e.g.
+ * `?minPrice=5&maxPrice=10&minEvPerDollar=0.75&positiveNet=1&tier=1000:3`.
+ * Tier conditions repeat as `tier=<min prize>:<min remaining>`.
+ * 2. Forgiving Parser: Hand-edited links shouldn't break the page, so values
+ * that don't parse are simply ignored.
+ * 3. After-Tax: EV per dollar and net EV filters use the after-tax figures when
+ * asked to, so filters agree with what the table is showing.
+ * 4. Pure Functions: No React or DOM here, so the same filters can run on the
+ * server.
+ * ----------------------------------------------------------------------------
+ */
+
+import { GameFilters, GameWithEV, TierCondition } from '@/types/lottery';
+
+// The fields filtering reads; `applyGameFilters` hands back whatever game type it was given
+export type FilterableGame = Pick<
+    GameWithEV,
+    'name' | 'gameNumber' | 'price' | 'evPerDollar' | 'netCurrentEV' | 'estimatedRemainingTickets' | 'prizeTiers'
+    | 'afterTaxEVPerDollar' | 'afterTaxNetCurrentEV'
+>;
+
+// Query param name for each filter
+const PARAMS = {
+    q: 'q',
+    minPrice: 'minPrice',
+    maxPrice: 'maxPrice',
+    minEvPerDollar: 'minEvPerDollar',
+    positiveNetEV: 'positiveNet',
+    topPrizeAvailable: 'topPrize',
+    minRemainingTickets: 'minRemaining',
+    tiers: 'tier',
+} as const;
+
+function parseNumberParam(value: string | null): number | undefined {
+    if (value === null || value.trim() === '') return undefined;
+    const number = Number(value);
+    return isFinite(number) ? number : undefined;
+}
+
+function parseFlagParam(value: string | null): boolean | undefined {
+    return value === '1' || value === 'true' ? true : undefined;
+}
+
+function parseTierCondition(value: string): TierCondition | null {
+    const [minPrize, minRemaining] = value.split(':').map(Number);
+    if (!isFinite(minPrize) || minPrize < 0) return null;
+    return { minPrize, minRemaining: isFinite(minRemaining) && minRemaining > 0 ? minRemaining : 1 };
+}
+
+ //Read filters from a query string. Anything missing or unparseable is left unset.
+export function parseGameFilters(params: URLSearchParams): GameFilters {
+    const tiers = params.getAll(PARAMS.tiers)
+        .map(parseTierCondition)
+        .filter((tier): tier is TierCondition => tier !== null);
+
+    return {
+        q: params.get(PARAMS.q) || undefined,
+        minPrice: parseNumberParam(params.get(PARAMS.minPrice)),
+        maxPrice: parseNumberParam(params.get(PARAMS.maxPrice)),
+        minEvPerDollar: parseNumberParam(params.get(PARAMS.minEvPerDollar)),
+        positiveNetEV: parseFlagParam(params.get(PARAMS.positiveNetEV)),
+        topPrizeAvailable: parseFlagParam(params.get(PARAMS.topPrizeAvailable)),
+        minRemainingTickets: parseNumberParam(params.get(PARAMS.minRemainingTickets)),
+        tiers: tiers.length > 0 ? tiers : undefined,
+    };
+}
+
+ //Write filters into a query string, replacing any filter params already there and keeping everything else
+export function writeGameFilters(filters: GameFilters, base: URLSearchParams = new URLSearchParams()): URLSearchParams {
+    const params = new URLSearchParams(base);
+    Object.values(PARAMS).forEach(name => params.delete(name));
+
+    if (filters.q) params.set(PARAMS.q, filters.q);
+    if (filters.minPrice !== undefined) params.set(PARAMS.minPrice, String(filters.minPrice));
+    if (filters.maxPrice !== undefined) params.set(PARAMS.maxPrice, String(filters.maxPrice));
+    if (filters.minEvPerDollar !== undefined) params.set(PARAMS.minEvPerDollar, String(filters.minEvPerDollar));
+    if (filters.positiveNetEV) params.set(PARAMS.positiveNetEV, '1');
+    if (filters.topPrizeAvailable) params.set(PARAMS.topPrizeAvailable, '1');
+    if (filters.minRemainingTickets !== undefined) params.set(PARAMS.minRemainingTickets, String(filters.minRemainingTickets));
+    for (const tier of filters.tiers ?? []) {
+        params.append(PARAMS.tiers, `${tier.minPrize}:${tier.minRemaining}`);
+    }
+
+    return params;
+}
+
+export function countActiveFilters(filters: GameFilters): number {
+    return Object.entries(filters).filter(([key, value]) => key !== 'q' && value !== undefined).length;
+}
+
+function matchesSearch(game: FilterableGame, q: string): boolean {
+    const lowerCased = q.trim().toLowerCase();
+    if (!lowerCased) return true;
+
+    return game.name.toLowerCase().includes(lowerCased)
+        || game.gameNumber.toLowerCase().includes(lowerCased)
+        || game.price.toString().includes(lowerCased);
+}
+
+function topPrizeAvailable(game: FilterableGame): boolean {
+    if (game.prizeTiers.length === 0) return false;
+    const topValue = Math.max(...game.prizeTiers.map(tier => tier.prizeValue));
+    return game.prizeTiers.some(tier => tier.prizeValue === topValue && tier.prizesRemaining > 0);
+}
+
+function matchesTierCondition(game: FilterableGame, condition: TierCondition): boolean {
+    const remaining = game.prizeTiers
+        .filter(tier => tier.prizeValue >= condition.minPrize)
+        .reduce((sum, tier) => sum + tier.prizesRemaining, 0);
+    return remaining >= condition.minRemaining;
+}
+
+export function matchesGameFilters(game: FilterableGame, filters: GameFilters, afterTax = false): boolean {
+    const evPerDollar = afterTax ? game.afterTaxEVPerDollar ?? game.evPerDollar : game.evPerDollar;
+    const netEV = afterTax ? game.afterTaxNetCurrentEV ?? game.netCurrentEV : game.netCurrentEV;
+
+    if (filters.q && !matchesSearch(game, filters.q)) return false;
+    if (filters.minPrice !== undefined && game.price < filters.minPrice) return false;
+    if (filters.maxPrice !== undefined && game.price > filters.maxPrice) return false;
+    if (filters.minEvPerDollar !== undefined && evPerDollar < filters.minEvPerDollar) return false;
+    if (filters.positiveNetEV && netEV <= 0) return false;
+    if (filters.topPrizeAvailable && !topPrizeAvailable(game)) return false;
+    if (filters.minRemainingTickets !== undefined && game.estimatedRemainingTickets < filters.minRemainingTickets) return false;
+    if (filters.tiers && !filters.tiers.every(condition => matchesTierCondition(game, condition))) return false;
+    return true;
+}
+
+export function applyGameFilters<T extends FilterableGame>(games: T[], filters: GameFilters, afterTax = false): T[] {
+    return games.filter(game => matchesGameFilters(game, filters, afterTax));
+}
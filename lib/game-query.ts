@@ -0,0 +1,175 @@
+/*
+ * Library: Game Query (Server-Side Filter, Sort & Pagination)
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Validates the query params of /api/games and applies them to the games of
+ * the current market: filtering (lib/game-filters.ts), sorting, and
+ * cursor-based pagination.
+ *
+ * Logic & Reasoning:
+ * 1. Strict Validation: Unlike the table's forgiving URL parser, the API
+ * answers 400 for anything it can't parse, so a script with a typo finds out
+ * instead of silently getting unfiltered data.
+ * 2. After EV: EV depends on the estimation method and tax mode of the request,
+ * so queries run on the freshly calculated games rather than inside MongoDB.
+ * A market is well under a few hundred games, so this is cheap.
+ * 3. Keyset Cursor: `cursor` encodes the sort value and game number of the last
+ * game on the previous page, and the next page starts strictly after it. Unlike
+ * an offset, that doesn't skip or repeat games when a refresh lands between
+ * two page requests. Game number breaks ties so the order is always total.
+ * 4. No `limit` means every matching game, so existing clients keep working.
+ * ----------------------------------------------------------------------------
+ */
+
+import { GameFilters, GameWithEV } from '@/types/lottery';
+import { applyGameFilters, parseGameFilters } from '@/lib/game-filters';
+
+export const MAX_QUERY_LIMIT = 500;
+
+export type SortOrder = 'asc' | 'desc';
+
+// Fields clients may sort on
+export const SORT_KEYS = [
+    'name', 'price', 'overallOddsValue', 'initialEV', 'currentEV', 'evPerDollar', 'netCurrentEV',
+    'estimatedRemainingTickets', 'winProbability', 'breakEvenProbability', 'returnStdDev', 'topTierEVShare',
+    'afterTaxCurrentEV', 'afterTaxEVPerDollar', 'afterTaxNetCurrentEV',
+] as const;
+
+export type GameSortKey = typeof SORT_KEYS[number];
+
+// Columns the games table can sort by, and so the only ones a user can save as their default sort.
+// After-tax fields are reached through the tax toggle instead of their own columns.
+export const TABLE_SORT_KEYS = [
+    'name', 'price', 'overallOddsValue', 'initialEV', 'currentEV', 'evPerDollar', 'netCurrentEV',
+    'winProbability', 'breakEvenProbability', 'returnStdDev', 'topTierEVShare',
+] as const satisfies readonly GameSortKey[];
+
+export interface GameQuery {
+    filters: GameFilters;
+    sort: GameSortKey;
+    order: SortOrder;
+    limit?: number;
+    cursor?: GameCursor;
+}
+
+interface GameCursor {
+    value: string | number;
+    gameNumber: string;
+}
+
+export interface GameQueryResult {
+    total: number; // Games in the market before filtering
+    matched: number; // Games matching the filters, across all pages
+    nextCursor: string | null; // Pass as `cursor` to get the next page; null on the last page
+    games: GameWithEV[];
+}
+
+const NUMBER_PARAMS = ['minPrice', 'maxPrice', 'minEvPerDollar', 'minRemaining'];
+
+function encodeCursor(cursor: GameCursor): string {
+    return Buffer.from(JSON.stringify([cursor.value, cursor.gameNumber])).toString('base64url');
+}
+
+function decodeCursor(param: string): GameCursor | null {
+    try {
+        const [value, gameNumber] = JSON.parse(Buffer.from(param, 'base64url').toString('utf8'));
+        if ((typeof value !== 'string' && typeof value !== 'number') || typeof gameNumber !== 'string') {
+            return null;
+        }
+        return { value, gameNumber };
+    } catch {
+        return null;
+    }
+}
+
+function sortValue(game: GameWithEV, key: GameSortKey): string | number {
+    return game[key] ?? 0;
+}
+
+function compareValues(a: string | number, b: string | number): number {
+    if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+    return Number(a) - Number(b);
+}
+
+ //Validate the query params of a /api/games request. Returns an error message for the 400 response if anything is off.
+export function parseGameQuery(params: URLSearchParams): { query: GameQuery } | { error: string } {
+    for (const name of NUMBER_PARAMS) {
+        const value = params.get(name);
+        if (value !== null && (value.trim() === '' || !isFinite(Number(value)))) {
+            return { error: `"${name}" must be a number` };
+        }
+    }
+
+    const sortParam = params.get('sort') ?? 'name';
+    if (!(SORT_KEYS as readonly string[]).includes(sortParam)) {
+        return { error: `Unknown sort field. Supported fields: ${SORT_KEYS.join(', ')}` };
+    }
+
+    const orderParam = params.get('order') ?? 'asc';
+    if (orderParam !== 'asc' && orderParam !== 'desc') {
+        return { error: '"order" must be "asc" or "desc"' };
+    }
+
+    let limit: number | undefined;
+    const limitParam = params.get('limit');
+    if (limitParam !== null) {
+        limit = Number(limitParam);
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+            return { error: `"limit" must be a whole number from 1 to ${MAX_QUERY_LIMIT}` };
+        }
+    }
+
+    let cursor: GameCursor | undefined;
+    const cursorParam = params.get('cursor');
+    if (cursorParam !== null) {
+        const decoded = decodeCursor(cursorParam);
+        if (!decoded) {
+            return { error: 'Invalid "cursor"' };
+        }
+        cursor = decoded;
+    }
+
+    return {
+        query: {
+            filters: parseGameFilters(params),
+            sort: sortParam as GameSortKey,
+            order: orderParam,
+            limit,
+            cursor,
+        },
+    };
+}
+
+ //Filter, sort and page a market's games
+export function runGameQuery(games: GameWithEV[], query: GameQuery, afterTax = false): GameQueryResult {
+    const direction = query.order === 'asc' ? 1 : -1;
+    const compare = (a: GameWithEV, b: GameWithEV) =>
+        direction * compareValues(sortValue(a, query.sort), sortValue(b, query.sort))
+        || a.gameNumber.localeCompare(b.gameNumber);
+
+    const matched = applyGameFilters(games, query.filters, afterTax).sort(compare);
+
+    let start = 0;
+    if (query.cursor) {
+        const { value, gameNumber } = query.cursor;
+        const index = matched.findIndex(game =>
+            (direction * compareValues(sortValue(game, query.sort), value) || game.gameNumber.localeCompare(gameNumber)) > 0
+        );
+        start = index === -1 ? matched.length : index;
+    }
+
+    const end = query.limit ? start + query.limit : matched.length;
+    const page = matched.slice(start, end);
+    const last = page[page.length - 1];
+
+    return {
+        total: games.length,
+        matched: matched.length,
+        nextCursor: end < matched.length && last
+            ? encodeCursor({ value: sortValue(last, query.sort), gameNumber: last.gameNumber })
+            : null,
+        games: page,
+    };
+}
@@ -0,0 +1,403 @@
+/*
+ * Library: Game Snapshot Store
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Storage layer on top of `getCollection` that keeps one document per game
+ * per change, instead of one giant `{ updatedAt, games: [...] }` blob per
+ * refresh.
+ *
+ * Logic & Reasoning:
+ * 1. Store Only On Change: Each game document carries a `fingerprint` of its
+ * price and prize tiers. If a refresh produces the same fingerprint as the
+ * game's latest document we only bump `lastSeenAt`, so unchanged games stop
+ * duplicating themselves every scrape.
+ * 2. Current Market: Each version is part of the market from its `updatedAt`
+ * to its `lastSeenAt`. A refresh writes its new versions and stretches the
+ * `lastSeenAt` of the ones it kept, and only then moves the state's head
+ * (`market_heads`) to its time. Readers ask the head which market is current
+ * and take the versions whose span covers it, so a reader during a refresh,
+ * or after one crashed halfway, still sees the whole previous market.
+ * A refresh that found nothing new (no new versions, no games gone) publishes
+ * nothing: it only records `lastParsedAt` and the head's `checkedAt`, so the
+ * market's time doesn't move and nobody is told about a "new" snapshot.
+ * 3. Migration: Old snapshot blobs in the `games` collection are replayed
+ * oldest-first through the same save path, then removed. Documents from
+ * before multi-state support are tagged as Massachusetts. This runs once per
+ * server process the first time the store is touched.
+ * 4. Retention: Recent history is kept at full resolution, older history is
+ * thinned to one document per game per day, and anything past the retention
+ * window is dropped. A game's latest document is never deleted.
+ * ----------------------------------------------------------------------------
+ */
+
+import { createHash } from 'crypto';
+import { Collection, ObjectId } from 'mongodb';
+import getCollection from '@/db';
+import { DEFAULT_STATE } from '@/lib/scraper';
+import { GameWithEV } from '@/types/lottery';
+
+const SNAPSHOT_COLLECTION = 'game_snapshots';
+const LEGACY_COLLECTION = 'games';
+const HEADS_COLLECTION = 'market_heads';
+
+// Compaction is cheap but not free, so only run it this often per server process
+const COMPACTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredGameSnapshot extends GameWithEV {
+    updatedAt: string; // When this version of the game was first seen
+    lastSeenAt: string; // The most recent refresh that still returned this version
+    lastParsedAt?: string; // The most recent refresh that actually re-parsed the game page (not carried forward)
+    fingerprint: string;
+}
+
+export interface MarketSnapshot {
+    updatedAt: string;
+    games: GameWithEV[];
+}
+
+// The market each state's readers see: the refresh at `updatedAt`
+interface MarketHead {
+    state: string;
+    updatedAt: string;
+    checkedAt?: string; // The most recent refresh, including ones that changed nothing
+}
+
+// Fields that only exist in storage, dropped by toGame
+const STORAGE_FIELDS = ['updatedAt', 'lastSeenAt', 'lastParsedAt', 'fingerprint'] as const;
+
+interface LegacySnapshot {
+    _id: ObjectId;
+    updatedAt: string;
+    games: GameWithEV[];
+}
+
+let initialized: Promise<void> | null = null;
+let lastCompactionAt = 0;
+
+// Helpers to read the retention policy from environment, same style as getCacheTTL
+function getFullResolutionDays(): number {
+    const envDays = process.env.SNAPSHOT_FULL_RESOLUTION_DAYS;
+    return envDays ? parseInt(envDays) : 30; // 30 days by default
+}
+
+function getRetentionDays(): number {
+    const envDays = process.env.SNAPSHOT_RETENTION_DAYS;
+    return envDays ? parseInt(envDays) : 365; // one year by default
+}
+
+function daysAgo(days: number): string {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Hash the parts of a game that actually change between scrapes
+function fingerprintGame(game: GameWithEV): string {
+    const relevant = {
+        price: game.price,
+        overallOdds: game.overallOdds,
+        prizeTiers: game.prizeTiers.map(tier => [tier.prize, tier.odds, tier.prizesAtStart, tier.prizesRemaining]),
+    };
+    return createHash('sha1').update(JSON.stringify(relevant)).digest('hex');
+}
+
+// Strip storage-only fields so callers get a plain GameWithEV back
+function toGame(doc: StoredGameSnapshot): GameWithEV {
+    const game: Partial<StoredGameSnapshot> = { ...doc };
+    for (const field of STORAGE_FIELDS) {
+        delete game[field];
+    }
+    return game as GameWithEV;
+}
+
+async function snapshotCollection(): Promise<Collection<StoredGameSnapshot>> {
+    const collection = await getCollection(SNAPSHOT_COLLECTION);
+    return collection as unknown as Collection<StoredGameSnapshot>;
+}
+
+async function headsCollection(): Promise<Collection<MarketHead>> {
+    const collection = await getCollection(HEADS_COLLECTION);
+    return collection as unknown as Collection<MarketHead>;
+}
+
+// When the current market of a state was stored. States stored before heads existed fall back to
+// the newest `lastSeenAt`, which meant the same thing then.
+async function getPublishedAt(
+    collection: Collection<StoredGameSnapshot>,
+    state: string
+): Promise<string | null> {
+    const head = await (await headsCollection()).findOne({ state });
+    if (head) return head.updatedAt;
+
+    const newest = await collection.findOne({ state }, { sort: { lastSeenAt: -1 }, projection: { lastSeenAt: 1 } });
+    return newest?.lastSeenAt ?? null;
+}
+
+// The versions making up a state's market at a published time
+function marketFilter(state: string, publishedAt: string) {
+    return { state, updatedAt: { $lte: publishedAt }, lastSeenAt: { $gte: publishedAt } };
+}
+
+async function writeMarket(
+    collection: Collection<StoredGameSnapshot>,
+    games: GameWithEV[],
+    seenAt: string,
+    state: string,
+    carryForward?: 'all' | string[]
+): Promise<boolean> {
+    const publishedAt = await getPublishedAt(collection, state);
+    const current = publishedAt
+        ? await collection.find(marketFilter(state, publishedAt), { projection: { gameNumber: 1, fingerprint: 1 } }).toArray()
+        : [];
+    const currentByNumber = new Map(current.map(doc => [doc.gameNumber, doc]));
+
+    // Unchanged games keep their version; anything new or different gets a new one
+    const keptIds: ObjectId[] = [];
+    const inserts: StoredGameSnapshot[] = [];
+    for (const game of games) {
+        const fingerprint = fingerprintGame(game);
+        const existing = currentByNumber.get(game.gameNumber);
+        if (existing && existing.fingerprint === fingerprint) {
+            keptIds.push(existing._id!);
+        } else {
+            inserts.push({ ...game, updatedAt: seenAt, lastSeenAt: seenAt, lastParsedAt: seenAt, fingerprint });
+        }
+    }
+
+    // Games this refresh didn't parse but should stay in the market
+    const scraped = new Set(games.map(game => game.gameNumber));
+    const carriedIds = current
+        .filter(doc => !scraped.has(doc.gameNumber))
+        .filter(doc => carryForward === 'all' || (carryForward ?? []).includes(doc.gameNumber))
+        .map(doc => doc._id!);
+
+    // Nothing new and nothing gone: the current market stays as it is, only note that it was checked
+    const dropped = current.length - keptIds.length - carriedIds.length;
+    if (publishedAt && inserts.length === 0 && dropped === 0) {
+        if (keptIds.length > 0) {
+            await collection.updateMany({ _id: { $in: keptIds } }, { $set: { lastParsedAt: seenAt } });
+        }
+        await (await headsCollection()).updateOne({ state }, { $set: { state, updatedAt: publishedAt, checkedAt: seenAt } }, { upsert: true });
+        return false;
+    }
+
+    if (inserts.length > 0) {
+        await collection.insertMany(inserts);
+    }
+    if (keptIds.length > 0) {
+        await collection.updateMany({ _id: { $in: keptIds } }, { $set: { lastSeenAt: seenAt, lastParsedAt: seenAt } });
+    }
+    if (carriedIds.length > 0) {
+        await collection.updateMany({ _id: { $in: carriedIds } }, { $set: { lastSeenAt: seenAt } });
+    }
+
+    // Publish last: until now readers still got the previous market
+    await (await headsCollection()).updateOne({ state }, { $set: { state, updatedAt: seenAt, checkedAt: seenAt } }, { upsert: true });
+    return true;
+}
+
+// Replay any old `{ updatedAt, games }` blobs into per-game documents, oldest first
+export async function migrateLegacySnapshots(): Promise<number> {
+    const legacy = await getCollection(LEGACY_COLLECTION);
+    const collection = await snapshotCollection();
+    let migrated = 0;
+
+    const cursor = legacy.find({ games: { $type: 'array' } }, { sort: { updatedAt: 1 } });
+    for await (const doc of cursor) {
+        const snapshot = doc as LegacySnapshot;
+        const games = snapshot.games.map(game => ({ ...game, state: game.state ?? DEFAULT_STATE }));
+        await writeMarket(collection, games, snapshot.updatedAt, games[0]?.state ?? DEFAULT_STATE);
+        await legacy.deleteOne({ _id: snapshot._id });
+        migrated++;
+    }
+
+    if (migrated > 0) {
+        console.log(`Migrated ${migrated} legacy snapshot documents into ${SNAPSHOT_COLLECTION}`);
+    }
+    return migrated;
+}
+
+async function initialize(): Promise<void> {
+    const collection = await snapshotCollection();
+    // Older per-game documents predate the `state` field; they all came from Massachusetts
+    await collection.updateMany({ state: { $exists: false } }, { $set: { state: DEFAULT_STATE } });
+    await collection.createIndex({ state: 1, gameNumber: 1, updatedAt: -1 });
+    await collection.createIndex({ state: 1, lastSeenAt: -1 });
+    await collection.createIndex({ updatedAt: -1 });
+    await (await headsCollection()).createIndex({ state: 1 }, { unique: true });
+    await migrateLegacySnapshots();
+}
+
+// Make sure indexes exist and legacy data is migrated before first use
+async function ensureInitialized(): Promise<Collection<StoredGameSnapshot>> {
+    if (!initialized) {
+        initialized = initialize().catch(err => {
+            // Allow a retry on the next call instead of caching the failure
+            initialized = null;
+            throw err;
+        });
+    }
+    await initialized;
+    return snapshotCollection();
+}
+
+// Save the result of one refresh. A partial refresh (only some games scraped) should pass
+// `carryForward` so the games it didn't parse stay part of the current market: 'all' keeps
+// every previously current game, a list of game numbers keeps only those.
+// Resolves to false when nothing changed, in which case the current market stays published.
+export async function saveMarketSnapshot(
+    games: GameWithEV[],
+    updatedAt = new Date().toISOString(),
+    options: { state?: string; carryForward?: 'all' | string[] } = {}
+): Promise<boolean> {
+    const collection = await ensureInitialized();
+    const state = options.state ?? games[0]?.state ?? DEFAULT_STATE;
+    return writeMarket(collection, games, updatedAt, state, options.carryForward);
+}
+
+// Return every game seen in the most recent refresh of a state, keeping the storage fields
+// (e.g. lastParsedAt) for refresh bookkeeping
+export async function getLatestMarketVersions(state: string = DEFAULT_STATE): Promise<StoredGameSnapshot[]> {
+    const collection = await ensureInitialized();
+
+    const publishedAt = await getPublishedAt(collection, state);
+    if (!publishedAt) return [];
+
+    return collection.find(marketFilter(state, publishedAt), { projection: { _id: 0 } }).toArray();
+}
+
+// Return every game seen in the most recent refresh of a state, or null if nothing is stored yet
+export async function getLatestMarket(state: string = DEFAULT_STATE): Promise<MarketSnapshot | null> {
+    const collection = await ensureInitialized();
+
+    const publishedAt = await getPublishedAt(collection, state);
+    if (!publishedAt) return null;
+
+    const docs = await collection.find(marketFilter(state, publishedAt), { projection: { _id: 0 } }).toArray();
+    return {
+        updatedAt: publishedAt,
+        games: docs.map(toGame),
+    };
+}
+
+// Return when the most recent refresh of a state was stored, without loading its games
+export async function getLatestUpdatedAt(state: string = DEFAULT_STATE): Promise<string | null> {
+    const collection = await ensureInitialized();
+    return getPublishedAt(collection, state);
+}
+
+// Return when a state was last refreshed, whether or not that refresh changed anything
+export async function getLatestCheckedAt(state: string = DEFAULT_STATE): Promise<string | null> {
+    const collection = await ensureInitialized();
+    const head = await (await headsCollection()).findOne({ state });
+    return head?.checkedAt ?? getPublishedAt(collection, state);
+}
+
+// Return the latest stored version of one game
+export async function getLatestGame(
+    gameNumber: string,
+    state: string = DEFAULT_STATE
+): Promise<{ updatedAt: string; game: GameWithEV } | null> {
+    const collection = await ensureInitialized();
+
+    const doc = await collection.findOne(
+        { state, gameNumber },
+        { sort: { updatedAt: -1 }, projection: { _id: 0 } }
+    );
+    if (!doc) return null;
+
+    return { updatedAt: doc.lastSeenAt, game: toGame(doc) };
+}
+
+// Return every stored version of one game in chronological order
+export async function getGameVersions(
+    gameNumber: string,
+    options: { state?: string; since?: string; limit?: number } = {}
+): Promise<{ updatedAt: string; game: GameWithEV }[]> {
+    const collection = await ensureInitialized();
+
+    const filter: Record<string, unknown> = { state: options.state ?? DEFAULT_STATE, gameNumber };
+    if (options.since) {
+        filter.updatedAt = { $gte: options.since };
+    }
+
+    // Newest first so `limit` keeps the most recent versions, then flip to chronological
+    const docs = await collection
+        .find(filter, { sort: { updatedAt: -1 }, limit: options.limit ?? 0, projection: { _id: 0 } })
+        .toArray();
+
+    return docs.reverse().map(doc => ({ updatedAt: doc.updatedAt, game: toGame(doc) }));
+}
+
+// Return the stored version of one game closest to a point in time: the version in effect then,
+// or the first version stored after it if the game wasn't being tracked yet (`storedAfter` says which)
+export async function getGameVersionAt(
+    gameNumber: string,
+    at: string,
+    state: string = DEFAULT_STATE
+): Promise<{ updatedAt: string; game: GameWithEV; storedAfter: boolean } | null> {
+    const collection = await ensureInitialized();
+
+    const before = await collection.findOne(
+        { state, gameNumber, updatedAt: { $lte: at } },
+        { sort: { updatedAt: -1 }, projection: { _id: 0 } }
+    );
+    const doc = before ?? await collection.findOne(
+        { state, gameNumber, updatedAt: { $gt: at } },
+        { sort: { updatedAt: 1 }, projection: { _id: 0 } }
+    );
+    if (!doc) return null;
+
+    return { updatedAt: doc.updatedAt, game: toGame(doc), storedAfter: !before };
+}
+
+// Thin out and expire old history according to the retention policy
+export async function compactSnapshots(): Promise<{ thinned: number; expired: number }> {
+    const collection = await ensureInitialized();
+
+    // Never delete the newest version of any game
+    const latestPerGame = await collection.aggregate<{ keep: ObjectId }>([
+        { $sort: { updatedAt: -1 } },
+        { $group: { _id: { state: '$state', gameNumber: '$gameNumber' }, keep: { $first: '$_id' } } },
+    ]).toArray();
+    const protectedIds = latestPerGame.map(g => g.keep);
+
+    // 1. Drop everything past the retention window
+    const expired = await collection.deleteMany({
+        updatedAt: { $lt: daysAgo(getRetentionDays()) },
+        _id: { $nin: protectedIds },
+    });
+
+    // 2. Past the full-resolution window, keep only the last version of each game per day
+    const perDay = await collection.aggregate<{ keep: ObjectId; ids: ObjectId[] }>([
+        { $match: { updatedAt: { $lt: daysAgo(getFullResolutionDays()) } } },
+        { $sort: { updatedAt: -1 } },
+        {
+            $group: {
+                _id: { state: '$state', gameNumber: '$gameNumber', day: { $substrBytes: ['$updatedAt', 0, 10] } },
+                keep: { $first: '$_id' },
+                ids: { $push: '$_id' },
+            },
+        },
+        { $match: { 'ids.1': { $exists: true } } },
+    ]).toArray();
+
+    const keep = new Set([...perDay.map(g => g.keep.toHexString()), ...protectedIds.map(id => id.toHexString())]);
+    const thinIds = perDay.flatMap(g => g.ids).filter(id => !keep.has(id.toHexString()));
+    const thinned = thinIds.length > 0
+        ? await collection.deleteMany({ _id: { $in: thinIds } })
+        : { deletedCount: 0 };
+
+    return { thinned: thinned.deletedCount, expired: expired.deletedCount };
+}
+
+// Run compaction at most once per COMPACTION_INTERVAL_MS; safe to call after every refresh
+export async function compactSnapshotsIfDue(): Promise<void> {
+    if (Date.now() - lastCompactionAt < COMPACTION_INTERVAL_MS) return;
+    lastCompactionAt = Date.now();
+
+    const { thinned, expired } = await compactSnapshots();
+    if (thinned > 0 || expired > 0) {
+        console.log(`Snapshot compaction: thinned ${thinned}, expired ${expired}`);
+    }
+}
@@ -0,0 +1,292 @@
+/*
+ * Library: Ticket Ledger
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Real tickets bought and what they paid out (`ledger_entries` collection),
+ * and the report that holds them up against what the app predicted: each
+ * entry is joined with the stored snapshot of its game closest to the
+ * purchase date, and the running totals give realized vs expected ROI over
+ * time.
+ *
+ * Logic & Reasoning:
+ * 1. Snapshot at Purchase: The prediction uses the version of the game that
+ * was in effect at the end of the purchase day, or the first one stored after
+ * it if the game wasn't tracked yet (see `getGameVersionAt`); the entry says
+ * when that happened, and the UI labels it. Entries for a game with no stored
+ * data at all are refused when created, since there would be nothing to
+ * compare against.
+ * 2. Prediction Saved Once: EV per ticket and per dollar are calculated with
+ * the default method when the purchase is logged, and saved on the entry, so
+ * later changes to the calculator, the settings or the stored history can't
+ * rewrite what was predicted. Entries logged before this get theirs the
+ * first time the ledger is read.
+ * 3. Expected Value: EV per dollar x what was actually paid, so bundles and
+ * discounts still compare fairly. Expected ROI only counts entries that have
+ * a prediction.
+ * 4. Owners: Entries belong to the signed-in user's id; the ledger needs an
+ * account (see lib/sessions.ts).
+ * ----------------------------------------------------------------------------
+ */
+
+import { Collection, ObjectId } from 'mongodb';
+import getCollection from '@/db';
+import { calculateEVForGame } from '@/lib/ev-calculator';
+import { getGameVersionAt } from '@/lib/game-store';
+import { LedgerEntry, LedgerEntryWithEV, LedgerPrediction, LedgerSummary, LedgerTimelinePoint } from '@/types/lottery';
+
+const LEDGER_COLLECTION = 'ledger_entries';
+const MAX_NOTE_LENGTH = 500;
+
+type StoredLedgerEntry = Omit<LedgerEntry, 'id'> & { _id?: ObjectId };
+
+// The fields a client sends to log a purchase
+export type LedgerEntryInput = Pick<LedgerEntry, 'state' | 'gameNumber' | 'purchasedAt' | 'tickets' | 'cost' | 'prizeWon' | 'note'>;
+
+// The fields that can change once a purchase is logged (scratching the tickets later, mostly)
+export type LedgerEntryUpdate = Partial<Pick<LedgerEntry, 'prizeWon' | 'note'>>;
+
+let initialized: Promise<void> | null = null;
+
+async function ledgerCollection(): Promise<Collection<StoredLedgerEntry>> {
+    const collection = await getCollection(LEDGER_COLLECTION);
+    return collection as unknown as Collection<StoredLedgerEntry>;
+}
+
+// Make sure indexes exist before first use
+async function ensureInitialized(): Promise<Collection<StoredLedgerEntry>> {
+    if (!initialized) {
+        initialized = ledgerCollection()
+            .then(collection => collection.createIndex({ owner: 1, state: 1, purchasedAt: -1 }))
+            .then(() => undefined)
+            .catch(err => {
+                // Allow a retry on the next call instead of caching the failure
+                initialized = null;
+                throw err;
+            });
+    }
+    await initialized;
+    return ledgerCollection();
+}
+
+function toEntry({ _id, ...entry }: StoredLedgerEntry): LedgerEntry {
+    return { id: _id!.toString(), ...entry };
+}
+
+function isAmount(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value) && value >= 0;
+}
+
+// The moment a purchase date is matched against snapshots: the end of that day
+function purchaseTime(purchasedAt: string): string {
+    return `${purchasedAt}T23:59:59.999Z`;
+}
+
+function checkNote(note: unknown): string | null {
+    if (note !== undefined && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+        return `"note" must be a string of at most ${MAX_NOTE_LENGTH} characters`;
+    }
+    return null;
+}
+
+ //Check a purchase sent by a client. Returns an error message for the 400 response, or null if it's fine.
+export function validateLedgerEntryInput(input: Partial<LedgerEntryInput> | null): string | null {
+    if (typeof input !== 'object' || input === null) {
+        return 'Body must be a JSON object';
+    }
+    if (typeof input.gameNumber !== 'string' || !input.gameNumber.trim()) {
+        return '"gameNumber" must be a non-empty string';
+    }
+    if (
+        typeof input.purchasedAt !== 'string'
+        || !/^\d{4}-\d{2}-\d{2}$/.test(input.purchasedAt)
+        || isNaN(Date.parse(input.purchasedAt))
+        // Date.parse rolls impossible days over (2026-02-31 becomes March 3rd), so the date must come back unchanged
+        || new Date(input.purchasedAt).toISOString().slice(0, 10) !== input.purchasedAt
+    ) {
+        return '"purchasedAt" must be a date like 2026-01-31';
+    }
+    if (input.purchasedAt > new Date().toISOString().slice(0, 10)) {
+        return '"purchasedAt" can\'t be in the future';
+    }
+    if (typeof input.tickets !== 'number' || !Number.isInteger(input.tickets) || input.tickets < 1) {
+        return '"tickets" must be a whole number of at least 1';
+    }
+    if (!isAmount(input.cost) || input.cost === 0) {
+        return '"cost" must be a dollar amount above 0';
+    }
+    if (!isAmount(input.prizeWon)) {
+        return '"prizeWon" must be a dollar amount of at least 0';
+    }
+    return checkNote(input.note);
+}
+
+ //Check an edit to a logged purchase. Returns an error message for the 400 response, or null if it's fine.
+export function validateLedgerEntryUpdate(update: LedgerEntryUpdate | null): string | null {
+    if (typeof update !== 'object' || update === null) {
+        return 'Body must be a JSON object';
+    }
+    if (update.prizeWon === undefined && update.note === undefined) {
+        return 'Send "prizeWon" and/or "note" to update';
+    }
+    if (update.prizeWon !== undefined && !isAmount(update.prizeWon)) {
+        return '"prizeWon" must be a dollar amount of at least 0';
+    }
+    return checkNote(update.note);
+}
+
+// The prediction for a purchase, from the snapshot of its game closest to the purchase date
+async function predictPurchase(state: string, gameNumber: string, purchasedAt: string): Promise<{ gameName: string; prediction: LedgerPrediction } | null> {
+    const version = await getGameVersionAt(gameNumber, purchaseTime(purchasedAt), state);
+    if (!version) return null;
+
+    const { currentEV, evPerDollar } = calculateEVForGame(version.game);
+    return {
+        gameName: version.game.name,
+        prediction: { currentEV, evPerDollar, snapshotUpdatedAt: version.updatedAt, afterPurchase: version.storedAfter },
+    };
+}
+
+ //Log a purchase. Returns null if there is no stored data for the game to compare against.
+export async function createLedgerEntry(owner: string, input: LedgerEntryInput): Promise<LedgerEntry | null> {
+    const gameNumber = input.gameNumber.trim();
+    const predicted = await predictPurchase(input.state, gameNumber, input.purchasedAt);
+    if (!predicted) return null;
+
+    const collection = await ensureInitialized();
+    const entry: StoredLedgerEntry = {
+        owner,
+        state: input.state,
+        gameNumber,
+        gameName: predicted.gameName,
+        purchasedAt: input.purchasedAt,
+        tickets: input.tickets,
+        cost: input.cost,
+        prizeWon: input.prizeWon,
+        createdAt: new Date().toISOString(),
+        prediction: predicted.prediction,
+    };
+    if (input.note?.trim()) entry.note = input.note.trim();
+
+    const { insertedId } = await collection.insertOne(entry);
+    return toEntry({ ...entry, _id: insertedId });
+}
+
+ //Apply a validated edit to one of the owner's entries. Returns null if there was no such entry.
+export async function updateLedgerEntry(owner: string, id: string, update: LedgerEntryUpdate): Promise<LedgerEntry | null> {
+    if (!ObjectId.isValid(id)) return null;
+    const collection = await ensureInitialized();
+
+    const $set: Partial<StoredLedgerEntry> = {};
+    if (update.prizeWon !== undefined) $set.prizeWon = update.prizeWon;
+    if (update.note?.trim()) $set.note = update.note.trim();
+    // An empty note removes it
+    const clearNote = update.note !== undefined && !update.note.trim();
+
+    const entry = await collection.findOneAndUpdate(
+        { _id: new ObjectId(id), owner },
+        { ...(Object.keys($set).length > 0 ? { $set } : {}), ...(clearNote ? { $unset: { note: '' as const } } : {}) },
+        { returnDocument: 'after' }
+    );
+    return entry ? toEntry(entry) : null;
+}
+
+ //Delete one of the owner's entries. Returns false if there was no such entry.
+export async function deleteLedgerEntry(owner: string, id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) return false;
+    const collection = await ensureInitialized();
+    const { deletedCount } = await collection.deleteOne({ _id: new ObjectId(id), owner });
+    return deletedCount > 0;
+}
+
+function roi(returned: number, spent: number): number {
+    return spent > 0 ? (returned - spent) / spent : 0;
+}
+
+ //Totals and running ROI for entries that already carry their prediction. Entries come back newest first.
+export function summarizeLedger(entries: LedgerEntryWithEV[]): LedgerSummary {
+    const chronological = [...entries].sort((a, b) =>
+        a.purchasedAt.localeCompare(b.purchasedAt) || a.createdAt.localeCompare(b.createdAt)
+    );
+
+    // One point per purchase day, carrying the totals up to and including that day
+    const timeline: LedgerTimelinePoint[] = [];
+    let tickets = 0, cost = 0, prizeWon = 0, expectedValue = 0, predictedCost = 0;
+    for (const entry of chronological) {
+        tickets += entry.tickets;
+        cost += entry.cost;
+        prizeWon += entry.prizeWon;
+        if (entry.expectedValue !== null) {
+            expectedValue += entry.expectedValue;
+            predictedCost += entry.cost;
+        }
+
+        const point: LedgerTimelinePoint = {
+            date: entry.purchasedAt,
+            cost,
+            prizeWon,
+            expectedValue,
+            predictedCost,
+            realizedROI: roi(prizeWon, cost),
+            expectedROI: predictedCost > 0 ? roi(expectedValue, predictedCost) : null,
+        };
+        if (timeline.at(-1)?.date === point.date) {
+            timeline[timeline.length - 1] = point;
+        } else {
+            timeline.push(point);
+        }
+    }
+
+    return {
+        entries: chronological.reverse(),
+        totals: {
+            tickets,
+            cost,
+            prizeWon,
+            expectedValue,
+            predictedCost,
+            realizedROI: roi(prizeWon, cost),
+            expectedROI: predictedCost > 0 ? roi(expectedValue, predictedCost) : null,
+        },
+        timeline,
+    };
+}
+
+ //The owner's ledger for a state, each entry next to the prediction saved with it
+export async function getLedgerSummary(owner: string, state: string): Promise<LedgerSummary> {
+    const collection = await ensureInitialized();
+    const docs = await collection.find({ owner, state }).toArray();
+
+    // Entries logged before predictions were saved get theirs now, once.
+    // Several entries for the same game on the same day share one lookup.
+    const predictions = new Map<string, ReturnType<typeof predictPurchase>>();
+    await Promise.all(docs.filter(doc => !doc.prediction).map(async doc => {
+        const key = `${doc.gameNumber}|${doc.purchasedAt}`;
+        if (!predictions.has(key)) {
+            predictions.set(key, predictPurchase(state, doc.gameNumber, doc.purchasedAt));
+        }
+        const predicted = await predictions.get(key)!;
+        if (!predicted) return;
+
+        doc.prediction = predicted.prediction;
+        await collection.updateOne({ _id: doc._id, prediction: { $exists: false } }, { $set: { prediction: doc.prediction } });
+    }));
+
+    const entries = docs.map(toEntry).map((entry): LedgerEntryWithEV => {
+        const evPerDollar = entry.prediction?.evPerDollar ?? null;
+        const expectedValue = evPerDollar !== null ? evPerDollar * entry.cost : null;
+
+        return {
+            ...entry,
+            snapshotUpdatedAt: entry.prediction?.snapshotUpdatedAt ?? null,
+            snapshotAfterPurchase: entry.prediction?.afterPurchase ?? false,
+            evPerDollar,
+            expectedValue,
+            realizedROI: roi(entry.prizeWon, entry.cost),
+            expectedROI: expectedValue !== null ? roi(expectedValue, entry.cost) : null,
+        };
+    });
+
+    return summarizeLedger(entries);
+}
@@ -0,0 +1,99 @@
+/*
+ * Notification Channel: Email (SMTP)
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Sends the notification as a plain-text email to the rule's target address
+ * through the SMTP server at SMTP_HOST:SMTP_PORT (default localhost:1025),
+ * from SMTP_FROM (default alerts@localhost).
+ *
+ * Logic & Reasoning:
+ * - Sent with nodemailer, so real mail providers work: STARTTLS is used
+ * whenever the server offers it (SMTP_REQUIRE_TLS=1 refuses to send without
+ * it), SMTP_SECURE=1 connects over TLS from the start (usually port 465), and
+ * SMTP_USER / SMTP_PASS log in.
+ * - With none of those set it talks plain SMTP, which is what a local
+ * stand-in such as Mailpit or MailHog (both listen on port 1025) expects, so
+ * the messages can be seen in a browser while developing.
+ * - A rejected recipient is reported as a failed delivery instead of silently
+ * vanishing. Connecting and each reply time out after SMTP_TIMEOUT_MS
+ * (default 10s).
+ * ----------------------------------------------------------------------------
+ */
+
+import nodemailer from 'nodemailer';
+import { AlertNotification, NotificationChannel } from '@/types/lottery';
+
+interface SmtpConfig {
+    host: string;
+    port: number;
+    secure: boolean;
+    requireTLS: boolean;
+    user?: string;
+    pass?: string;
+    from: string;
+    timeoutMs: number;
+}
+
+// Helper to read SMTP settings from environment, same style as getCacheTTL
+function getSmtpConfig(): SmtpConfig {
+    const envPort = process.env.SMTP_PORT;
+    const envTimeout = process.env.SMTP_TIMEOUT_MS;
+    const isSet = (value?: string) => ['1', 'true'].includes(value ?? '');
+
+    return {
+        host: process.env.SMTP_HOST || 'localhost',
+        port: envPort ? parseInt(envPort) : 1025,
+        secure: isSet(process.env.SMTP_SECURE),
+        requireTLS: isSet(process.env.SMTP_REQUIRE_TLS),
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined,
+        from: process.env.SMTP_FROM || 'alerts@localhost',
+        timeoutMs: envTimeout ? parseInt(envTimeout) : 10_000,
+    };
+}
+
+function buildText(notification: AlertNotification): string {
+    return [
+        notification.message,
+        '',
+        `Game: ${notification.gameName} (#${notification.gameNumber}, ${notification.state})`,
+        `Rule: ${notification.ruleType}`,
+        `Time: ${notification.createdAt}`,
+    ].join('\n');
+}
+
+async function sendMail(config: SmtpConfig, to: string, notification: AlertNotification): Promise<void> {
+    const transport = nodemailer.createTransport({
+        host: config.host,
+        port: config.port,
+        secure: config.secure,
+        requireTLS: config.requireTLS,
+        auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+        connectionTimeout: config.timeoutMs,
+        greetingTimeout: config.timeoutMs,
+        socketTimeout: config.timeoutMs,
+    });
+
+    try {
+        await transport.sendMail({
+            from: config.from,
+            to,
+            subject: `Scratcher alert: ${notification.gameName}`,
+            text: buildText(notification),
+        });
+    } finally {
+        transport.close();
+    }
+}
+
+export const emailChannel: NotificationChannel = {
+    type: 'email',
+    async deliver(notification, target) {
+        if (!target) throw new Error('Email rule has no target address');
+        if (/[\r\n<>,;]/.test(target)) throw new Error('Invalid email address');
+
+        await sendMail(getSmtpConfig(), target, notification);
+    },
+};
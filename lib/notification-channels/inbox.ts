@@ -0,0 +1,20 @@
+/*
+ * Notification Channel: In-App Inbox
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Every notification is stored in the `notifications` collection before any
+ * channel runs, and the inbox (GET /api/notifications) reads straight from
+ * there, so this channel has nothing left to do.
+ * ----------------------------------------------------------------------------
+ */
+
+import { NotificationChannel } from '@/types/lottery';
+
+export const inboxChannel: NotificationChannel = {
+    type: 'inbox',
+    async deliver() {
+        // Already stored
+    },
+};
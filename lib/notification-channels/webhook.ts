@@ -0,0 +1,142 @@
+/*
+ * Notification Channel: Outgoing Webhook
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * POSTs the notification as JSON to the rule's target URL.
+ *
+ * Logic & Reasoning:
+ * - The body is the stored notification as-is, so receivers get the same
+ * fields as the inbox API.
+ * - Requests time out after WEBHOOK_TIMEOUT_MS (default 10s), so a dead
+ * endpoint can't hold up the rest of the alerts after a refresh.
+ * - Any non-2xx answer counts as a failed delivery, redirects included.
+ * - Public Targets Only: Anyone with an account can point a webhook anywhere,
+ * so targets on loopback, private, link-local (cloud metadata) and other
+ * non-public addresses are refused. `checkWebhookTarget` tells the user when
+ * the rule is made; delivery checks the address actually connected to as well,
+ * since a hostname can resolve somewhere else later and redirects aren't
+ * followed. Set ALLOW_PRIVATE_WEBHOOKS=1 to allow them while developing, e.g.
+ * for a rule pointed at `nc -l 9000` on localhost.
+ * ----------------------------------------------------------------------------
+ */
+
+import { lookup } from 'dns';
+import { lookup as lookupAsync } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { NotificationChannel } from '@/types/lottery';
+
+// Addresses a webhook may not reach: this host, private networks, link-local, multicast and reserved ranges.
+// BlockList checks IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 rules itself.
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+    NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+    NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+// Helper to get the webhook timeout from environment, same style as getCacheTTL
+function getWebhookTimeout(): number {
+    const envTimeout = process.env.WEBHOOK_TIMEOUT_MS;
+    return envTimeout ? parseInt(envTimeout) : 10_000;
+}
+
+// Helper to read the development override, same style as getCacheTTL
+function allowPrivateWebhooks(): boolean {
+    return ['1', 'true'].includes(process.env.ALLOW_PRIVATE_WEBHOOKS ?? '');
+}
+
+function isNonPublicAddress(address: string): boolean {
+    return NON_PUBLIC.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+function refusedAddress(host: string, address: string): string {
+    return `Webhook host ${host} is not a public address (${address})`;
+}
+
+// DNS lookup for the request itself, so the address connected to is the one that was checked
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err, []);
+        const refused = allowPrivateWebhooks() ? undefined : addresses.find(({ address }) => isNonPublicAddress(address));
+        if (refused) return callback(new Error(refusedAddress(hostname, refused.address)), []);
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+ //Check a webhook URL before saving or testing a rule. Returns an error message for the 400 response, or null if it's fine.
+export async function checkWebhookTarget(target: string): Promise<string | null> {
+    let url: URL;
+    try {
+        url = new URL(target);
+    } catch {
+        return 'Webhook target is not a valid URL';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'Webhook target must be an http(s) URL';
+    }
+    if (allowPrivateWebhooks()) return null;
+
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    try {
+        const addresses = isIP(host) ? [{ address: host }] : await lookupAsync(host, { all: true });
+        const refused = addresses.find(({ address }) => isNonPublicAddress(address));
+        return refused ? refusedAddress(host, refused.address) : null;
+    } catch {
+        return `Webhook host ${host} could not be resolved`;
+    }
+}
+
+// POST a JSON body and resolve with the status code. Literal IP hosts skip DNS, so they are checked here.
+function postJson(url: URL, body: string): Promise<number> {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host) && !allowPrivateWebhooks() && isNonPublicAddress(host)) {
+        return Promise.reject(new Error(refusedAddress(host, host)));
+    }
+
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    return new Promise((resolve, reject) => {
+        const req = send(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Content-Length': Buffer.byteLength(body),
+                'User-Agent': 'scratcher-alerts',
+            },
+            lookup: publicOnlyLookup,
+            signal: AbortSignal.timeout(getWebhookTimeout()),
+        }, res => {
+            res.resume();
+            resolve(res.statusCode ?? 0);
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+export const webhookChannel: NotificationChannel = {
+    type: 'webhook',
+    async deliver(notification, target) {
+        if (!target) throw new Error('Webhook rule has no target URL');
+
+        const url = new URL(target);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            throw new Error('Webhook target must be an http(s) URL');
+        }
+
+        const status = await postJson(url, JSON.stringify(notification));
+        if (status < 200 || status >= 300) {
+            throw new Error(`Webhook answered ${status}`);
+        }
+    },
+};
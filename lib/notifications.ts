@@ -0,0 +1,152 @@
+/*
+ * Library: Notifications
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Stores alert matches in the `notifications` collection (the in-app inbox)
+ * and delivers them through the channel each rule asks for. Holds the
+ * registry of channel adapters (see lib/notification-channels/).
+ *
+ * Logic & Reasoning:
+ * 1. Store First: A notification is saved before delivery is attempted, so
+ * even when a webhook or mail server is down the match still shows up in the
+ * inbox, with the failed delivery recorded on it.
+ * 2. Adapters: Like the state scrapers, each channel is one small file that
+ * implements `NotificationChannel`; adding one means adding it to `CHANNELS`.
+ * 3. One at a Time: Deliveries run sequentially. There are only ever a few
+ * matches per refresh, and it keeps a slow endpoint from piling up sockets.
+ * ----------------------------------------------------------------------------
+ */
+
+import { Collection, ObjectId } from 'mongodb';
+import getCollection from '@/db';
+import { AlertNotification, AlertRule, NotificationChannel, NotificationChannelType, NotificationDelivery } from '@/types/lottery';
+import { inboxChannel } from './notification-channels/inbox';
+import { webhookChannel } from './notification-channels/webhook';
+import { emailChannel } from './notification-channels/email';
+
+const NOTIFICATIONS_COLLECTION = 'notifications';
+
+// Registry of delivery channels, keyed by type
+const CHANNELS: Record<NotificationChannelType, NotificationChannel> = {
+    inbox: inboxChannel,
+    webhook: webhookChannel,
+    email: emailChannel,
+};
+
+type StoredNotification = Omit<AlertNotification, 'id'> & { _id?: ObjectId };
+
+// What an alert rule produced, before it is stored
+export interface NotificationDraft {
+    rule: AlertRule;
+    gameNumber: string;
+    gameName: string;
+    message: string;
+}
+
+let initialized: Promise<void> | null = null;
+
+async function notificationsCollection(): Promise<Collection<StoredNotification>> {
+    const collection = await getCollection(NOTIFICATIONS_COLLECTION);
+    return collection as unknown as Collection<StoredNotification>;
+}
+
+// Make sure indexes exist before first use
+async function ensureInitialized(): Promise<Collection<StoredNotification>> {
+    if (!initialized) {
+        initialized = notificationsCollection()
+            .then(collection => collection.createIndex({ owner: 1, createdAt: -1 }))
+            .then(() => undefined)
+            .catch(err => {
+                // Allow a retry on the next call instead of caching the failure
+                initialized = null;
+                throw err;
+            });
+    }
+    await initialized;
+    return notificationsCollection();
+}
+
+function toNotification({ _id, ...notification }: StoredNotification): AlertNotification {
+    return { id: _id!.toString(), ...notification };
+}
+
+export function getNotificationChannelTypes(): NotificationChannelType[] {
+    return Object.keys(CHANNELS) as NotificationChannelType[];
+}
+
+ //Hand a notification to a channel. Never throws; the outcome is returned for the record.
+export async function deliverNotification(
+    notification: AlertNotification,
+    channel: NotificationChannelType,
+    target?: string
+): Promise<NotificationDelivery> {
+    const attemptedAt = new Date().toISOString();
+    try {
+        await CHANNELS[channel].deliver(notification, target);
+        return { channel, status: 'sent', attemptedAt };
+    } catch (err) {
+        console.warn(`Failed to deliver notification via ${channel}:`, err);
+        return { channel, status: 'failed', error: err instanceof Error ? err.message : String(err), attemptedAt };
+    }
+}
+
+ //Store each draft in the inbox, then deliver it through its rule's channel and record how that went
+export async function createNotifications(drafts: NotificationDraft[]): Promise<AlertNotification[]> {
+    if (drafts.length === 0) return [];
+    const collection = await ensureInitialized();
+    const created: AlertNotification[] = [];
+
+    for (const { rule, gameNumber, gameName, message } of drafts) {
+        const stored: StoredNotification = {
+            owner: rule.owner,
+            ruleId: rule.id,
+            ruleType: rule.type,
+            state: rule.state,
+            gameNumber,
+            gameName,
+            message,
+            createdAt: new Date().toISOString(),
+            read: false,
+            delivery: { channel: rule.channel, status: 'pending', attemptedAt: new Date().toISOString() },
+        };
+        const { insertedId } = await collection.insertOne(stored);
+        const notification = toNotification({ ...stored, _id: insertedId });
+
+        notification.delivery = await deliverNotification(notification, rule.channel, rule.target);
+        await collection.updateOne({ _id: insertedId }, { $set: { delivery: notification.delivery } });
+        created.push(notification);
+    }
+
+    return created;
+}
+
+ //A user's inbox, newest first
+export async function getNotifications(
+    owner: string,
+    { unreadOnly = false, limit = 50 }: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<AlertNotification[]> {
+    const collection = await ensureInitialized();
+    const docs = await collection
+        .find(unreadOnly ? { owner, read: false } : { owner })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .toArray();
+    return docs.map(toNotification);
+}
+
+export async function countUnreadNotifications(owner: string): Promise<number> {
+    const collection = await ensureInitialized();
+    return collection.countDocuments({ owner, read: false });
+}
+
+ //Mark notifications as read: the given ids, or all of the owner's if none are given. Returns how many changed.
+export async function markNotificationsRead(owner: string, ids?: string[]): Promise<number> {
+    const collection = await ensureInitialized();
+    const filter = ids
+        ? { owner, read: false, _id: { $in: ids.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id)) } }
+        : { owner, read: false };
+    const { modifiedCount } = await collection.updateMany(filter, { $set: { read: true } });
+    return modifiedCount;
+}
@@ -0,0 +1,176 @@
+/*
+ * Library: Prize Valuation
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * Works out what a prize is actually worth in dollars. Prize tables mix plain
+ * cash with free tickets, annuities ("$1,000/Week for Life", "$4M Annuity")
+ * and merchandise, and a straight number parse gets all of those wrong.
+ *
+ * Logic & Reasoning:
+ * 1. Classify: `classifyPrize` turns the prize text into a kind (cash,
+ * free-ticket, annuity, merchandise), its advertised face value, and for
+ * annuities the payment schedule. This is shared by every state adapter.
+ * 2. Value: `valuePrize` applies a valuation model to that:
+ *    - cash and merchandise: face value (merchandise without a stated value is $0)
+ *    - free-ticket: the price of the game it was won on, or the ticket's stated
+ *      value ("$5 Ticket")
+ *    - cash with a free ticket ("$50 + Free Ticket", "Ticket + $20"): the cash
+ *      amount plus the price of the game
+ *    - annuity, depending on PRIZE_ANNUITY_VALUATION:
+ *      - "cash-option" (default): face value x PRIZE_CASH_OPTION_RATE (default 0.6),
+ *        the lump sum most winners take
+ *      - "present-value": the payments discounted at PRIZE_DISCOUNT_RATE
+ *        (default 4% a year)
+ *      - "face-value": every payment added up, undiscounted
+ * 3. "For life" prizes are valued over PRIZE_LIFE_YEARS (default 20), the usual
+ * guaranteed minimum. Annuities quoted as one total ("$4M Annuity") are
+ * treated as equal yearly payments over DEFAULT_ANNUITY_YEARS.
+ * 4. The model is applied when EV is calculated, not only when scraping, so
+ * changing it re-values stored games too.
+ * ----------------------------------------------------------------------------
+ */
+
+import { AnnuityTerms, LotteryGame, PrizeKind, PrizeTier } from '@/types/lottery';
+
+export type AnnuityValuation = 'cash-option' | 'present-value' | 'face-value';
+
+export interface PrizeValuationModel {
+    annuity: AnnuityValuation;
+    cashOptionRate: number; // Lump sum as a share of the annuity's face value
+    discountRate: number; // Yearly rate for present-value
+    lifeYears: number; // How long a "for life" annuity is assumed to pay
+}
+
+// Most annuity prizes quoted as one total are paid as 20 yearly installments
+export const DEFAULT_ANNUITY_YEARS = 20;
+
+const ANNUITY_VALUATIONS: AnnuityValuation[] = ['cash-option', 'present-value', 'face-value'];
+
+const PAYMENTS_PER_YEAR: Record<string, number> = {
+    day: 365,
+    week: 52,
+    wk: 52,
+    month: 12,
+    mo: 12,
+    year: 1,
+    yr: 1,
+};
+
+export interface ClassifiedPrize {
+    kind: PrizeKind;
+    faceValue: number;
+    annuity?: AnnuityTerms;
+    plusFreeTicket?: boolean;
+}
+
+// Helpers to read the valuation model from environment, same style as getCacheTTL
+export function getPrizeValuationModel(): PrizeValuationModel {
+    const envAnnuity = process.env.PRIZE_ANNUITY_VALUATION as AnnuityValuation | undefined;
+    const envCashOption = process.env.PRIZE_CASH_OPTION_RATE;
+    const envDiscount = process.env.PRIZE_DISCOUNT_RATE;
+    const envLifeYears = process.env.PRIZE_LIFE_YEARS;
+
+    return {
+        annuity: envAnnuity && ANNUITY_VALUATIONS.includes(envAnnuity) ? envAnnuity : 'cash-option',
+        cashOptionRate: envCashOption ? parseFloat(envCashOption) : 0.6,
+        discountRate: envDiscount ? parseFloat(envDiscount) : 0.04,
+        lifeYears: envLifeYears ? parseInt(envLifeYears) : 20,
+    };
+}
+
+ //Parse a dollar amount such as "$250,000", "$4M" or "$1.5 Million". Returns 0 if there isn't one.
+export function parseDollarAmount(text: string): number {
+    const match = text.match(/\$\s*([\d,]+(?:\.\d+)?)\s*(million|thousand|m|k)?\b/i);
+    if (!match) return 0;
+
+    const amount = parseFloat(match[1].replace(/,/g, '')) || 0;
+    const suffix = match[2]?.toLowerCase();
+    if (suffix === 'million' || suffix === 'm') return amount * 1_000_000;
+    if (suffix === 'thousand' || suffix === 'k') return amount * 1_000;
+    return amount;
+}
+
+ //Work out what kind of prize a prize-table label describes
+export function classifyPrize(prizeText: string): ClassifiedPrize {
+    const text = prizeText.trim();
+    const lower = text.toLowerCase();
+    const amount = parseDollarAmount(text);
+
+    // "$1,000/Week for Life", "$25,000 a Year for 20 Years", "$500 per Month"
+    const periodic = lower.match(/(?:\/|\ba\b|\bper\b)\s*(day|week|wk|month|mo|year|yr)\b/);
+    if (amount > 0 && periodic) {
+        const yearsMatch = lower.match(/for\s+(\d+)\s*(?:years|yrs)/);
+        const years = yearsMatch ? parseInt(yearsMatch[1]) : lower.includes('life') ? null : DEFAULT_ANNUITY_YEARS;
+        const annuity = { payment: amount, paymentsPerYear: PAYMENTS_PER_YEAR[periodic[1]], years };
+        return { kind: 'annuity', faceValue: amount * annuity.paymentsPerYear * (years ?? DEFAULT_ANNUITY_YEARS), annuity };
+    }
+
+    // "$4M Annuity": one quoted total, paid yearly
+    if (amount > 0 && lower.includes('annuity')) {
+        return {
+            kind: 'annuity',
+            faceValue: amount,
+            annuity: { payment: amount / DEFAULT_ANNUITY_YEARS, paymentsPerYear: 1, years: DEFAULT_ANNUITY_YEARS },
+        };
+    }
+
+    // Only a label without a dollar amount is a plain free ticket. With one it's either cash and a
+    // ticket together ("$50 + Free Ticket") or a ticket worth that much ("$5 Ticket").
+    if (lower.includes('free') || lower.includes('ticket')) {
+        if (amount > 0 && /\+|&|\band\b|\bplus\b/.test(lower)) {
+            return { kind: 'cash', faceValue: amount, plusFreeTicket: true };
+        }
+        return { kind: 'free-ticket', faceValue: amount };
+    }
+
+    if (text.startsWith('$')) {
+        return { kind: 'cash', faceValue: amount };
+    }
+
+    // Anything else is a physical prize; use its stated value if the label has one
+    return { kind: 'merchandise', faceValue: amount };
+}
+
+function valueAnnuity(terms: AnnuityTerms, model: PrizeValuationModel): number {
+    const payments = Math.round(terms.paymentsPerYear * (terms.years ?? model.lifeYears));
+    const total = terms.payment * payments;
+
+    switch (model.annuity) {
+        case 'face-value':
+            return total;
+        case 'present-value': {
+            // Annuity due: the first payment is made right away
+            const rate = model.discountRate / terms.paymentsPerYear;
+            if (rate <= 0) return total;
+            return terms.payment * ((1 - Math.pow(1 + rate, -payments)) / rate) * (1 + rate);
+        }
+        case 'cash-option':
+        default:
+            return total * model.cashOptionRate;
+    }
+}
+
+ //Dollar value of one prize under the given model. Tiers stored before prize kinds existed keep their scraped value.
+export function valuePrize(tier: PrizeTier, ticketPrice: number, model: PrizeValuationModel = getPrizeValuationModel()): number {
+    switch (tier.kind) {
+        case 'free-ticket':
+            return tier.faceValue || ticketPrice;
+        case 'annuity':
+            return tier.annuity ? valueAnnuity(tier.annuity, model) : tier.faceValue ?? tier.prizeValue;
+        case 'cash':
+        case 'merchandise':
+            return (tier.faceValue ?? tier.prizeValue) + (tier.plusFreeTicket ? ticketPrice : 0);
+        default:
+            return tier.prizeValue;
+    }
+}
+
+ //Re-value every tier of a game under the given model
+export function applyPrizeValuation<T extends LotteryGame>(game: T, model: PrizeValuationModel = getPrizeValuationModel()): T {
+    return {
+        ...game,
+        prizeTiers: game.prizeTiers.map(tier => ({ ...tier, prizeValue: valuePrize(tier, game.price, model) })),
+    };
+}
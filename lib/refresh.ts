@@ -0,0 +1,85 @@
+/*
+ * Library: Market Refresh
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * One function that performs a full data refresh: scrape, calculate EV, save
+ * to the snapshot store and run compaction. Shared by the background refresh
+ * in /api/games and the standalone scrape CLI (scripts/scrape.ts).
+ *
+ * Logic & Reasoning:
+ * - Keeping the pipeline in one place means the API and the scheduled job can
+ * never drift apart in how they store data.
+ * - Runs limited to some games (`limit` / `gameNumbers`) are saved with
+ * `carryForward`, so a partial scrape doesn't make the other games vanish
+ * from the current market.
+ * - Incremental mode (the default) asks lib/incremental.ts which games can be
+ * skipped, and carries exactly those forward from the last stored market.
+ * - Every run is recorded in the scrape run audit log (lib/scrape-runs.ts).
+ * - `changed` says whether the run stored a new market. A run that found
+ * nothing new leaves the previous one published (see lib/game-store.ts), and
+ * callers shouldn't announce it.
+ * - Alerts: A run that changed the market checks the state's alert rules
+ * against the market before and after it (lib/alerts.ts), whichever path
+ * started the run. Alert failures are logged and never fail the refresh.
+ * ----------------------------------------------------------------------------
+ */
+
+import { DEFAULT_STATE, ScrapeOptions } from '@/lib/scraper';
+import { calculateEVForGames } from '@/lib/ev-calculator';
+import { compactSnapshotsIfDue, getLatestMarket, getLatestMarketVersions, MarketSnapshot, saveMarketSnapshot } from '@/lib/game-store';
+import { runAlerts } from '@/lib/alerts';
+import { planIncrementalScrape } from '@/lib/incremental';
+import { recordScrapeRun } from '@/lib/scrape-runs';
+import { ScrapeTrigger } from '@/types/lottery';
+
+export interface RefreshOptions extends ScrapeOptions {
+    incremental?: boolean; // Skip games whose stored data is still current (default true)
+    trigger?: ScrapeTrigger; // Recorded in the scrape run log (default 'background')
+}
+
+export interface RefreshResult extends MarketSnapshot {
+    refreshed: number; // Games fully parsed this run
+    skipped: number; // Games carried forward from the last stored version
+    changed: boolean; // False when the run found nothing new and the previous market stays published
+}
+
+export async function refreshGames({ incremental = true, trigger = 'background', ...options }: RefreshOptions = {}): Promise<RefreshResult> {
+    const state = options.state ?? DEFAULT_STATE;
+    const partial = Boolean(options.limit || options.gameNumbers?.length);
+
+    // The market before this run, for the alert check
+    const previous = await getLatestMarket(state);
+    const stored = incremental ? await getLatestMarketVersions(state) : [];
+    const skip = incremental ? planIncrementalScrape(stored) : undefined;
+
+    const result = await recordScrapeRun({ ...options, state, skip }, trigger);
+    const games = calculateEVForGames(result.games);
+    const updatedAt = new Date().toISOString();
+
+    // Skipped links map back to stored games by URL (stored gameNumber is the URL slug)
+    const skippedUrls = new Set(result.skipped.map(link => link.url));
+    const skippedGameNumbers = stored.filter(game => skippedUrls.has(game.url)).map(game => game.gameNumber);
+
+    const changed = await saveMarketSnapshot(games, updatedAt, {
+        state,
+        carryForward: partial ? 'all' : skippedGameNumbers,
+    });
+    await compactSnapshotsIfDue();
+
+    if (changed && previous) {
+        try {
+            const current = await getLatestMarket(state);
+            if (current) {
+                await runAlerts(state, previous.games, current.games);
+            }
+        } catch (alertError) {
+            console.error('Alert check failed:', alertError);
+        }
+    }
+
+    console.log(`Refresh for ${state}: ${result.games.length} refreshed, ${result.skipped.length} skipped (unchanged)${changed ? '' : ', market unchanged'}`);
+
+    return { updatedAt, games, refreshed: result.games.length, skipped: result.skipped.length, changed };
+}
@@ -0,0 +1,169 @@
+/*
+ * Library: Scrape Run Audit Log
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Records every scrape run in the `scrape_runs` collection: when it started
+ * and ended, how many games were listed, skipped and parsed, which games had
+ * no prize tiers and which URLs threw. Backs /api/health and /api/scrape-runs.
+ *
+ * Logic & Reasoning:
+ * 1. Start & Finish: A run document is inserted as "running" before the scrape
+ * and completed afterwards, so a run that dies mid-way is still visible.
+ * 2. Best Effort: Failing to write the audit log must never fail the scrape
+ * itself, so log writes are caught and only warned about.
+ * 3. Chronic Failures: Summing errors and empty prize tables per URL over the
+ * last N runs shows which games keep failing, as opposed to a one-off timeout.
+ * 4. Retention: Runs older than SCRAPE_RUN_RETENTION_DAYS (default 90) are
+ * deleted whenever a new run of the same state finishes, so the log can't grow
+ * without bound however often the market is refreshed.
+ * ----------------------------------------------------------------------------
+ */
+
+import { Collection, ObjectId } from 'mongodb';
+import getCollection from '@/db';
+import { DEFAULT_STATE, scrapeGames, ScrapeOptions, ScrapeResult } from '@/lib/scraper';
+import { ScrapeFailureSummary, ScrapeRun, ScrapeRunStatus, ScrapeTrigger } from '@/types/lottery';
+
+const SCRAPE_RUNS_COLLECTION = 'scrape_runs';
+
+type StoredScrapeRun = Omit<ScrapeRun, 'id'> & { _id?: ObjectId };
+
+let initialized: Promise<void> | null = null;
+
+// Helper to get how long runs are kept from environment, same style as getCacheTTL
+function getRetentionDays(): number {
+    const envDays = process.env.SCRAPE_RUN_RETENTION_DAYS;
+    return envDays ? parseInt(envDays) : 90; // 90 days by default
+}
+
+async function runsCollection(): Promise<Collection<StoredScrapeRun>> {
+    const collection = await getCollection(SCRAPE_RUNS_COLLECTION);
+    return collection as unknown as Collection<StoredScrapeRun>;
+}
+
+// Make sure indexes exist before first use
+async function ensureInitialized(): Promise<Collection<StoredScrapeRun>> {
+    if (!initialized) {
+        initialized = runsCollection()
+            .then(collection => collection.createIndex({ state: 1, startedAt: -1 }))
+            .then(() => undefined)
+            .catch(err => {
+                // Allow a retry on the next call instead of caching the failure
+                initialized = null;
+                throw err;
+            });
+    }
+    await initialized;
+    return runsCollection();
+}
+
+function toRun({ _id, ...run }: StoredScrapeRun): ScrapeRun {
+    return { id: _id!.toString(), ...run };
+}
+
+function statusFor(result: ScrapeResult): ScrapeRunStatus {
+    return result.errors.length > 0 || result.noTiers.length > 0 ? 'partial' : 'success';
+}
+
+ //Run scrapeGames and record the run in the audit log. Scrape errors are rethrown after being recorded.
+export async function recordScrapeRun(options: ScrapeOptions, trigger: ScrapeTrigger): Promise<ScrapeResult> {
+    const state = options.state ?? DEFAULT_STATE;
+    let runId: ObjectId | null = null;
+
+    try {
+        const collection = await ensureInitialized();
+        const { insertedId } = await collection.insertOne({
+            state,
+            trigger,
+            status: 'running',
+            startedAt: new Date().toISOString(),
+            finishedAt: null,
+            gamesListed: 0,
+            gamesSkipped: 0,
+            gamesParsed: 0,
+            noTierGames: [],
+            errors: [],
+        });
+        runId = insertedId;
+    } catch (logError) {
+        console.warn('Failed to start scrape run log:', logError);
+    }
+
+    const finish = async (update: Partial<StoredScrapeRun>) => {
+        if (!runId) return;
+        try {
+            const collection = await runsCollection();
+            await collection.updateOne({ _id: runId }, { $set: { ...update, finishedAt: new Date().toISOString() } });
+            const cutoff = new Date(Date.now() - getRetentionDays() * 24 * 60 * 60 * 1000).toISOString();
+            await collection.deleteMany({ state, startedAt: { $lt: cutoff } });
+        } catch (logError) {
+            console.warn('Failed to finish scrape run log:', logError);
+        }
+    };
+
+    try {
+        const result = await scrapeGames({ ...options, state });
+        await finish({
+            status: statusFor(result),
+            gamesListed: result.links.length,
+            gamesSkipped: result.skipped.length,
+            gamesParsed: result.games.length,
+            noTierGames: result.noTiers.map(link => ({ url: link.url, name: link.name })),
+            errors: result.errors,
+        });
+        return result;
+    } catch (err) {
+        await finish({ status: 'failed', error: err instanceof Error ? err.message : String(err) });
+        throw err;
+    }
+}
+
+ //Most recent runs for a state, newest first
+export async function getScrapeRuns(
+    { state = DEFAULT_STATE, limit = 20 }: { state?: string; limit?: number } = {}
+): Promise<ScrapeRun[]> {
+    const collection = await ensureInitialized();
+    const docs = await collection.find({ state }).sort({ startedAt: -1 }).limit(limit).toArray();
+    return docs.map(toRun);
+}
+
+export async function getLastSuccessfulRun(state: string = DEFAULT_STATE): Promise<ScrapeRun | null> {
+    const collection = await ensureInitialized();
+    const doc = await collection.findOne(
+        { state, status: { $in: ['success', 'partial'] } },
+        { sort: { startedAt: -1 } }
+    );
+    return doc ? toRun(doc) : null;
+}
+
+ //Games that errored or had no prize tiers in the given runs, most frequent first
+export function summarizeFailures(runs: ScrapeRun[]): ScrapeFailureSummary[] {
+    const finished = runs.filter(run => run.status !== 'running');
+    const byUrl = new Map<string, ScrapeFailureSummary>();
+
+    // Runs are newest first, so the first message we see for a URL is the latest one
+    for (const run of finished) {
+        const failures = [
+            ...run.errors,
+            ...run.noTierGames.map(game => ({ ...game, message: 'No prize tiers found' })),
+        ];
+        for (const failure of failures) {
+            const summary = byUrl.get(failure.url);
+            if (summary) {
+                summary.failedRuns++;
+            } else {
+                byUrl.set(failure.url, {
+                    url: failure.url,
+                    name: failure.name,
+                    failedRuns: 1,
+                    totalRuns: finished.length,
+                    lastMessage: failure.message,
+                });
+            }
+        }
+    }
+
+    return [...byUrl.values()].sort((a, b) => b.failedRuns - a.failedRuns || a.name.localeCompare(b.name));
+}
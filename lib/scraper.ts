@@ -4,307 +4,193 @@
  * Responsible: Natalie King
  *
  * Description:
- * This module is responsible for navigating the Massachusetts Lottery website
- * and extracting raw game data.
+ * Entry point for scraping. Holds the registry of per-state `LotteryScraper`
+ * adapters (see lib/scrapers/) and runs a full scrape through whichever one
+ * is requested.
  *
  * Logic & Reasoning:
- * 1. Hybrid Approach: We use a combination of `fetch` for the main API list
- * (fast) and `Puppeteer` (headless browser) for individual game pages.
- * Puppeteer is necessary because the lottery site uses dynamic JavaScript
- * to render prize tables, which standard fetch/Cheerio cannot see.
- * 2. Concurrency Control: We implemented a `processBatch` function with a
- * limit (MAX_CONCURRENT_BROWSERS = 3) to prevent crashing the server's
- * memory when scraping dozens of pages simultaneously.
- * 3. Robust Parsing: We use specific regex patterns to handle inconsistent
- * text formats (e.g., "$250,000" vs "Free Ticket").
+ * 1. Adapters: Each state's site is different, so the site-specific fetching
+ * and parsing lives in its own adapter. Adding a state is one new file in
+ * lib/scrapers/ plus one line in `SCRAPERS` below.
+ * 2. Shared Browser: Each run opens one Chromium instance with a small pool of
+ * tabs (lib/browser-pool.ts) instead of a browser per game, and closes it when
+ * the run ends.
+ * 3. Concurrency Control: `mapWithConcurrency` is a sliding window: as soon as
+ * one game finishes the next starts, instead of waiting for the slowest page in
+ * a fixed batch. The limit (SCRAPE_CONCURRENCY, default 3) keeps memory in check.
+ * 4. Error Reporting: Adapters throw when a page fails instead of swallowing
+ * the error, so each run returns exactly which games failed and which had no
+ * prize tiers. lib/scrape-runs.ts records that in the run audit log.
+ * 5. Validation: Parsed games go through lib/validation.ts before being
+ * returned, so nothing downstream sees a game with no price or impossible
+ * prize counts. Rejected games are reported as errors for their URL.
  * ----------------------------------------------------------------------------
  */
 
-import * as cheerio from 'cheerio';
-import puppeteer from 'puppeteer';
-import {LotteryGame, PrizeTier} from '@/types/lottery';
+import { GameLink, LotteryGame, LotteryScraper, ScrapeError } from '@/types/lottery';
+import { BrowserPool } from './browser-pool';
+import { massachusettsScraper } from './scrapers/massachusetts';
+import { validateGame, validateGames } from './validation';
 
-const BASE_URL = 'https://www.masslottery.com';
-const API_URL = 'https://www.masslottery.com/api/v1/games';
+export const DEFAULT_STATE = 'MA';
 
-// Max concurrent browser instances for batch processing
-const MAX_CONCURRENT_BROWSERS = 3;
+// Max pages scraped at once, unless overridden per run
+const DEFAULT_CONCURRENCY = 3;
 
-interface MALotteryGame {
-    name: string;
-    identifier: string;
-    id: number;
-    gameType: string;
-    topPrize: number;
-    price: number;
-    odds?: string;
-    startDate?: string;
-}
-
- //Fetch and parse all scratcher games from MA Lottery API
-export async function getAllGameLinks(): Promise<{ name: string; url: string; price: number; gameNumber: string }[]> {
-    try {
-        const response = await fetch(API_URL, {
-            cache: 'no-store',
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-            }
-        });
-
-        if (!response.ok) {
-            throw new Error(`Failed to fetch games API: ${response.status}`);
-        }
-
-        const allGames: MALotteryGame[] = await response.json();
-
-        // Filter for only Scratch games
-        const scratchGames = allGames.filter(game => game.gameType === 'Scratch');
-
-        const games = scratchGames.map(game => {
-            // get URL based on identifier only
-            const url = `${BASE_URL}/games/draw-and-instants/${game.identifier}`;
+// Registry of supported states, keyed by state code
+const SCRAPERS: Record<string, LotteryScraper> = {
+    [massachusettsScraper.state]: massachusettsScraper,
+};
 
-            return {
-                name: game.name,
-                url,
-                price: game.price,
-                gameNumber: game.id.toString()
-            };
-        });
-
-        console.log(`Found ${games.length} scratch games`);
-        return games;
-    } catch (error) {
-        console.error('Error fetching game links:', error);
-        return [];
-    }
+export function getSupportedStates(): string[] {
+    return Object.keys(SCRAPERS);
 }
 
- //Parse a number from text
-
-function parseNumber(text: string): number {
-    const cleaned = text.replace(/[^0-9.]/g, '');
-    return parseFloat(cleaned) || 0;
+ //Look up the adapter for a state code (case-insensitive). Returns null for unsupported states.
+export function getScraper(state: string = DEFAULT_STATE): LotteryScraper | null {
+    return SCRAPERS[state.toUpperCase()] ?? null;
 }
 
- //Parsing prize value from string to int. "$250,000" = 250000
-
-function parsePrizeValue(prizeText: string, ticketPrice: number): number {
-    if (prizeText.toLowerCase().includes('free') || prizeText.toLowerCase().includes('ticket')) {
-        return ticketPrice;
-    }
-    return parseNumber(prizeText);
+ //Turn a `?state=` query param into a supported state code. Missing means the default state; unsupported means null.
+export function resolveStateParam(param: string | null): string | null {
+    if (!param) return DEFAULT_STATE;
+    const scraper = getScraper(param);
+    return scraper ? scraper.state : null;
 }
 
- //Fetch and parse a single game page using Puppeteer for dynamic content
-
-export async function parseGamePage(url: string, priceFromAPI?: number): Promise<LotteryGame | null> {
-    let browser;
-    try {
-        console.log(`Parsing game page: ${url}`);
-
-        browser = await puppeteer.launch({
-            headless: true,
-            args: ['--no-sandbox', '--disable-setuid-sandbox'] //launching puppeteer in headless mode
-        });
-
-        const page = await browser.newPage();
-        await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'); //config the scraper
-
-        // Navigate to the page and wait for content 
-        await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
-
-        // Wait for the prize table specifically. Otherwise we'll timeout
-        await page.waitForSelector('table, .prize-table, [class*="prize"]', { timeout: 10000 }).catch(() => {
-            console.warn(`Prize table selector not found for ${url}`);
-        });
-
-        // get the HTML content 
-        const html = await page.content();
-        const $ = cheerio.load(html);
+// Helper to get scrape concurrency from environment or use default
+export function getScrapeConcurrency(): number {
+    const envConcurrency = process.env.SCRAPE_CONCURRENCY;
+    const concurrency = envConcurrency ? parseInt(envConcurrency) : DEFAULT_CONCURRENCY;
+    return concurrency > 0 ? concurrency : DEFAULT_CONCURRENCY;
+}
 
-        // get game name from page title
-        const title = $('title').text().trim();
-        let gameName = title.split('|')[0].trim();
+    //Process items with at most `concurrency` in flight. Each worker pulls the next item as soon as it is free, so one slow page never holds up the rest.
+async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    processor: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
 
-        if (!gameName) {
-            // Just in case the name isn't in the page title, we can extract it from the URL
-            const urlParts = url.split('/');
-            gameName = urlParts[urlParts.length - 1].replace(/-/g, ' ').toUpperCase();
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await processor(items[index], index);
         }
+    };
 
-        // Getting the game # from the url
-        const urlParts = url.split('/');
-        const gameNumber = urlParts[urlParts.length - 1];
-
-        // Use price from API if available, otherwise we'll try to get it from the page. A little redundant, but with government databases its necessary. They SUCK
-        const price = priceFromAPI || 0;
-
-        // Get overall odds
-        let overallOddsText = '1 in 1';
-        let overallOddsValue = 1;
-
-        $('*').each((_, el) => { 
-            const text = $(el).text();
-            if (text.includes('Overall Odds') || text.toLowerCase().includes('overall odds')) {
-                const match = text.match(/1\s+in\s+([\d.,]+)/i);
-                if (match) {
-                    overallOddsText = `1 in ${match[1]}`;
-                    overallOddsValue = parseFloat(match[1].replace(/,/g, ''));
-                    return false; 
-                }
-            }
-        });
-
-        // Get last updated date
-        let lastUpdated = '';
-        $('*').each((_, el) => {
-            const text = $(el).text();
-            if (text.includes('Last Updated') || text.includes('as of')) {
-                lastUpdated = text.trim();
-                return false; // break
-            }
-        });
-
-        // Parse prize table
-        const prizeTiers: PrizeTier[] = [];
-
-        $('table').each((_, table) => {
-            const $table = $(table);
-
-            // Try to find the header row
-            const headers = $table.find('th, thead td').map((_, th) =>
-                $(th).text().trim().toLowerCase()
-            ).get();
-
-            // Look for tables with prize data
-            const hasPrize = headers.some(h => h.includes('prize'));
-
-            if (hasPrize || headers.length > 0) {
-                // combing through data rows
-                const rows = $table.find('tbody tr, tr').filter((_, row) => {
-                    const $row = $(row);
-                    return $row.find('td').length > 0;
-                });
-
-                rows.each((_, row) => {
-                    const $row = $(row);
-                    const cells = $row.find('td').map((_, td) => $(td).text().trim()).get();
-
-                    if (cells.length >= 2) {
-
-                        const prizeAndOddsText = cells[0];
-                        const statusText = cells[1];
-
-                        // Skiping the header rows
-                        if (prizeAndOddsText.toLowerCase().includes('prize')) {
-                            return;
-                        }
-
-                        // Extract prize amount using regex.
-                        const prizeMatch = prizeAndOddsText.match(/^(\$[\d,]+?)(?=1\s*in)/);
-                        if (!prizeMatch) return;
-
-                        const prizeText = prizeMatch[1];
-                        const prizeValue = parsePrizeValue(prizeText, 0); // temp price. Will be filled in later
-
-                        // Extract odds using regex
-                        const oddsMatch = prizeAndOddsText.match(/1\s*in\s*([\d,]+(?:\.\d+)?)/i);
-                        if (!oddsMatch) return;
-
-                        const odds = parseNumber(oddsMatch[1]);
-                        const oddsText = `1 in ${oddsMatch[1]}`;
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+}
 
-                        // Extract individual counts for different prize tiers
-                        const startMatch = statusText.match(/([\d,]+)\s*Start/i);
-                        const claimedMatch = statusText.match(/([\d,]+)\s*Claimed/i);
-                        const remainingMatch = statusText.match(/([\d,]+)\s*Remaining/i);
+ //Options for a scrape run. `gameNumbers` matches either the API id or the URL slug we store as gameNumber.
+export interface ScrapeOptions {
+    state?: string;
+    limit?: number;
+    gameNumbers?: string[];
+    concurrency?: number;
+    skip?: (link: GameLink) => boolean; // Links to leave unparsed this run (incremental scraping)
+}
 
-                        if (!startMatch || !remainingMatch) return;
+export interface ScrapeResult {
+    links: GameLink[]; // Every link selected for this run, parsed or skipped
+    skipped: GameLink[];
+    games: LotteryGame[];
+    noTiers: GameLink[]; // Pages that loaded but had no usable prize table
+    errors: ScrapeError[]; // Pages that failed to load or parse, or whose game failed validation
+}
 
-                        const prizesAtStart = parseNumber(startMatch[1]);
-                        const prizesRemaining = parseNumber(remainingMatch[1]);
+interface ParseOutcome {
+    link: GameLink;
+    game: LotteryGame | null;
+    error?: string;
+}
 
-                        if (prizeValue > 0 && odds > 0 && prizesAtStart > 0) {
-                            prizeTiers.push({
-                                prize: prizeText,
-                                prizeValue,
-                                odds,
-                                oddsText,
-                                prizesAtStart,
-                                prizesRemaining //compiling into prizeTiers
-                            });
-                        }
-                    }
-                });
+ //Parse a list of game links for one state with a shared browser, closing it when done. A failed page is recorded, not fatal.
+async function parseGameLinks(scraper: LotteryScraper, links: GameLink[], concurrency: number): Promise<ParseOutcome[]> {
+    const pool = new BrowserPool({ size: concurrency });
+    try {
+        return await mapWithConcurrency(links, concurrency, async (link, index) => {
+            console.log(`Processing game ${index + 1}/${links.length}: ${link.name}`);
+            try {
+                return { link, game: await scraper.parseGamePage(link, pool) };
+            } catch (err) {
+                console.error(`Error parsing game page ${link.url}:`, err);
+                return { link, game: null, error: err instanceof Error ? err.message : String(err) };
             }
         });
+    } finally {
+        await pool.close();
+    }
+}
 
-        await browser.close(); //closing the puppeteer
-
-        if (prizeTiers.length === 0) { //we dont have any for this game
-            console.warn(`No prize tiers found for ${gameName} at ${url}`);
-            return null;
-        }
-
-        return {
-            name: gameName,
-            gameNumber,
-            price,
-            overallOdds: overallOddsText,
-            overallOddsValue,
-            url,
-            prizeTiers,
-            lastUpdated
-        };
-    } catch (error) {
-        console.error(`Error parsing game page ${url}:`, error);
-        if (browser) {
-            await browser.close();
-        }
-        return null;
+ //Scrape a single game page, for one-off lookups outside a full run
+export async function scrapeGame(link: GameLink, state: string = DEFAULT_STATE): Promise<LotteryGame | null> {
+    const scraper = getScraper(state);
+    if (!scraper) {
+        throw new Error(`Unsupported state: ${state}`);
     }
+    const [outcome] = await parseGameLinks(scraper, [link], 1);
+    return outcome.game ? validateGame(outcome.game).game : null;
 }
 
-    //Processing an array of items in batches with a concurrency limit. Doing this because sequential is slow, and large batches will cause a timeout. 3 concurrent headless browsers seems to function fine.
-async function processBatch<T, R>(
-    items: T[],
-    processor: (item: T, index: number) => Promise<R>,
-    batchSize: number
-): Promise<R[]> {
-    const results: R[] = [];
+ //Scrape a state's games, optionally limited (for testing), restricted to specific games, or skipping some
+export async function scrapeGames({
+    state = DEFAULT_STATE,
+    limit,
+    gameNumbers,
+    concurrency = getScrapeConcurrency(),
+    skip,
+}: ScrapeOptions = {}): Promise<ScrapeResult> {
+    const scraper = getScraper(state);
+    if (!scraper) {
+        throw new Error(`Unsupported state: ${state}`);
+    }
 
-    for (let i = 0; i < items.length; i += batchSize) {
-        const batch = items.slice(i, i + batchSize);
-        const batchPromises = batch.map((item, batchIndex) =>
-            processor(item, i + batchIndex)
+    let gameLinks = await scraper.listGames();
+    if (gameNumbers && gameNumbers.length > 0) {
+        gameLinks = gameLinks.filter(link =>
+            gameNumbers.some(n => link.gameNumber === n || link.url.endsWith(`/${n}`))
         );
-
-        console.log(`Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(items.length / batchSize)} (${batch.length} games in parallel)`);
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults);
     }
+    const limitedLinks = limit ? gameLinks.slice(0, limit) : gameLinks;
 
-    return results;
-}
+    const skipped = skip ? limitedLinks.filter(skip) : [];
+    const toParse = skip ? limitedLinks.filter(link => !skipped.includes(link)) : limitedLinks;
 
- //Fetching all games with a limit for testing
-export async function getAllGames(limit?: number): Promise<LotteryGame[]> {
-    const gameLinks = await getAllGameLinks();
-    const limitedLinks = limit ? gameLinks.slice(0, limit) : gameLinks;
+    console.log(`Fetching ${toParse.length} ${scraper.name} games, ${concurrency} at a time (${skipped.length} skipped)...`);
 
-    console.log(`Fetching ${limitedLinks.length} games in batches of ${MAX_CONCURRENT_BROWSERS}...`);
+    const outcomes = await parseGameLinks(scraper, toParse, concurrency);
 
-    // Process games in batches to limit concurrent browser instances
-    const results = await processBatch(
-        limitedLinks,
-        async (link, index) => {
-            console.log(`Processing game ${index + 1}/${limitedLinks.length}: ${link.name}`);
-            return await parseGamePage(link.url, link.price);
-        },
-        MAX_CONCURRENT_BROWSERS
+    // Filtering out any null results, then repairing or rejecting suspect games
+    const { games, rejected } = validateGames(
+        outcomes.map(o => o.game).filter((game): game is LotteryGame => game !== null)
     );
+    for (const { game, issues } of rejected) {
+        console.warn(`Rejected ${game.name}: ${issues.map(issue => issue.message).join('; ')}`);
+    }
+
+    return {
+        links: limitedLinks,
+        skipped,
+        games,
+        noTiers: outcomes.filter(o => !o.game && !o.error).map(o => o.link),
+        errors: [
+            ...outcomes
+                .filter(o => o.error)
+                .map(o => ({ url: o.link.url, name: o.link.name, message: o.error! })),
+            ...rejected.map(({ game, issues }) => ({
+                url: game.url,
+                name: game.name,
+                message: `Failed validation: ${issues.filter(issue => issue.severity === 'error').map(issue => issue.message).join('; ')}`,
+            })),
+        ],
+    };
+}
 
-    // Filtering out any null results
-    return results.filter((game): game is LotteryGame => game !== null);
+ //Fetching all games for a state. Shorthand for scrapeGames when only the parsed games matter.
+export async function getAllGames(options: ScrapeOptions = {}): Promise<LotteryGame[]> {
+    return (await scrapeGames(options)).games;
 }
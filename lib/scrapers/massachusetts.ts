@@ -0,0 +1,292 @@
+/*
+ * Library: Massachusetts Lottery Scraper Adapter
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * The `LotteryScraper` implementation for Massachusetts. This module is
+ * responsible for navigating the Massachusetts Lottery website and extracting
+ * raw game data.
+ *
+ * Logic & Reasoning:
+ * 1. Hybrid Approach: We use a combination of `fetch` for the main API list
+ * (fast) and `Puppeteer` (headless browser) for individual game pages.
+ * Puppeteer is necessary because the lottery site uses dynamic JavaScript
+ * to render prize tables, which standard fetch/Cheerio cannot see.
+ * 2. Robust Parsing: We use specific regex patterns to handle inconsistent
+ * text formats (e.g., "$250,000" vs "Free Ticket"). The prize label is whatever
+ * comes before the odds, and lib/prize-valuation.ts works out what it's worth
+ * (cash, free ticket, annuity or merchandise).
+ * 3. Navigation vs Parsing: `fetchGameHtml` is the only part that touches
+ * Puppeteer (through a tab borrowed from the run's shared browser pool);
+ * `parseGameHtml` is a pure function of the HTML, so it can be
+ * checked against saved copies of game pages without any network access
+ * (see tests/massachusetts.test.ts and its fixtures).
+ * 4. Labelled Values: "Overall Odds" and "Last Updated" are read from the
+ * innermost element that mentions them, looking at most a couple of levels up
+ * and never into an element holding a table. Otherwise the whole page (whose
+ * text mentions both) matches first, and a prize tier's odds run together with
+ * its counts get read as the overall odds.
+ * 5. The browser, concurrency and retries live in lib/scraper.ts so every state adapter
+ * shares them; this file only knows about masslottery.com.
+ * 6. Errors are thrown, not swallowed: lib/scraper.ts records them per URL in the
+ * scrape run log. `null` only means the page had no prize tiers.
+ * ----------------------------------------------------------------------------
+ */
+
+import * as cheerio from 'cheerio';
+import {GameLink, LotteryGame, LotteryScraper, PrizeTier, ScrapeContext} from '@/types/lottery';
+import { classifyPrize, valuePrize } from '@/lib/prize-valuation';
+
+const BASE_URL = 'https://www.masslottery.com';
+const API_URL = 'https://www.masslottery.com/api/v1/games';
+const STATE = 'MA';
+
+// How far above the element holding a label to look for its value,
+// e.g. from <span>Overall Odds:</span> up to the <div> that also holds "1 in 4.12"
+const MAX_LABEL_LEVELS = 2;
+
+interface MALotteryGame {
+    name: string;
+    identifier: string;
+    id: number;
+    gameType: string;
+    topPrize: number;
+    price: number;
+    odds?: string;
+    startDate?: string;
+}
+
+ //Fetch and parse all scratcher games from MA Lottery API
+export async function getAllGameLinks(): Promise<GameLink[]> {
+    const response = await fetch(API_URL, {
+        cache: 'no-store',
+        headers: {
+            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch games API: ${response.status}`);
+    }
+
+    const allGames: MALotteryGame[] = await response.json();
+
+    // Filter for only Scratch games
+    const scratchGames = allGames.filter(game => game.gameType === 'Scratch');
+
+    const games = scratchGames.map(game => {
+        // get URL based on identifier only
+        const url = `${BASE_URL}/games/draw-and-instants/${game.identifier}`;
+
+        return {
+            name: game.name,
+            url,
+            price: game.price,
+            gameNumber: game.id.toString()
+        };
+    });
+
+    console.log(`Found ${games.length} scratch games`);
+    return games;
+}
+
+ //Parse a number from text
+
+function parseNumber(text: string): number {
+    const cleaned = text.replace(/[^0-9.]/g, '');
+    return parseFloat(cleaned) || 0;
+}
+
+ //Find the value after a label such as "Overall Odds". Returns the text from the label through the value, and the value's match.
+
+function findLabelledValue(
+    $: cheerio.CheerioAPI,
+    label: RegExp,
+    value: RegExp
+): { text: string; match: RegExpMatchArray } | null {
+    // Innermost elements mentioning the label: none of their children mention it too
+    const labelled = $('body *')
+        .not('script, style')
+        .filter((_, el) => label.test($(el).text()) && !$(el).children().toArray().some(child => label.test($(child).text())))
+        .toArray();
+
+    for (const el of labelled) {
+        let $el = $(el);
+        for (let level = 0; level <= MAX_LABEL_LEVELS && $el.length > 0 && !$el.is('body'); level++) {
+            // Going further up would reach the prize table, whose odds aren't the overall odds
+            if (level > 0 && $el.find('table').length > 0) break;
+
+            const text = $el.text().replace(/\s+/g, ' ');
+            const afterLabel = text.slice(text.search(label));
+            const match = afterLabel.match(value);
+            if (match) {
+                return { text: afterLabel.slice(0, match.index! + match[0].length).trim(), match };
+            }
+            $el = $el.parent();
+        }
+    }
+    return null;
+}
+
+ //Fetch the fully rendered HTML of a game page using Puppeteer for dynamic content
+
+export async function fetchGameHtml(url: string, context: ScrapeContext): Promise<string> {
+    return context.withPage(async (page) => {
+        // Navigate to the page and wait for content 
+        await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
+
+        // Wait for the prize table specifically. Otherwise we'll timeout
+        await page.waitForSelector('table, .prize-table, [class*="prize"]', { timeout: 10000 }).catch(() => {
+            console.warn(`Prize table selector not found for ${url}`);
+        });
+
+        // get the HTML content 
+        return await page.content();
+    });
+}
+
+ //Parse the rendered HTML of a game page. No network or browser involved, so it can be fed saved HTML.
+
+export function parseGameHtml(html: string, url: string, priceFromAPI?: number): LotteryGame | null {
+    const $ = cheerio.load(html);
+
+    // get game name from page title
+    const title = $('title').text().trim();
+    let gameName = title.split('|')[0].trim();
+
+    if (!gameName) {
+        // Just in case the name isn't in the page title, we can extract it from the URL
+        const urlParts = url.split('/');
+        gameName = urlParts[urlParts.length - 1].replace(/-/g, ' ').toUpperCase();
+    }
+
+    // Getting the game # from the url
+    const urlParts = url.split('/');
+    const gameNumber = urlParts[urlParts.length - 1];
+
+    // Use price from API if available, otherwise we'll try to get it from the page. A little redundant, but with government databases its necessary. They SUCK
+    const price = priceFromAPI || 0;
+
+    // Get overall odds
+    let overallOddsText = '1 in 1';
+    let overallOddsValue = 1;
+
+    const overallOdds = findLabelledValue($, /overall odds/i, /1\s+in\s+(\d[\d,]*(?:\.\d+)?)/i);
+    if (overallOdds) {
+        overallOddsText = `1 in ${overallOdds.match[1]}`;
+        overallOddsValue = parseFloat(overallOdds.match[1].replace(/,/g, ''));
+    }
+
+    // Get last updated date, e.g. "Last Updated: 12/05/2025" (lib/incremental.ts reads the date back out)
+    const lastUpdated = findLabelledValue($, /last updated|\bas of\b/i, /\d{1,2}\/\d{1,2}\/\d{2,4}/)?.text ?? '';
+
+    // Parse prize table
+    const prizeTiers: PrizeTier[] = [];
+
+    $('table').each((_, table) => {
+        const $table = $(table);
+
+        // Try to find the header row
+        const headers = $table.find('th, thead td').map((_, th) =>
+            $(th).text().trim().toLowerCase()
+        ).get();
+
+        // Look for tables with prize data
+        const hasPrize = headers.some(h => h.includes('prize'));
+
+        if (hasPrize || headers.length > 0) {
+            // combing through data rows
+            const rows = $table.find('tbody tr, tr').filter((_, row) => {
+                const $row = $(row);
+                return $row.find('td').length > 0;
+            });
+
+            rows.each((_, row) => {
+                const $row = $(row);
+                const cells = $row.find('td').map((_, td) => $(td).text().trim()).get();
+
+                if (cells.length >= 2) {
+
+                    const prizeAndOddsText = cells[0];
+                    const statusText = cells[1];
+
+                    // Skiping the header rows
+                    if (prizeAndOddsText.toLowerCase().includes('prize')) {
+                        return;
+                    }
+
+                    // Extract the prize label: everything before the odds, e.g. "$1,000/Week for Life" in "$1,000/Week for Life1 in 2,000,000"
+                    const prizeMatch = prizeAndOddsText.match(/^([\s\S]+?)\s*(?=1\s*in\s*[\d,])/i);
+                    if (!prizeMatch) return;
+
+                    const prizeText = prizeMatch[1].trim();
+                    const classified = classifyPrize(prizeText);
+
+                    // Extract odds using regex
+                    const oddsMatch = prizeAndOddsText.match(/1\s*in\s*([\d,]+(?:\.\d+)?)/i);
+                    if (!oddsMatch) return;
+
+                    const odds = parseNumber(oddsMatch[1]);
+                    const oddsText = `1 in ${oddsMatch[1]}`;
+
+                    // Extract individual counts for different prize tiers (the claimed count isn't needed, and some pages leave it out)
+                    const startMatch = statusText.match(/([\d,]+)\s*Start/i);
+                    const remainingMatch = statusText.match(/([\d,]+)\s*Remaining/i);
+
+                    if (!startMatch || !remainingMatch) return;
+
+                    const prizesAtStart = parseNumber(startMatch[1]);
+                    const prizesRemaining = parseNumber(remainingMatch[1]);
+
+                    // Zero-value tiers are left for lib/validation.ts to repair or drop
+                    if (odds > 0 && prizesAtStart > 0) {
+                        const tier: PrizeTier = {
+                            prize: prizeText,
+                            prizeValue: 0,
+                            odds,
+                            oddsText,
+                            prizesAtStart,
+                            prizesRemaining, //compiling into prizeTiers
+                            ...classified
+                        };
+                        tier.prizeValue = valuePrize(tier, price);
+                        prizeTiers.push(tier);
+                    }
+                }
+            });
+        }
+    });
+
+    if (prizeTiers.length === 0) { //we dont have any for this game
+        console.warn(`No prize tiers found for ${gameName} at ${url}`);
+        return null;
+    }
+
+    return {
+        name: gameName,
+        state: STATE,
+        gameNumber,
+        price,
+        overallOdds: overallOddsText,
+        overallOddsValue,
+        url,
+        prizeTiers,
+        lastUpdated
+    };
+}
+
+ //Fetch and parse a single game page
+
+export async function parseGamePage(url: string, context: ScrapeContext, priceFromAPI?: number): Promise<LotteryGame | null> {
+    console.log(`Parsing game page: ${url}`);
+    const html = await fetchGameHtml(url, context);
+    return parseGameHtml(html, url, priceFromAPI);
+}
+
+export const massachusettsScraper: LotteryScraper = {
+    state: STATE,
+    name: 'Massachusetts',
+    listGames: getAllGameLinks,
+    parseGamePage: (link, context) => parseGamePage(link.url, context, link.price),
+};
@@ -0,0 +1,130 @@
+/*
+ * Library: Sessions
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Sign-in sessions for the accounts in lib/users.ts: a random token in an
+ * httpOnly cookie, matched against the `sessions` collection.
+ *
+ * Logic & Reasoning:
+ * 1. Only a SHA-256 of the token is stored, so a leaked database dump can't be
+ * replayed as cookies.
+ * 2. Sessions last SESSION_TTL_DAYS (default 30). A TTL index on `expiresAt`
+ * lets MongoDB delete expired ones by itself.
+ * 3. Signed Out Still Works: `getCurrentUser` returns null on any problem,
+ * including the DB being down, so pages keep working anonymously.
+ * 4. Per-User Data Needs an Account: Alert rules, watchlists, notifications
+ * and the ledger belong to a user id. Their routes answer `signInRequired()`
+ * (401) when `getCurrentOwner` is null, since one owner shared by everyone
+ * signed out would let any visitor read and change the others' data.
+ * ----------------------------------------------------------------------------
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { Collection, ObjectId } from 'mongodb';
+import getCollection from '@/db';
+import { getUserById } from '@/lib/users';
+import { User } from '@/types/lottery';
+
+const SESSIONS_COLLECTION = 'sessions';
+export const SESSION_COOKIE = 'session';
+
+interface StoredSession {
+    _id?: ObjectId;
+    tokenHash: string;
+    userId: string;
+    createdAt: Date;
+    expiresAt: Date;
+}
+
+let initialized: Promise<void> | null = null;
+
+async function sessionsCollection(): Promise<Collection<StoredSession>> {
+    const collection = await getCollection(SESSIONS_COLLECTION);
+    return collection as unknown as Collection<StoredSession>;
+}
+
+// Make sure indexes exist before first use
+async function ensureInitialized(): Promise<Collection<StoredSession>> {
+    if (!initialized) {
+        initialized = sessionsCollection()
+            .then(collection => Promise.all([
+                collection.createIndex({ tokenHash: 1 }, { unique: true }),
+                collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+            ]))
+            .then(() => undefined)
+            .catch(err => {
+                // Allow a retry on the next call instead of caching the failure
+                initialized = null;
+                throw err;
+            });
+    }
+    await initialized;
+    return sessionsCollection();
+}
+
+// Helper to get session lifetime from environment, same style as getCacheTTL
+function getSessionTTLDays(): number {
+    const envDays = process.env.SESSION_TTL_DAYS;
+    return envDays ? parseInt(envDays) : 30;
+}
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+ //Start a session for a user and set its cookie on the response
+export async function startSession(userId: string, response: NextResponse): Promise<void> {
+    const collection = await ensureInitialized();
+    const token = randomBytes(32).toString('base64url');
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + getSessionTTLDays() * 24 * 60 * 60 * 1000);
+
+    await collection.insertOne({ tokenHash: hashToken(token), userId, createdAt, expiresAt });
+    response.cookies.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        expires: expiresAt,
+    });
+}
+
+ //End the current request's session (if any) and clear its cookie on the response
+export async function endSession(response: NextResponse): Promise<void> {
+    const token = (await cookies()).get(SESSION_COOKIE)?.value;
+    if (token) {
+        const collection = await ensureInitialized();
+        await collection.deleteOne({ tokenHash: hashToken(token) });
+    }
+    response.cookies.delete(SESSION_COOKIE);
+}
+
+ //The signed-in user of the current request, or null if signed out (or the session can't be checked)
+export async function getCurrentUser(): Promise<User | null> {
+    try {
+        const token = (await cookies()).get(SESSION_COOKIE)?.value;
+        if (!token) return null;
+
+        const collection = await ensureInitialized();
+        const session = await collection.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+        return session ? await getUserById(session.userId) : null;
+    } catch (err) {
+        console.warn('Failed to check session:', err);
+        return null;
+    }
+}
+
+ //Who per-user data (alert rules, watchlists, notifications, ledger) belongs to for the current request, or null if signed out
+export async function getCurrentOwner(): Promise<string | null> {
+    const user = await getCurrentUser();
+    return user ? user.id : null;
+}
+
+ //The 401 answer for per-user routes when nobody is signed in
+export function signInRequired(): NextResponse {
+    return NextResponse.json({ error: 'Sign in to use this' }, { status: 401 });
+}
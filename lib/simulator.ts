@@ -0,0 +1,203 @@
+/*
+ * Library: Bankroll Simulator
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * Monte Carlo simulation of buying a bundle of scratch tickets, using each
+ * game's remaining prize tiers and estimated remaining tickets from the EV
+ * calculator.
+ *
+ * Logic & Reasoning:
+ * 1. Ticket Model: Each ticket independently lands in a prize tier with
+ * probability (prizes remaining / estimated remaining tickets), otherwise it
+ * loses. Remaining tickets are in the hundreds of thousands, so drawing with
+ * replacement is indistinguishable from the real thing for any bundle a person
+ * would actually buy.
+ * 2. Pure Function: No network or DB access, so it runs entirely in the
+ * browser. The random source can be injected to make runs reproducible.
+ * 3. Tier Odds: The chance of hitting each tier at least once is computed
+ * exactly (1 - (1 - p)^n) instead of from the samples, because the top tiers
+ * are too rare to ever show up in a few thousand trials.
+ * 4. Budget Mode: `allocateBudget` spreads a dollar budget across the chosen
+ * games one ticket at a time, so cheap and expensive games get a fair share.
+ * Whole rounds are bought at once, so a big budget doesn't mean a long loop.
+ * 5. Limits: A bundle is at most MAX_TICKETS tickets (bigger ones throw), and
+ * trials are cut down so trials x tickets stays under MAX_DRAWS, which keeps a
+ * run to a few seconds in the browser whatever the inputs.
+ * ----------------------------------------------------------------------------
+ */
+
+import { GameWithEV, SimulationResult, SimulationSelection, SimulationTierOdds } from '@/types/lottery';
+import { percentile } from './ev-calculator';
+
+// Upper bound on simulated tickets (trials x bundle size) to keep the browser responsive
+const MAX_DRAWS = 5_000_000;
+// Largest bundle and trial count a run accepts
+export const MAX_TICKETS = 10_000;
+export const MAX_TRIALS = 100_000;
+const HISTOGRAM_BUCKETS = 20;
+
+interface TierTable {
+    cumulative: number[]; // Running sum of tier probabilities
+    values: number[]; // Prize value for the matching tier
+}
+
+function buildTierTable(game: GameWithEV): TierTable {
+    const cumulative: number[] = [];
+    const values: number[] = [];
+    let running = 0;
+
+    if (game.estimatedRemainingTickets > 0) {
+        for (const tier of game.prizeTiers) {
+            running += tier.prizesRemaining / game.estimatedRemainingTickets;
+            cumulative.push(Math.min(running, 1));
+            values.push(tier.prizeValue);
+        }
+    }
+
+    return { cumulative, values };
+}
+
+// Payout of one ticket: find the first tier whose cumulative probability covers the draw
+function drawTicket(table: TierTable, rng: () => number): number {
+    const u = rng();
+    for (let i = 0; i < table.cumulative.length; i++) {
+        if (u < table.cumulative[i]) return table.values[i];
+    }
+    return 0;
+}
+
+function buildHistogram(sortedNets: number[]): SimulationResult['histogram'] {
+    const min = sortedNets[0];
+    const max = sortedNets[sortedNets.length - 1];
+    if (min === max) {
+        return [{ from: min, to: max, count: sortedNets.length }];
+    }
+
+    const width = (max - min) / HISTOGRAM_BUCKETS;
+    const buckets = Array.from({ length: HISTOGRAM_BUCKETS }, (_, i) => ({
+        from: min + i * width,
+        to: min + (i + 1) * width,
+        count: 0,
+    }));
+
+    for (const net of sortedNets) {
+        const idx = Math.min(Math.floor((net - min) / width), HISTOGRAM_BUCKETS - 1);
+        buckets[idx].count++;
+    }
+    return buckets;
+}
+
+ //Spend a budget across games round-robin, one ticket at a time, until nothing else is affordable
+export function allocateBudget(games: GameWithEV[], budget: number): SimulationSelection[] {
+    const selections = games.map(game => ({ game, quantity: 0 }));
+    let remaining = budget;
+    let bought = true;
+
+    // Rounds where every game is still affordable: one ticket of each, all at once
+    const roundCost = games.reduce((sum, game) => sum + (game.price > 0 ? game.price : 0), 0);
+    if (roundCost > 0) {
+        const rounds = Math.floor(remaining / roundCost);
+        for (const selection of selections) {
+            if (selection.game.price > 0) selection.quantity = rounds;
+        }
+        remaining -= rounds * roundCost;
+    }
+
+    while (bought) {
+        bought = false;
+        for (const selection of selections) {
+            if (selection.game.price > 0 && selection.game.price <= remaining) {
+                selection.quantity++;
+                remaining -= selection.game.price;
+                bought = true;
+            }
+        }
+    }
+
+    return selections.filter(s => s.quantity > 0);
+}
+
+ //Run the Monte Carlo simulation for a bundle of tickets. Throws if the bundle is over MAX_TICKETS.
+export function simulateBankroll(
+    selections: SimulationSelection[],
+    requestedTrials: number,
+    rng: () => number = Math.random
+): SimulationResult {
+    const active = selections.filter(s => s.quantity > 0);
+    const totalTickets = active.reduce((sum, s) => sum + s.quantity, 0);
+    if (totalTickets > MAX_TICKETS) {
+        throw new Error(`A bundle can have at most ${MAX_TICKETS.toLocaleString()} tickets (got ${totalTickets.toLocaleString()})`);
+    }
+    const totalCost = active.reduce((sum, s) => sum + s.game.price * s.quantity, 0);
+    const expectedNet = active.reduce((sum, s) => sum + s.game.currentEV * s.quantity, 0) - totalCost;
+
+    const tierOdds: SimulationTierOdds[] = active.flatMap(({ game, quantity }) =>
+        game.prizeTiers.map(tier => {
+            const p = game.estimatedRemainingTickets > 0
+                ? Math.min(tier.prizesRemaining / game.estimatedRemainingTickets, 1)
+                : 0;
+            return {
+                gameNumber: game.gameNumber,
+                gameName: game.name,
+                prize: tier.prize,
+                hitProbability: 1 - Math.pow(1 - p, quantity),
+            };
+        })
+    );
+
+    if (totalTickets === 0) {
+        return {
+            trials: 0,
+            totalTickets,
+            totalCost,
+            expectedNet,
+            meanNet: 0,
+            percentiles: { p5: 0, p25: 0, p50: 0, p75: 0, p95: 0 },
+            profitProbability: 0,
+            histogram: [],
+            tierOdds,
+        };
+    }
+
+    const trials = Math.max(1, Math.min(requestedTrials, MAX_TRIALS, Math.floor(MAX_DRAWS / totalTickets)));
+    const tables = active.map(s => ({ table: buildTierTable(s.game), quantity: s.quantity }));
+
+    const nets: number[] = new Array(trials);
+    let profitable = 0;
+    let netSum = 0;
+
+    for (let t = 0; t < trials; t++) {
+        let winnings = 0;
+        for (const { table, quantity } of tables) {
+            for (let q = 0; q < quantity; q++) {
+                winnings += drawTicket(table, rng);
+            }
+        }
+        const net = winnings - totalCost;
+        nets[t] = net;
+        netSum += net;
+        if (net > 0) profitable++;
+    }
+
+    nets.sort((a, b) => a - b);
+
+    return {
+        trials,
+        totalTickets,
+        totalCost,
+        expectedNet,
+        meanNet: netSum / trials,
+        percentiles: {
+            p5: percentile(nets, 0.05),
+            p25: percentile(nets, 0.25),
+            p50: percentile(nets, 0.5),
+            p75: percentile(nets, 0.75),
+            p95: percentile(nets, 0.95),
+        },
+        profitProbability: profitable / trials,
+        histogram: buildHistogram(nets),
+        tierOdds,
+    };
+}
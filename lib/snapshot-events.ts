@@ -0,0 +1,91 @@
+/*
+ * Library: Snapshot Events
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Tells open browsers when a new market snapshot has been stored, so the
+ * table and digest can update without a reload. /api/games/events streams
+ * these to the browser as Server-Sent Events.
+ *
+ * Logic & Reasoning:
+ * 1. Two Sources: The background refresh in /api/games announces its snapshot
+ * as soon as it's saved. Refreshes from elsewhere (scripts/scrape.ts, another
+ * server instance) are caught by polling the time of the current market every
+ * SNAPSHOT_POLL_MS (default 15s), one cheap indexed query per state. Refreshes
+ * that found nothing new don't move that time, so they are never announced.
+ * 2. Shared Watchers: Every open stream of a state shares one watcher, and
+ * the poll only runs while someone is listening.
+ * 3. Newer Only: A snapshot is announced once, and only if it's newer than the
+ * last one announced, so the push and the poll can't double up.
+ * 4. Catch-Up: A new subscriber is told the latest known snapshot straight
+ * away, so a browser that reconnects after missing an event still notices.
+ * ----------------------------------------------------------------------------
+ */
+
+import { getLatestUpdatedAt } from '@/lib/game-store';
+
+export interface SnapshotEvent {
+    state: string;
+    updatedAt: string;
+}
+
+type SnapshotListener = (event: SnapshotEvent) => void;
+
+interface StateWatcher {
+    listeners: Set<SnapshotListener>;
+    latest: string | null;
+    timer: ReturnType<typeof setInterval>;
+}
+
+// One watcher per state with at least one listener
+const watchers = new Map<string, StateWatcher>();
+
+// Helper to get the poll interval from environment, same style as getCacheTTL
+function getPollInterval(): number {
+    const envMs = process.env.SNAPSHOT_POLL_MS;
+    return envMs ? parseInt(envMs) : 15000;
+}
+
+async function poll(state: string): Promise<void> {
+    try {
+        const updatedAt = await getLatestUpdatedAt(state);
+        if (updatedAt) announceSnapshot(state, updatedAt);
+    } catch (err) {
+        console.warn(`Snapshot poll failed for ${state}:`, err);
+    }
+}
+
+ //Tell everyone listening to a state about a stored snapshot. Older or already announced snapshots are ignored.
+export function announceSnapshot(state: string, updatedAt: string): void {
+    const watcher = watchers.get(state);
+    if (!watcher || (watcher.latest !== null && updatedAt <= watcher.latest)) return;
+
+    watcher.latest = updatedAt;
+    for (const listener of watcher.listeners) {
+        listener({ state, updatedAt });
+    }
+}
+
+ //Listen for new snapshots of a state. Returns the function that stops listening.
+export function subscribeToSnapshots(state: string, listener: SnapshotListener): () => void {
+    let watcher = watchers.get(state);
+    if (!watcher) {
+        watcher = { listeners: new Set(), latest: null, timer: setInterval(() => poll(state), getPollInterval()) };
+        watchers.set(state, watcher);
+        // The first poll tells this listener about the latest snapshot
+        poll(state);
+    } else if (watcher.latest) {
+        listener({ state, updatedAt: watcher.latest });
+    }
+    watcher.listeners.add(listener);
+
+    const current = watcher;
+    return () => {
+        current.listeners.delete(listener);
+        if (current.listeners.size === 0 && watchers.get(state) === current) {
+            clearInterval(current.timer);
+            watchers.delete(state);
+        }
+    };
+}
@@ -0,0 +1,145 @@
+/*
+ * Library: Ticket Estimation Strategies
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * The different ways we can estimate how many tickets were printed (and how
+ * many are still unsold) for a game. The EV calculator picks one of these by
+ * id, so analysts can compare how each method ranks games.
+ *
+ * Logic & Reasoning:
+ * - Every estimator answers the same question for either column of the prize
+ * table: "given odds and a count of prizes (at start, or remaining), how many
+ * tickets does that imply?" That keeps the EV math itself method-agnostic.
+ * - Methods:
+ *   1. median: Median of (odds x prizes) across all tiers. Our original method.
+ *   2. lowest-tier: Only the cheapest prize tier. It has by far the most
+ *      prizes, so its count is the least affected by rounding.
+ *   3. overall-odds: Overall odds x total prizes. Falls back to the median when
+ *      the page had no overall odds (the scraper defaults them to "1 in 1"), or
+ *      when they are more than OVERALL_ODDS_TOLERANCE longer than the odds the
+ *      tiers imply (1 / sum of 1/odds), which means the page was misread.
+ *      Shorter odds are believed: a tier the parser skipped only makes the
+ *      implied odds longer.
+ *      Validated games derive missing or mismatched overall odds from their
+ *      tiers, which makes this method agree with weighted-least-squares for them.
+ *   4. weighted-least-squares: Fits tickets N so that prizes_i ≈ N / odds_i
+ *      across all tiers, weighting each tier by the inverse of its expected
+ *      (Poisson) variance. That has the closed form
+ *      N = sum(prizes_i) / sum(1 / odds_i).
+ * ----------------------------------------------------------------------------
+ */
+
+import { EstimationMethod, LotteryGame, PrizeTier } from '@/types/lottery';
+
+export type PrizeCount = 'prizesAtStart' | 'prizesRemaining';
+
+export interface TicketEstimator {
+    id: EstimationMethod;
+    label: string;
+    estimate(game: LotteryGame, count: PrizeCount): number;
+}
+
+export const DEFAULT_ESTIMATION_METHOD: EstimationMethod = 'median';
+
+// How much longer (as a fraction) a page's overall odds may be than the odds its tiers imply
+export const OVERALL_ODDS_TOLERANCE = 0.25;
+
+// Tiers that can contribute to an estimate for the given count
+function usableTiers(prizeTiers: PrizeTier[], count: PrizeCount): PrizeTier[] {
+    return prizeTiers.filter(tier => tier.odds > 0 && tier[count] > 0);
+}
+
+ //Overall odds implied by the prize tiers: the chance of winning anything is the sum of each tier's chance. 0 if no tier has odds.
+export function tierOverallOdds(prizeTiers: PrizeTier[]): number {
+    const winRate = prizeTiers.reduce((sum, tier) => tier.odds > 0 ? sum + 1 / tier.odds : sum, 0);
+    return winRate > 0 ? 1 / winRate : 0;
+}
+
+ //Whether the game's overall odds are usable: above the "1 in 1" default and no longer than its tiers allow
+export function overallOddsAgreeWithTiers(game: LotteryGame): boolean {
+    if (!(game.overallOddsValue > 1)) return false;
+    const implied = tierOverallOdds(game.prizeTiers);
+    return implied > 0 && game.overallOddsValue <= implied * (1 + OVERALL_ODDS_TOLERANCE);
+}
+
+const medianEstimator: TicketEstimator = {
+    id: 'median',
+    label: 'Median of tiers',
+    estimate(game, count) {
+        const estimates = usableTiers(game.prizeTiers, count).map(tier => tier.odds * tier[count]);
+
+        if (estimates.length === 0) return 0;
+
+        // Calculate the median
+        estimates.sort((a, b) => a - b);
+        const mid = Math.floor(estimates.length / 2);
+
+        if (estimates.length % 2 === 0) {
+            return (estimates[mid - 1] + estimates[mid]) / 2;
+        } else {
+            return estimates[mid];
+        }
+    },
+};
+
+const lowestTierEstimator: TicketEstimator = {
+    id: 'lowest-tier',
+    label: 'Lowest tier only',
+    estimate(game, count) {
+        // Always use the same tier for start and remaining, picked by prize value
+        const lowest = game.prizeTiers
+            .filter(tier => tier.odds > 0 && tier.prizesAtStart > 0)
+            .sort((a, b) => a.prizeValue - b.prizeValue || b.prizesAtStart - a.prizesAtStart)[0];
+
+        return lowest ? lowest.odds * lowest[count] : 0;
+    },
+};
+
+const overallOddsEstimator: TicketEstimator = {
+    id: 'overall-odds',
+    label: 'Overall odds',
+    estimate(game, count) {
+        if (!overallOddsAgreeWithTiers(game)) {
+            return medianEstimator.estimate(game, count);
+        }
+        const totalPrizes = game.prizeTiers.reduce((sum, tier) => sum + tier[count], 0);
+        return game.overallOddsValue * totalPrizes;
+    },
+};
+
+const weightedLeastSquaresEstimator: TicketEstimator = {
+    id: 'weighted-least-squares',
+    label: 'Weighted least squares',
+    estimate(game, count) {
+        // Use the same tiers for start and remaining so the two estimates are comparable
+        const tiers = game.prizeTiers.filter(tier => tier.odds > 0 && tier.prizesAtStart > 0);
+        const totalPrizes = tiers.reduce((sum, tier) => sum + tier[count], 0);
+        const totalWinRate = tiers.reduce((sum, tier) => sum + 1 / tier.odds, 0);
+
+        return totalWinRate > 0 ? totalPrizes / totalWinRate : 0;
+    },
+};
+
+const ESTIMATORS: Record<EstimationMethod, TicketEstimator> = {
+    'median': medianEstimator,
+    'lowest-tier': lowestTierEstimator,
+    'overall-odds': overallOddsEstimator,
+    'weighted-least-squares': weightedLeastSquaresEstimator,
+};
+
+export function getEstimationMethods(): EstimationMethod[] {
+    return Object.keys(ESTIMATORS) as EstimationMethod[];
+}
+
+export function getTicketEstimator(method: EstimationMethod = DEFAULT_ESTIMATION_METHOD): TicketEstimator {
+    return ESTIMATORS[method];
+}
+
+ //Turn a `?method=` query param into an estimation method. Missing means the default; unknown means null.
+export function resolveEstimationMethodParam(param: string | null): EstimationMethod | null {
+    if (!param) return DEFAULT_ESTIMATION_METHOD;
+    const method = param as EstimationMethod;
+    return getEstimationMethods().includes(method) ? method : null;
+}
@@ -0,0 +1,232 @@
+/*
+ * Library: User Accounts & Preferences
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Local username/password accounts in the `users` collection, each carrying
+ * the user's saved preferences (default table sort, favorite games, tax
+ * settings). Sessions live in lib/sessions.ts.
+ *
+ * Logic & Reasoning:
+ * 1. Passwords: Hashed with scrypt and a random salt per user (Node's crypto,
+ * no extra dependency), stored as `scrypt$<salt>$<hash>`, and compared in
+ * constant time. Signing in as an unknown user still hashes the password
+ * (against a throwaway hash), so response times don't reveal which accounts
+ * exist.
+ * 2. Usernames: Stored lowercased with a unique index, so "Alex" and "alex"
+ * can't both sign up.
+ * 3. Preferences: Stored on the user document and validated field by field
+ * like query params, so a bad PATCH answers 400 instead of saving junk. A
+ * default sort must be a column the table can sort (TABLE_SORT_KEYS).
+ * 4. Alert rules and watchlists are not copied here: they already live in
+ * their own collections, owned by the user's id (see lib/alerts.ts).
+ * ----------------------------------------------------------------------------
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { Collection, MongoServerError, ObjectId } from 'mongodb';
+import getCollection from '@/db';
+import { TABLE_SORT_KEYS } from '@/lib/game-query';
+import { TaxModel, User, UserPreferences } from '@/types/lottery';
+
+const USERS_COLLECTION = 'users';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+const DEFAULT_PREFERENCES: UserPreferences = { favoriteGames: [], taxMode: 'pre-tax' };
+
+// Fields to set, plus the optional ones to remove
+export type PreferencesUpdate = Partial<UserPreferences> & { clear: (keyof UserPreferences)[] };
+
+interface StoredUser {
+    _id?: ObjectId;
+    username: string;
+    passwordHash: string;
+    createdAt: string;
+    preferences: UserPreferences;
+}
+
+let initialized: Promise<void> | null = null;
+
+// Hash of a random password, checked against when the username doesn't exist
+let dummyHash: Promise<string> | null = null;
+
+async function usersCollection(): Promise<Collection<StoredUser>> {
+    const collection = await getCollection(USERS_COLLECTION);
+    return collection as unknown as Collection<StoredUser>;
+}
+
+// Make sure indexes exist before first use
+async function ensureInitialized(): Promise<Collection<StoredUser>> {
+    if (!initialized) {
+        initialized = usersCollection()
+            .then(collection => collection.createIndex({ username: 1 }, { unique: true }))
+            .then(() => undefined)
+            .catch(err => {
+                // Allow a retry on the next call instead of caching the failure
+                initialized = null;
+                throw err;
+            });
+    }
+    await initialized;
+    return usersCollection();
+}
+
+function toUser({ _id, username, createdAt, preferences }: StoredUser): User {
+    return { id: _id!.toString(), username, createdAt, preferences: { ...DEFAULT_PREFERENCES, ...preferences } };
+}
+
+async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+    return timingSafeEqual(actual, expected);
+}
+
+ //Check a sign-up. Returns an error message for the 400 response, or null if it's fine.
+export function validateCredentials(username: unknown, password: unknown): string | null {
+    if (typeof username !== 'string' || !/^[a-zA-Z0-9_.-]{3,32}$/.test(username)) {
+        return 'Username must be 3-32 letters, digits, dots, dashes or underscores';
+    }
+    if (typeof password !== 'string' || password.length < 8 || password.length > 200) {
+        return 'Password must be 8-200 characters';
+    }
+    return null;
+}
+
+ //Create an account. Returns null if the username is already taken.
+export async function createUser(username: string, password: string): Promise<User | null> {
+    const collection = await ensureInitialized();
+    const user: StoredUser = {
+        username: username.toLowerCase(),
+        passwordHash: await hashPassword(password),
+        createdAt: new Date().toISOString(),
+        preferences: DEFAULT_PREFERENCES,
+    };
+
+    try {
+        const { insertedId } = await collection.insertOne(user);
+        return toUser({ ...user, _id: insertedId });
+    } catch (err) {
+        // Duplicate key on the unique username index
+        if (err instanceof MongoServerError && err.code === 11000) return null;
+        throw err;
+    }
+}
+
+ //The account for a username and password, or null if either is wrong
+export async function verifyCredentials(username: string, password: string): Promise<User | null> {
+    const collection = await ensureInitialized();
+    const user = await collection.findOne({ username: username.toLowerCase() });
+
+    // Hash either way, so an unknown username takes as long as a wrong password
+    dummyHash ??= hashPassword(randomBytes(16).toString('base64'));
+    const matches = await verifyPassword(password, user?.passwordHash ?? await dummyHash);
+    return user && matches ? toUser(user) : null;
+}
+
+export async function getUserById(id: string): Promise<User | null> {
+    if (!ObjectId.isValid(id)) return null;
+    const collection = await ensureInitialized();
+    const user = await collection.findOne({ _id: new ObjectId(id) });
+    return user ? toUser(user) : null;
+}
+
+function isRate(value: unknown): value is number {
+    return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function isAmount(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value) && value >= 0;
+}
+
+function parseTaxModel(value: unknown): TaxModel | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const { federalRate, federalThreshold, stateRate, stateThreshold } = value as Record<string, unknown>;
+    if (!isRate(federalRate) || !isRate(stateRate) || !isAmount(federalThreshold) || !isAmount(stateThreshold)) {
+        return null;
+    }
+    return { federalRate, federalThreshold, stateRate, stateThreshold };
+}
+
+ //Validate a preferences update. `null` for defaultSort or taxModel clears it.
+export function parsePreferencesUpdate(input: unknown): { changes: PreferencesUpdate } | { error: string } {
+    if (typeof input !== 'object' || input === null) return { error: 'Body must be a JSON object' };
+    const body = input as Record<string, unknown>;
+    const changes: PreferencesUpdate = { clear: [] };
+
+    if ('defaultSort' in body) {
+        const sort = body.defaultSort as { sort?: unknown; order?: unknown } | null;
+        if (sort === null) {
+            changes.clear.push('defaultSort');
+        } else if (
+            typeof sort !== 'object'
+            || !(TABLE_SORT_KEYS as readonly unknown[]).includes(sort.sort)
+            || (sort.order !== 'asc' && sort.order !== 'desc')
+        ) {
+            return { error: `"defaultSort" must be { sort, order } with sort one of: ${TABLE_SORT_KEYS.join(', ')}` };
+        } else {
+            changes.defaultSort = { sort: sort.sort as string, order: sort.order };
+        }
+    }
+
+    if ('favoriteGames' in body) {
+        const favorites = body.favoriteGames;
+        if (!Array.isArray(favorites) || !favorites.every(gameNumber => typeof gameNumber === 'string')) {
+            return { error: '"favoriteGames" must be an array of strings' };
+        }
+        changes.favoriteGames = [...new Set(favorites as string[])];
+    }
+
+    if ('taxMode' in body) {
+        if (body.taxMode !== 'pre-tax' && body.taxMode !== 'after-tax') {
+            return { error: '"taxMode" must be "pre-tax" or "after-tax"' };
+        }
+        changes.taxMode = body.taxMode;
+    }
+
+    if ('taxModel' in body) {
+        if (body.taxModel === null) {
+            changes.clear.push('taxModel');
+        } else {
+            const taxModel = parseTaxModel(body.taxModel);
+            if (!taxModel) {
+                return { error: '"taxModel" needs federalRate and stateRate (0-1) and federalThreshold and stateThreshold (dollars)' };
+            }
+            changes.taxModel = taxModel;
+        }
+    }
+
+    return { changes };
+}
+
+ //Apply a validated preferences update and return the updated user
+export async function updatePreferences(
+    id: string,
+    { clear, ...changes }: PreferencesUpdate
+): Promise<User | null> {
+    if (!ObjectId.isValid(id)) return null;
+    const collection = await ensureInitialized();
+
+    const $set = Object.fromEntries(Object.entries(changes).map(([key, value]) => [`preferences.${key}`, value]));
+    const $unset = Object.fromEntries(clear.map(key => [`preferences.${key}`, '' as const]));
+    if (Object.keys($set).length === 0 && Object.keys($unset).length === 0) return getUserById(id);
+
+    const user = await collection.findOneAndUpdate(
+        { _id: new ObjectId(id) },
+        { ...(Object.keys($set).length > 0 ? { $set } : {}), ...(Object.keys($unset).length > 0 ? { $unset } : {}) },
+        { returnDocument: 'after' }
+    );
+    return user ? toUser(user) : null;
+}
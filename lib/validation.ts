@@ -0,0 +1,154 @@
+/*
+ * Library: Game Data Validation
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * Checks every scraped game before it reaches the EV calculator, repairing
+ * what can be repaired and rejecting what can't. Each game gets a typed list
+ * of errors and warnings.
+ *
+ * Logic & Reasoning:
+ * 1. Reject: A game without a price (EV per dollar would be meaningless) or
+ * without any usable prize tiers is dropped, with an "error" issue saying why.
+ * 2. Repair: Fixable problems are fixed and recorded as "warning" issues:
+ *    - Overall odds left at the scraper's "1 in 1" default, or much longer
+ *      than the tiers allow (a misread page), are derived from the tiers
+ *      instead (1 / sum of 1/odds).
+ *    - Prizes remaining above prizes at start are capped at the start count,
+ *      and negative counts are raised to zero.
+ *    - "Free ticket" tiers valued at $0 are valued at the ticket price.
+ *    - Tiers with no value, odds or starting prizes are dropped. That includes
+ *      merchandise with no stated value, which would otherwise skew the
+ *      lowest-tier ticket estimate.
+ * 3. Surface: Warnings stay on the game as `validationWarnings`, so they are
+ * stored with it and the UI can flag suspect rows.
+ * 4. Pure Function: No network or DB access; input games are never mutated.
+ * ----------------------------------------------------------------------------
+ */
+
+import { GameValidation, LotteryGame, PrizeTier, ValidationIssue } from '@/types/lottery';
+import { overallOddsAgreeWithTiers, tierOverallOdds } from './ticket-estimators';
+
+export interface ValidationReport {
+    games: LotteryGame[]; // Valid games, repaired where needed
+    rejected: { game: LotteryGame; issues: ValidationIssue[] }[];
+}
+
+function isFreeTicketPrize(tier: PrizeTier): boolean {
+    if (tier.kind) return tier.kind === 'free-ticket';
+    const text = tier.prize.toLowerCase();
+    return text.includes('free') || text.includes('ticket');
+}
+
+ //Check one tier, returning the repaired tier (or null to drop it) and anything worth reporting
+function validateTier(tier: PrizeTier, price: number, issues: ValidationIssue[]): PrizeTier | null {
+    const repaired = { ...tier };
+
+    if (repaired.prizeValue <= 0 && isFreeTicketPrize(repaired)) {
+        repaired.prizeValue = price;
+        issues.push({
+            severity: 'warning',
+            code: 'zero-value-prize',
+            message: `"${tier.prize}" was valued at $0; using the ticket price ($${price.toFixed(2)})`,
+            prize: tier.prize,
+        });
+    }
+
+    if (repaired.prizeValue <= 0 || repaired.odds <= 0 || repaired.prizesAtStart <= 0) {
+        issues.push({
+            severity: 'warning',
+            code: 'invalid-tier',
+            message: repaired.kind === 'merchandise' && repaired.odds > 0 && repaired.prizesAtStart > 0
+                ? `Dropped tier "${tier.prize}": merchandise prize with no stated cash value`
+                : `Dropped tier "${tier.prize}": needs a positive value, odds and starting prize count`,
+            prize: tier.prize,
+        });
+        return null;
+    }
+
+    if (repaired.prizesRemaining < 0) {
+        repaired.prizesRemaining = 0;
+        issues.push({
+            severity: 'warning',
+            code: 'negative-remaining',
+            message: `"${tier.prize}" reported ${tier.prizesRemaining} prizes remaining; using 0`,
+            prize: tier.prize,
+        });
+    } else if (repaired.prizesRemaining > repaired.prizesAtStart) {
+        repaired.prizesRemaining = repaired.prizesAtStart;
+        issues.push({
+            severity: 'warning',
+            code: 'remaining-exceeds-start',
+            message: `"${tier.prize}" has more prizes remaining (${tier.prizesRemaining}) than at start (${tier.prizesAtStart}); capped at start`,
+            prize: tier.prize,
+        });
+    }
+
+    return repaired;
+}
+
+export function validateGame(game: LotteryGame): GameValidation {
+    const issues: ValidationIssue[] = [];
+
+    if (!(game.price > 0)) {
+        issues.push({ severity: 'error', code: 'missing-price', message: 'Ticket price is missing or zero' });
+        return { game: null, issues };
+    }
+
+    const prizeTiers = game.prizeTiers
+        .map(tier => validateTier(tier, game.price, issues))
+        .filter((tier): tier is PrizeTier => tier !== null);
+
+    if (prizeTiers.length === 0) {
+        issues.push({ severity: 'error', code: 'no-prize-tiers', message: 'No usable prize tiers' });
+        return { game: null, issues };
+    }
+
+    let { overallOdds, overallOddsValue } = game;
+    if (!overallOddsAgreeWithTiers({ ...game, prizeTiers })) {
+        const pageOdds = overallOdds;
+        const missing = !(overallOddsValue > 1);
+        overallOddsValue = Math.round(tierOverallOdds(prizeTiers) * 100) / 100;
+        overallOdds = `1 in ${overallOddsValue.toFixed(2)}`;
+        issues.push(missing ? {
+            severity: 'warning',
+            code: 'default-overall-odds',
+            message: `Overall odds missing from the page; derived ${overallOdds} from the prize tiers`,
+        } : {
+            severity: 'warning',
+            code: 'mismatched-overall-odds',
+            message: `Overall odds on the page (${pageOdds}) don't match the prize tiers; derived ${overallOdds} instead`,
+        });
+    }
+
+    if (prizeTiers.every(tier => tier.prizesRemaining === 0)) {
+        issues.push({ severity: 'warning', code: 'no-prizes-remaining', message: 'Every prize has been claimed' });
+    }
+
+    const repaired: LotteryGame = { ...game, overallOdds, overallOddsValue, prizeTiers };
+    if (issues.length > 0) {
+        repaired.validationWarnings = issues;
+    } else {
+        delete repaired.validationWarnings; // Left over from an earlier run
+    }
+
+    return { game: repaired, issues };
+}
+
+ //Validate a batch of games, splitting them into the (repaired) games to keep and the rejected ones
+export function validateGames(games: LotteryGame[]): ValidationReport {
+    const valid: LotteryGame[] = [];
+    const rejected: ValidationReport['rejected'] = [];
+
+    for (const game of games) {
+        const result = validateGame(game);
+        if (result.game) {
+            valid.push(result.game);
+        } else {
+            rejected.push({ game, issues: result.issues });
+        }
+    }
+
+    return { games: valid, rejected };
+}
@@ -0,0 +1,151 @@
+/*
+ * Script: Scrape CLI & Scheduler
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Runs a scrape outside of Next.js so data freshness doesn't depend on
+ * someone loading the home page. Usage:
+ *
+ *   npm run scrape -- [--state MA] [--limit N] [--game ID]... [--dry-run]
+ *                     [--out file.json] [--schedule] [--interval MINUTES]
+ *                     [--concurrency N] [--full]
+ *
+ * Logic & Reasoning:
+ * 1. Output: By default results go to MongoDB through the same `refreshGames`
+ * pipeline the API uses. `--out` writes the `{ updatedAt, games }` payload to a
+ * JSON file instead, and `--dry-run` only prints a summary.
+ * 2. No DB Unless Needed: db.ts throws on import when MONGO_URI is missing, so
+ * the Mongo pipeline is imported lazily, only for runs that actually write to it.
+ * Mongo runs are recorded in the scrape run log; dry runs print failed games instead.
+ * 3. Incremental: Mongo runs skip games whose stored data is still current
+ * (see lib/incremental.ts) unless `--full` is passed. Dry runs and `--out`
+ * have nothing stored to compare against, so they always parse every game.
+ * 4. Scheduler: `--schedule` repeats the run every `--interval` minutes
+ * (default SCRAPE_INTERVAL_MINUTES or 60). Runs never overlap: the next one
+ * is scheduled only after the previous one finishes.
+ * ----------------------------------------------------------------------------
+ */
+
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { loadEnvConfig } from '@next/env';
+import { DEFAULT_STATE, getSupportedStates, resolveStateParam, scrapeGames } from '@/lib/scraper';
+import { calculateEVForGames } from '@/lib/ev-calculator';
+import { GameWithEV } from '@/types/lottery';
+
+// Pick up .env / .env.local the same way `next dev` does
+loadEnvConfig(process.cwd());
+
+const { values } = parseArgs({
+    options: {
+        state: { type: 'string', default: DEFAULT_STATE },
+        limit: { type: 'string' },
+        concurrency: { type: 'string' },
+        game: { type: 'string', multiple: true },
+        'dry-run': { type: 'boolean', default: false },
+        full: { type: 'boolean', default: false },
+        out: { type: 'string' },
+        schedule: { type: 'boolean', default: false },
+        interval: { type: 'string' },
+    },
+});
+
+const state = resolveStateParam(values.state ?? null);
+if (!state) {
+    console.error(`Unsupported state "${values.state}". Supported states: ${getSupportedStates().join(', ')}`);
+    process.exit(1);
+}
+
+const limit = values.limit ? parseInt(values.limit, 10) : undefined;
+if (limit !== undefined && !(limit > 0)) {
+    console.error('--limit must be a positive number');
+    process.exit(1);
+}
+
+const concurrency = values.concurrency ? parseInt(values.concurrency, 10) : undefined;
+if (concurrency !== undefined && !(concurrency > 0)) {
+    console.error('--concurrency must be a positive number');
+    process.exit(1);
+}
+
+const envInterval = process.env.SCRAPE_INTERVAL_MINUTES;
+const intervalMinutes = parseFloat(values.interval ?? envInterval ?? '60');
+if (!(intervalMinutes > 0)) {
+    console.error('--interval must be a positive number of minutes');
+    process.exit(1);
+}
+
+const scrapeOptions = { state, limit, gameNumbers: values.game, concurrency };
+
+function printSummary(games: GameWithEV[]) {
+    const best = [...games].sort((a, b) => b.evPerDollar - a.evPerDollar).slice(0, 5);
+    console.log(`Scraped ${games.length} games.`);
+    for (const game of best) {
+        console.log(`  ${game.name.padEnd(40)} $${game.price.toFixed(2).padStart(6)}  EV/$ ${game.evPerDollar.toFixed(3)}`);
+    }
+}
+
+async function runOnce(): Promise<void> {
+    const startedAt = Date.now();
+
+    if (values['dry-run'] || values.out) {
+        const result = await scrapeGames(scrapeOptions);
+        const games = calculateEVForGames(result.games);
+        printSummary(games);
+        for (const error of result.errors) {
+            console.log(`  FAILED ${error.name}: ${error.message}`);
+        }
+        for (const link of result.noTiers) {
+            console.log(`  NO PRIZE TIERS ${link.name}`);
+        }
+
+        if (values.out && !values['dry-run']) {
+            const payload = { updatedAt: new Date().toISOString(), games };
+            await writeFile(values.out, JSON.stringify(payload, null, 2));
+            console.log(`Wrote ${values.out}`);
+        }
+    } else {
+        const { refreshGames } = await import('@/lib/refresh');
+        const { games, refreshed, skipped } = await refreshGames({ ...scrapeOptions, incremental: !values.full, trigger: 'cli' });
+        printSummary(games);
+        console.log(`Saved to MongoDB: ${refreshed} refreshed, ${skipped} skipped as unchanged.`);
+    }
+
+    console.log(`Run finished in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+}
+
+async function main() {
+    if (!values.schedule) {
+        await runOnce();
+        process.exit(0);
+    }
+
+    console.log(`Scheduler started: scraping ${state} every ${intervalMinutes} minutes. Ctrl+C to stop.`);
+    let timer: NodeJS.Timeout | null = null;
+
+    const stop = () => {
+        console.log('Stopping scheduler.');
+        if (timer) clearTimeout(timer);
+        process.exit(0);
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+
+    const tick = async () => {
+        try {
+            await runOnce();
+        } catch (err) {
+            // Keep the scheduler alive; the next run may succeed
+            console.error('Scheduled scrape failed:', err);
+        }
+        timer = setTimeout(tick, intervalMinutes * 60 * 1000);
+    };
+
+    await tick();
+}
+
+main().catch(err => {
+    console.error('Scrape failed:', err);
+    process.exit(1);
+});
@@ -0,0 +1,123 @@
+/*
+ * Tests: Alert Rules
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Runs `evaluateAlertRules` against pairs of markets built by hand, so the
+ * rules can be checked without MongoDB or any delivery channel.
+ *
+ * Logic & Reasoning:
+ * Rules fire on crossings, not levels: each case checks both that a move
+ * across the threshold fires and that staying on the same side doesn't, since
+ * a rule repeating on every refresh is the failure users would notice first.
+ * ----------------------------------------------------------------------------
+ */
+
+import './helpers/offline-db';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateAlertRules } from '@/lib/alerts';
+import { AlertRule, GameWithEV, PrizeTier } from '@/types/lottery';
+
+function tier(prizeValue: number, prizesRemaining: number): PrizeTier {
+    return {
+        prize: `$${prizeValue}`,
+        prizeValue,
+        odds: 100,
+        oddsText: '1 in 100',
+        prizesAtStart: 10,
+        prizesRemaining,
+    };
+}
+
+// Only the fields the rules read matter; the rest are filled with plausible values
+function game(gameNumber: string, evPerDollar: number, topPrizesLeft = 5): GameWithEV {
+    return {
+        name: `Game ${gameNumber}`,
+        state: 'MA',
+        gameNumber,
+        price: 10,
+        overallOdds: '1 in 4',
+        overallOddsValue: 4,
+        url: `https://example.com/${gameNumber}`,
+        prizeTiers: [tier(1000, topPrizesLeft), tier(20, 500)],
+        evPerDollar,
+    } as GameWithEV;
+}
+
+function rule(overrides: Partial<AlertRule>): AlertRule {
+    return {
+        id: 'rule-1',
+        owner: 'user-1',
+        state: 'MA',
+        type: 'ev-per-dollar',
+        threshold: 0.75,
+        channel: 'inbox',
+        enabled: true,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+const noWatchlists = new Map<string, string[]>();
+
+test('ev-per-dollar fires when EV per $ rises to the threshold', () => {
+    const drafts = evaluateAlertRules([rule({ gameNumber: '1' })], noWatchlists, [game('1', 0.7)], [game('1', 0.75)]);
+
+    assert.equal(drafts.length, 1);
+    assert.equal(drafts[0].gameNumber, '1');
+    assert.match(drafts[0].message, /rose above \$0\.75/);
+});
+
+test('ev-per-dollar does not fire again while EV per $ stays above the threshold', () => {
+    const drafts = evaluateAlertRules([rule({ gameNumber: '1' })], noWatchlists, [game('1', 0.8)], [game('1', 0.9)]);
+    assert.equal(drafts.length, 0);
+});
+
+test('ev-per-dollar "below" fires only when EV per $ drops under the threshold', () => {
+    const below = rule({ gameNumber: '1', direction: 'below' });
+
+    assert.equal(evaluateAlertRules([below], noWatchlists, [game('1', 0.8)], [game('1', 0.74)]).length, 1);
+    assert.equal(evaluateAlertRules([below], noWatchlists, [game('1', 0.7)], [game('1', 0.8)]).length, 0);
+});
+
+test('top-prizes-remaining fires when the count drops to the threshold', () => {
+    const topPrizes = rule({ gameNumber: '1', type: 'top-prizes-remaining', threshold: 2 });
+
+    const drafts = evaluateAlertRules([topPrizes], noWatchlists, [game('1', 0.7, 3)], [game('1', 0.7, 2)]);
+    assert.equal(drafts.length, 1);
+    assert.match(drafts[0].message, /2 top prizes left \(was 3\)/);
+
+    assert.equal(evaluateAlertRules([topPrizes], noWatchlists, [game('1', 0.7, 2)], [game('1', 0.7, 1)]).length, 0);
+});
+
+test('rules without a game cover the owner\'s watchlist only', () => {
+    const watchlists = new Map([['user-1', ['2']]]);
+    const drafts = evaluateAlertRules(
+        [rule({})],
+        watchlists,
+        [game('1', 0.7), game('2', 0.7)],
+        [game('1', 0.8), game('2', 0.8)]
+    );
+
+    assert.deepEqual(drafts.map(draft => draft.gameNumber), ['2']);
+});
+
+test('new-game fires for each game missing from the previous market', () => {
+    const newGame = rule({ type: 'new-game', threshold: undefined });
+    const drafts = evaluateAlertRules([newGame], noWatchlists, [game('1', 0.7)], [game('1', 0.7), game('3', 0.72)]);
+
+    assert.deepEqual(drafts.map(draft => draft.gameNumber), ['3']);
+    assert.match(drafts[0].message, /^New game: Game 3 \(\$10, EV per \$ \$0\.720\)/);
+});
+
+test('new-game stays quiet on the very first market', () => {
+    const newGame = rule({ type: 'new-game', threshold: undefined });
+    assert.equal(evaluateAlertRules([newGame], noWatchlists, [], [game('1', 0.7)]).length, 0);
+});
+
+test('disabled rules never fire', () => {
+    const drafts = evaluateAlertRules([rule({ gameNumber: '1', enabled: false })], noWatchlists, [game('1', 0.7)], [game('1', 0.8)]);
+    assert.equal(drafts.length, 0);
+});
@@ -0,0 +1,144 @@
+/*
+ * Tests: Game Export
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Checks the CSV escaping in lib/export.ts and that lib/xlsx.ts writes a zip
+ * whose entries can be read back with the cells that went in.
+ *
+ * Logic & Reasoning:
+ * Exported names come from scraped pages, so the CSV cases cover what could
+ * break a row (commas, quotes, line breaks) or run in a spreadsheet (leading
+ * =, +, - or @). The workbook is opened with a small reader written here from
+ * the zip layout, checking each entry's checksum and sizes the way an unzip
+ * tool would, rather than trusting the writer's own helpers.
+ * ----------------------------------------------------------------------------
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { inflateRawSync } from 'zlib';
+import { buildExportRows, exportHeaders, toCSV, toXLSX } from '@/lib/export';
+import { buildXlsx } from '@/lib/xlsx';
+import { GameWithEV } from '@/types/lottery';
+
+function crc32(data: Buffer): number {
+    let crc = ~0;
+    for (const byte of data) {
+        crc ^= byte;
+        for (let k = 0; k < 8; k++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+    }
+    return ~crc >>> 0;
+}
+
+// Read every file in a zip through its central directory
+function unzip(archive: Buffer): Map<string, string> {
+    const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    assert.ok(end >= 0, 'no end of central directory');
+    const count = archive.readUInt16LE(end + 10);
+    let entry = archive.readUInt32LE(end + 16);
+
+    const files = new Map<string, string>();
+    for (let i = 0; i < count; i++) {
+        assert.equal(archive.readUInt32LE(entry), 0x02014b50);
+        const crc = archive.readUInt32LE(entry + 16);
+        const compressedSize = archive.readUInt32LE(entry + 20);
+        const size = archive.readUInt32LE(entry + 24);
+        const nameLength = archive.readUInt16LE(entry + 28);
+        const localOffset = archive.readUInt32LE(entry + 42);
+        const name = archive.toString('utf8', entry + 46, entry + 46 + nameLength);
+
+        assert.equal(archive.readUInt32LE(localOffset), 0x04034b50, name);
+        const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+        const data = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+        assert.equal(data.length, size, name);
+        assert.equal(crc32(data), crc, name);
+
+        files.set(name, data.toString('utf8'));
+        entry += 46 + nameLength;
+    }
+    return files;
+}
+
+function game(fields: Partial<GameWithEV>): GameWithEV {
+    const base: Partial<GameWithEV> = {
+        gameNumber: '2301', name: 'Lucky 7s', state: 'MA', price: 10, overallOddsValue: 3.52,
+        currentEV: 7.25, netCurrentEV: -2.75, evPerDollar: 0.725, url: 'https://example.com/2301', prizeTiers: [],
+    };
+    return { ...base, ...fields } as GameWithEV;
+}
+
+test('plain values are written as-is, with CRLF line endings', () => {
+    assert.equal(toCSV([{ a: 'Lucky 7s', b: 10 }], ['a', 'b']), 'a,b\r\nLucky 7s,10\r\n');
+});
+
+test('commas, quotes and line breaks are quoted, with quotes doubled', () => {
+    const csv = toCSV([{ a: 'Cash, Cash, Cash', b: 'The "Big" One', c: 'two\nlines', d: 'cr\rlf' }], ['a', 'b', 'c', 'd']);
+    assert.equal(csv.split('\r\n')[1], '"Cash, Cash, Cash","The ""Big"" One","two\nlines","cr\rlf"');
+});
+
+test('text that a spreadsheet would run as a formula gets a leading apostrophe', () => {
+    const csv = toCSV([{ a: '=HYPERLINK("http://x")', b: '+1', c: '-cmd', d: '@SUM(A1)', e: 'ok=1' }], ['a', 'b', 'c', 'd', 'e']);
+    assert.equal(csv.split('\r\n')[1], `"'=HYPERLINK(""http://x"")",'+1,'-cmd,'@SUM(A1),ok=1`);
+});
+
+test('negative numbers stay numbers; missing and non-finite values are empty', () => {
+    const csv = toCSV([{ a: -2.75, b: null, c: NaN, d: Infinity }], ['a', 'b', 'c', 'd', 'e']);
+    assert.equal(csv.split('\r\n')[1], '-2.75,,,,');
+});
+
+test('tier rows repeat the game columns; games without tiers keep one row', () => {
+    const tiers = [
+        { prize: '$100', prizeValue: 100, odds: 50, oddsText: '1 in 50', prizesAtStart: 10, prizesRemaining: 4 },
+        { prize: 'Free Ticket', kind: 'free-ticket' as const, prizeValue: 10, odds: 8, oddsText: '1 in 8', prizesAtStart: 90, prizesRemaining: 60 },
+    ];
+    const rows = buildExportRows([game({ prizeTiers: tiers }), game({ gameNumber: '2302' })], { includeTiers: true });
+
+    assert.deepEqual(rows.map(row => [row.gameNumber, row.prize, row.prizeKind]), [
+        ['2301', '$100', null],
+        ['2301', 'Free Ticket', 'free-ticket'],
+        ['2302', null, null],
+    ]);
+    assert.deepEqual(Object.keys(rows[0]), exportHeaders({ includeTiers: true }));
+});
+
+test('after-tax columns only appear when asked for', () => {
+    assert.ok(!exportHeaders().includes('afterTaxEVPerDollar'));
+    assert.ok(exportHeaders({ afterTax: true }).includes('afterTaxEVPerDollar'));
+});
+
+test('the workbook is a readable zip with the expected parts', () => {
+    const files = unzip(buildXlsx([['name', 'price'], ['Lucky 7s', 10]], 'Games'));
+
+    assert.deepEqual([...files.keys()].sort(), [
+        '[Content_Types].xml', '_rels/.rels', 'xl/_rels/workbook.xml.rels', 'xl/workbook.xml', 'xl/worksheets/sheet1.xml',
+    ]);
+    assert.match(files.get('xl/workbook.xml')!, /<sheet name="Games" sheetId="1"/);
+});
+
+test('cells keep their type and text is escaped', () => {
+    const sheet = unzip(buildXlsx([['A & B <c> "d"', -2.5, null, 'bell\x07']])).get('xl/worksheets/sheet1.xml')!;
+
+    assert.match(sheet, /<c r="A1" t="inlineStr"><is><t xml:space="preserve">A &amp; B &lt;c&gt; &quot;d&quot;<\/t><\/is><\/c>/);
+    assert.match(sheet, /<c r="B1"><v>-2.5<\/v><\/c>/);
+    assert.doesNotMatch(sheet, /r="C1"/);
+    assert.match(sheet, /<c r="D1" t="inlineStr"><is><t xml:space="preserve">bell<\/t>/);
+});
+
+test('columns past Z are named AA, AB, ...', () => {
+    const row = Array.from({ length: 28 }, (_, i) => i);
+    const sheet = unzip(buildXlsx([row])).get('xl/worksheets/sheet1.xml')!;
+
+    assert.match(sheet, /<c r="Z1"><v>25<\/v><\/c><c r="AA1"><v>26<\/v><\/c><c r="AB1"><v>27<\/v><\/c>/);
+});
+
+test('the export sheet has the header row first, then one row per game', () => {
+    const headers = exportHeaders();
+    const rows = buildExportRows([game({}), game({ gameNumber: '2302', name: '=Win' })]);
+    const sheet = unzip(toXLSX(rows, headers)).get('xl/worksheets/sheet1.xml')!;
+
+    assert.equal(sheet.match(/<row /g)?.length, 3);
+    assert.match(sheet, /<c r="A1" t="inlineStr"><is><t xml:space="preserve">gameNumber<\/t>/);
+    assert.match(sheet, /<c r="B3" t="inlineStr"><is><t xml:space="preserve">=Win<\/t>/);
+});
@@ -0,0 +1,165 @@
+/*
+ * Tests: Game Query
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Checks the query params /api/games accepts (lib/game-query.ts) and how
+ * the games are filtered, sorted and paged with the keyset cursor.
+ *
+ * Logic & Reasoning:
+ * Paging is checked by walking every page and comparing against one unpaged
+ * query, for both orders and with ties in the sort field, since a cursor bug
+ * shows up as a game skipped or repeated at a page boundary. Games only need
+ * the fields the query reads, so they are built by hand.
+ * ----------------------------------------------------------------------------
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameQuery, MAX_QUERY_LIMIT, parseGameQuery, runGameQuery } from '@/lib/game-query';
+import { GameWithEV } from '@/types/lottery';
+
+function game(gameNumber: string, name: string, price: number, evPerDollar: number): GameWithEV {
+    const fields: Partial<GameWithEV> = {
+        name,
+        state: 'MA',
+        gameNumber,
+        price,
+        overallOdds: '1 in 4',
+        overallOddsValue: 4,
+        url: `https://example.com/${gameNumber}`,
+        prizeTiers: [],
+        evPerDollar,
+        netCurrentEV: price * evPerDollar - price,
+        estimatedRemainingTickets: 1000,
+    };
+    return fields as GameWithEV;
+}
+
+// Prices repeat so sorting by price needs the game number tie-break
+const market = [
+    game('105', 'Cash Blast', 5, 0.71),
+    game('102', 'Lucky 7s', 10, 0.74),
+    game('110', 'Gold Rush', 2, 0.62),
+    game('101', 'Diamond Deluxe', 10, 0.78),
+    game('120', 'Win Big', 5, 0.69),
+    game('103', 'Bingo', 1, 0.6),
+    game('104', 'Mega Money', 10, 0.72),
+];
+
+function parse(query: string): GameQuery {
+    const parsed = parseGameQuery(new URLSearchParams(query));
+    assert.ok('query' in parsed, 'error' in parsed ? parsed.error : '');
+    return parsed.query;
+}
+
+function parseError(query: string): string {
+    const parsed = parseGameQuery(new URLSearchParams(query));
+    assert.ok('error' in parsed, `expected "${query}" to be refused`);
+    return parsed.error;
+}
+
+// Follow nextCursor until the last page, returning every page's game numbers
+function allPages(query: string, limit: number): string[][] {
+    const pages: string[][] = [];
+    let cursor: string | null = null;
+    do {
+        const params: string = `${query}&limit=${limit}${cursor ? `&cursor=${cursor}` : ''}`;
+        const result = runGameQuery(market, parse(params));
+        pages.push(result.games.map(g => g.gameNumber));
+        cursor = result.nextCursor;
+    } while (cursor && pages.length <= market.length);
+    return pages;
+}
+
+test('defaults: sorted by name ascending, every game, no cursor', () => {
+    const result = runGameQuery(market, parse(''));
+
+    assert.equal(result.total, market.length);
+    assert.equal(result.matched, market.length);
+    assert.equal(result.nextCursor, null);
+    assert.deepEqual(result.games.map(g => g.name), [
+        'Bingo', 'Cash Blast', 'Diamond Deluxe', 'Gold Rush', 'Lucky 7s', 'Mega Money', 'Win Big',
+    ]);
+});
+
+test('ties in the sort field are broken by game number, in both orders', () => {
+    const asc = runGameQuery(market, parse('sort=price&order=asc')).games.map(g => g.gameNumber);
+    assert.deepEqual(asc, ['103', '110', '105', '120', '101', '102', '104']);
+
+    const desc = runGameQuery(market, parse('sort=price&order=desc')).games.map(g => g.gameNumber);
+    assert.deepEqual(desc, ['101', '102', '104', '105', '120', '110', '103']);
+});
+
+test('paging with the cursor returns every game exactly once, in order', () => {
+    for (const query of ['sort=price&order=asc', 'sort=price&order=desc', 'sort=evPerDollar&order=desc', 'sort=name']) {
+        const unpaged = runGameQuery(market, parse(query)).games.map(g => g.gameNumber);
+        for (const limit of [1, 2, 3, 7]) {
+            const pages = allPages(query, limit);
+            assert.deepEqual(pages.flat(), unpaged, `${query} limit=${limit}`);
+            assert.ok(pages.every(page => page.length <= limit));
+        }
+    }
+});
+
+test('the last page has no cursor', () => {
+    const result = runGameQuery(market, parse(`sort=price&limit=${market.length}`));
+    assert.equal(result.games.length, market.length);
+    assert.equal(result.nextCursor, null);
+});
+
+test('a game removed between pages doesn\'t shift the next page', () => {
+    const first = runGameQuery(market, parse('sort=price&limit=3'));
+    assert.deepEqual(first.games.map(g => g.gameNumber), ['103', '110', '105']);
+
+    // A refresh drops a game that was on the first page
+    const refreshed = market.filter(g => g.gameNumber !== '110');
+    const second = runGameQuery(refreshed, parse(`sort=price&limit=3&cursor=${first.nextCursor}`));
+    assert.deepEqual(second.games.map(g => g.gameNumber), ['120', '101', '102']);
+});
+
+test('filters apply before paging and are counted in matched', () => {
+    const result = runGameQuery(market, parse('minPrice=5&minEvPerDollar=0.7&sort=evPerDollar&order=desc&limit=2'));
+
+    assert.equal(result.total, market.length);
+    assert.equal(result.matched, 4);
+    assert.deepEqual(result.games.map(g => g.gameNumber), ['101', '102']);
+    assert.notEqual(result.nextCursor, null);
+});
+
+test('number params must be numbers', () => {
+    for (const name of ['minPrice', 'maxPrice', 'minEvPerDollar', 'minRemaining']) {
+        assert.equal(parseError(`${name}=abc`), `"${name}" must be a number`);
+        assert.equal(parseError(`${name}=`), `"${name}" must be a number`);
+        assert.equal(parseError(`${name}=Infinity`), `"${name}" must be a number`);
+    }
+    assert.equal(parse('minPrice=2.5').filters.minPrice, 2.5);
+});
+
+test('sort, order and limit are checked', () => {
+    assert.match(parseError('sort=bogus'), /^Unknown sort field/);
+    assert.equal(parseError('order=up'), '"order" must be "asc" or "desc"');
+    for (const limit of ['0', '-1', '1.5', 'ten', String(MAX_QUERY_LIMIT + 1)]) {
+        assert.match(parseError(`limit=${limit}`), /"limit" must be a whole number/, limit);
+    }
+    assert.equal(parse(`limit=${MAX_QUERY_LIMIT}`).limit, MAX_QUERY_LIMIT);
+});
+
+test('malformed cursors are refused', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    for (const cursor of [
+        'not-a-cursor',
+        Buffer.from('{broken').toString('base64url'),
+        encode({ value: 5, gameNumber: '101' }),
+        encode([5]),
+        encode([null, '101']),
+        encode([5, 101]),
+        encode([[5], '101']),
+    ]) {
+        assert.equal(parseError(`cursor=${cursor}`), 'Invalid "cursor"', cursor);
+    }
+
+    assert.deepEqual(parse(`cursor=${encode([5, '101'])}`).cursor, { value: 5, gameNumber: '101' });
+});
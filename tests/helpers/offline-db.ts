@@ -0,0 +1,4 @@
+// Modules that store data import db.ts, which refuses to load without MONGO_URI. Tests only call
+// their pure functions and nothing connects until a collection is used, so a placeholder will do.
+// Import this before any such module.
+process.env.MONGO_URI ??= 'mongodb://localhost:27017';
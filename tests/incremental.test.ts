@@ -0,0 +1,77 @@
+/*
+ * Tests: Incremental Scrape Planner
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Checks that the "as of" date the planner relies on is read from what the
+ * Massachusetts parser actually stores in `lastUpdated`, using the same saved
+ * pages as tests/massachusetts.test.ts.
+ *
+ * Logic & Reasoning:
+ * The normal fixture also shows a launch date earlier on the page. If
+ * `lastUpdated` held the whole page text again, its first date would be the
+ * launch date and every game would look stale (or, on launch day, fresh).
+ * ----------------------------------------------------------------------------
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseGameHtml } from '@/lib/scrapers/massachusetts';
+import { needsFullParse, parseAsOfDate } from '@/lib/incremental';
+import { StoredGameSnapshot } from '@/lib/game-store';
+
+const URL = 'https://www.masslottery.com/games/draw-and-instants/lucky-7s';
+const HOUR_MS = 60 * 60 * 1000;
+
+function parseFixture(name: string) {
+    const html = readFileSync(path.join(__dirname, 'fixtures', 'massachusetts', `${name}.html`), 'utf8');
+    const game = parseGameHtml(html, URL, 10);
+    assert.ok(game);
+    return game;
+}
+
+// The stored version of the normal fixture, last parsed `hoursAgo` before `now`
+function storedNormal(now: Date, hoursAgo: number): StoredGameSnapshot {
+    const parsedAt = new Date(now.getTime() - hoursAgo * HOUR_MS).toISOString();
+    return {
+        ...parseFixture('normal'),
+        updatedAt: parsedAt,
+        lastSeenAt: parsedAt,
+        lastParsedAt: parsedAt,
+        fingerprint: '',
+    } as StoredGameSnapshot;
+}
+
+const link = { name: 'Lucky 7s', url: URL, price: 10, gameNumber: '1234' };
+
+test('the as-of date is the "Last Updated" date, not the first date on the page', () => {
+    assert.deepEqual(parseAsOfDate(parseFixture('normal').lastUpdated), new Date(2025, 11, 5));
+});
+
+test('short "as of" dates are read as 20xx', () => {
+    assert.deepEqual(parseAsOfDate(parseFixture('free-ticket').lastUpdated), new Date(2026, 0, 9));
+});
+
+test('a page without a date gives no as-of date', () => {
+    assert.equal(parseAsOfDate(parseFixture('missing-claimed').lastUpdated), null);
+});
+
+test('counts from today are not re-parsed until the max age', () => {
+    const now = new Date(2025, 11, 5, 22);
+    assert.equal(needsFullParse(link, storedNormal(now, 8), now), false);
+    assert.equal(needsFullParse(link, storedNormal(now, 25), now), true);
+});
+
+test('counts from an earlier day are re-parsed after the recheck interval', () => {
+    const now = new Date(2025, 11, 6, 12);
+    assert.equal(needsFullParse(link, storedNormal(now, 2), now), false);
+    assert.equal(needsFullParse(link, storedNormal(now, 7), now), true);
+});
+
+test('a price change always means a re-parse', () => {
+    const now = new Date(2025, 11, 5, 22);
+    assert.equal(needsFullParse({ ...link, price: 20 }, storedNormal(now, 1), now), true);
+});
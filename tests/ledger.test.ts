@@ -0,0 +1,141 @@
+/*
+ * Tests: Ticket Ledger
+ * ----------------------------------------------------------------------------
+ * Responsible: Zaiyang Yu
+ *
+ * Description:
+ * Checks the pure parts of lib/ledger.ts: what a logged purchase must look
+ * like, and the totals and running ROI `summarizeLedger` builds from entries
+ * that already carry their prediction.
+ *
+ * Logic & Reasoning:
+ * The purchase date picks the snapshot a prediction comes from, so a date
+ * that parses as some other day would silently compare against the wrong
+ * market. Impossible dates get their own cases for that reason.
+ * ----------------------------------------------------------------------------
+ */
+
+import './helpers/offline-db';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LedgerEntryInput, summarizeLedger, validateLedgerEntryInput } from '@/lib/ledger';
+import { LedgerEntryWithEV } from '@/types/lottery';
+
+const validInput: LedgerEntryInput = {
+    state: 'MA',
+    gameNumber: '2301',
+    purchasedAt: '2026-01-31',
+    tickets: 2,
+    cost: 20,
+    prizeWon: 5,
+};
+
+// An entry with a prediction of `evPerDollar` (or none when null)
+function entry(
+    id: string,
+    purchasedAt: string,
+    cost: number,
+    prizeWon: number,
+    evPerDollar: number | null,
+    createdAt = `${purchasedAt}T12:00:00.000Z`
+): LedgerEntryWithEV {
+    const expectedValue = evPerDollar === null ? null : evPerDollar * cost;
+    return {
+        id,
+        owner: 'user-1',
+        state: 'MA',
+        gameNumber: '2301',
+        gameName: 'Lucky 7s',
+        purchasedAt,
+        tickets: 1,
+        cost,
+        prizeWon,
+        createdAt,
+        snapshotUpdatedAt: evPerDollar === null ? null : `${purchasedAt}T00:00:00.000Z`,
+        snapshotAfterPurchase: false,
+        evPerDollar,
+        expectedValue,
+        realizedROI: (prizeWon - cost) / cost,
+        expectedROI: expectedValue === null ? null : (expectedValue - cost) / cost,
+    };
+}
+
+test('a complete purchase is valid', () => {
+    assert.equal(validateLedgerEntryInput(validInput), null);
+    assert.equal(validateLedgerEntryInput({ ...validInput, purchasedAt: '2024-02-29', note: 'leap day' }), null);
+});
+
+test('the body must be an object', () => {
+    assert.equal(validateLedgerEntryInput(null), 'Body must be a JSON object');
+});
+
+test('impossible and malformed dates are refused', () => {
+    for (const purchasedAt of ['2026-02-31', '2025-02-29', '2026-04-31', '2026-13-01', '2026-1-31', 'yesterday']) {
+        assert.equal(
+            validateLedgerEntryInput({ ...validInput, purchasedAt }),
+            '"purchasedAt" must be a date like 2026-01-31',
+            purchasedAt
+        );
+    }
+});
+
+test('future dates are refused', () => {
+    const nextYear = `${new Date().getUTCFullYear() + 1}-01-01`;
+    assert.equal(validateLedgerEntryInput({ ...validInput, purchasedAt: nextYear }), '"purchasedAt" can\'t be in the future');
+});
+
+test('tickets, cost and prize won must be sensible numbers', () => {
+    assert.match(validateLedgerEntryInput({ ...validInput, tickets: 1.5 }) ?? '', /"tickets"/);
+    assert.match(validateLedgerEntryInput({ ...validInput, tickets: 0 }) ?? '', /"tickets"/);
+    assert.match(validateLedgerEntryInput({ ...validInput, cost: 0 }) ?? '', /"cost"/);
+    assert.match(validateLedgerEntryInput({ ...validInput, prizeWon: -1 }) ?? '', /"prizeWon"/);
+    assert.match(validateLedgerEntryInput({ ...validInput, note: 'x'.repeat(10_000) }) ?? '', /"note"/);
+});
+
+test('running ROI: one timeline point per day, totals carried forward', () => {
+    const summary = summarizeLedger([
+        entry('c', '2026-01-03', 10, 0, 0.7),
+        entry('a', '2026-01-01', 20, 30, 0.6),
+        entry('b', '2026-01-01', 10, 0, 0.6, '2026-01-01T18:00:00.000Z'),
+    ]);
+
+    // Newest purchase first
+    assert.deepEqual(summary.entries.map(e => e.id), ['c', 'b', 'a']);
+
+    assert.equal(summary.timeline.length, 2);
+    const [day1, day3] = summary.timeline;
+    assert.equal(day1.date, '2026-01-01');
+    assert.equal(day1.cost, 30);
+    assert.equal(day1.prizeWon, 30);
+    assert.equal(day1.realizedROI, 0);
+    assert.ok(Math.abs(day1.expectedValue - 18) < 1e-9);
+    assert.ok(Math.abs(day1.expectedROI! - -0.4) < 1e-9);
+
+    assert.equal(day3.cost, 40);
+    assert.equal(day3.realizedROI, -0.25);
+    assert.ok(Math.abs(day3.expectedROI! - (25 - 40) / 40) < 1e-9);
+
+    assert.equal(summary.totals.tickets, 3);
+    assert.equal(summary.totals.cost, 40);
+    assert.equal(summary.totals.prizeWon, 30);
+    assert.equal(summary.totals.predictedCost, 40);
+});
+
+test('entries without a prediction count toward realized ROI only', () => {
+    const summary = summarizeLedger([
+        entry('a', '2026-01-01', 10, 0, null),
+        entry('b', '2026-01-02', 10, 20, 0.5),
+    ]);
+
+    assert.equal(summary.timeline[0].expectedROI, null);
+    assert.equal(summary.totals.predictedCost, 10);
+    assert.equal(summary.totals.expectedROI, -0.5);
+    assert.equal(summary.totals.realizedROI, 0);
+});
+
+test('an empty ledger has zero ROI and no timeline', () => {
+    const summary = summarizeLedger([]);
+    assert.deepEqual(summary.timeline, []);
+    assert.equal(summary.totals.realizedROI, 0);
+    assert.equal(summary.totals.expectedROI, null);
+});
@@ -0,0 +1,107 @@
+/*
+ * Tests: Massachusetts Game Page Parser
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * Runs `parseGameHtml` against saved game pages in fixtures/massachusetts, so
+ * a change to the parser (or a new copy of a page after a site redesign) can
+ * be checked with no network and no browser.
+ *
+ * Logic & Reasoning:
+ * The fixtures keep only the parts of a rendered page the parser reads (title,
+ * game details, prize table) plus a little surrounding markup, in the layout
+ * the parser expects: prize and odds run together in the first cell, counts in
+ * the second. Each covers one case that used to break parsing.
+ * ----------------------------------------------------------------------------
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseGameHtml } from '@/lib/scrapers/massachusetts';
+
+const URL_BASE = 'https://www.masslottery.com/games/draw-and-instants';
+
+function fixture(name: string): string {
+    return readFileSync(path.join(__dirname, 'fixtures', 'massachusetts', `${name}.html`), 'utf8');
+}
+
+test('normal page: name, tiers, overall odds and last updated', () => {
+    const game = parseGameHtml(fixture('normal'), `${URL_BASE}/lucky-7s`, 10);
+    assert.ok(game);
+
+    assert.equal(game.name, 'Lucky 7s');
+    assert.equal(game.gameNumber, 'lucky-7s');
+    assert.equal(game.price, 10);
+    assert.equal(game.prizeTiers.length, 4);
+    assert.deepEqual(
+        game.prizeTiers.map(tier => [tier.prize, tier.odds, tier.prizesAtStart, tier.prizesRemaining]),
+        [
+            ['$1,000,000', 2000000, 2, 2],
+            ['$10,000', 120000, 30, 18],
+            ['$100', 300, 12000, 4550],
+            ['$20', 10, 360000, 159000],
+        ]
+    );
+    assert.equal(game.prizeTiers[0].prizeValue, 1000000);
+});
+
+test('normal page: overall odds come from their label, not the prize table or scripts before it', () => {
+    const game = parseGameHtml(fixture('normal'), `${URL_BASE}/lucky-7s`, 10);
+    assert.ok(game);
+
+    assert.equal(game.overallOdds, '1 in 3.52');
+    assert.equal(game.overallOddsValue, 3.52);
+});
+
+test('normal page: last updated is just the label and date, not the page text', () => {
+    const game = parseGameHtml(fixture('normal'), `${URL_BASE}/lucky-7s`, 10);
+    assert.ok(game);
+
+    assert.equal(game.lastUpdated, 'Last Updated: 12/05/2025');
+});
+
+test('"Free Ticket" prizes are kept and worth the ticket price', () => {
+    const game = parseGameHtml(fixture('free-ticket'), `${URL_BASE}/cash-blast`, 5);
+    assert.ok(game);
+
+    assert.equal(game.prizeTiers.length, 2);
+    const free = game.prizeTiers[1];
+    assert.equal(free.prize, 'Free Ticket');
+    assert.equal(free.kind, 'free-ticket');
+    assert.equal(free.odds, 8);
+    assert.equal(free.prizeValue, 5);
+
+    // Overall odds in a <dt>/<dd> pair, "as of" date in short form
+    assert.equal(game.overallOdds, '1 in 4.20');
+    assert.equal(game.lastUpdated, 'as of 1/9/26');
+});
+
+test('tiers without a claimed count still parse', () => {
+    const game = parseGameHtml(fixture('missing-claimed'), `${URL_BASE}/gold-rush`, 2);
+    assert.ok(game);
+
+    assert.deepEqual(
+        game.prizeTiers.map(tier => [tier.prize, tier.prizesAtStart, tier.prizesRemaining]),
+        [['$5,000', 25, 9], ['$50', 8000, 3100]]
+    );
+    assert.equal(game.overallOdds, '1 in 3.85');
+    // No "Last Updated" on this page
+    assert.equal(game.lastUpdated, '');
+});
+
+test('malformed odds: bad tiers are skipped and overall odds fall back to 1 in 1', () => {
+    const game = parseGameHtml(fixture('malformed-odds'), `${URL_BASE}/win-big`, 20);
+    assert.ok(game);
+
+    assert.deepEqual(game.prizeTiers.map(tier => tier.prize), ['$1,000']);
+    assert.equal(game.overallOdds, '1 in 1');
+    assert.equal(game.overallOddsValue, 1);
+});
+
+test('a page without a prize table gives null', () => {
+    const html = '<html><head><title>Redesigned | Mass Lottery</title></head><body><div>Overall Odds: 1 in 4</div></body></html>';
+    assert.equal(parseGameHtml(html, `${URL_BASE}/redesigned`, 5), null);
+});
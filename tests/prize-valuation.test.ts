@@ -0,0 +1,132 @@
+/*
+ * Tests: Prize Valuation & Taxes
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * Checks how prize labels are classified and valued (lib/prize-valuation.ts)
+ * and what the tax model withholds (lib/ev-calculator.ts). Every EV figure in
+ * the app is built on these prize values.
+ *
+ * Logic & Reasoning:
+ * Present value is checked against the payments discounted one by one rather
+ * than the closed-form formula the library uses, so a slip in that formula
+ * can't be repeated in the test.
+ * ----------------------------------------------------------------------------
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyPrize, parseDollarAmount, PrizeValuationModel, valuePrize } from '@/lib/prize-valuation';
+import { afterTaxPrizeValue, getTaxModel } from '@/lib/ev-calculator';
+import { PrizeTier } from '@/types/lottery';
+
+const TICKET_PRICE = 5;
+
+const model: PrizeValuationModel = { annuity: 'cash-option', cashOptionRate: 0.6, discountRate: 0.04, lifeYears: 20 };
+
+// Classify a label and value it on a $5 game
+function value(prize: string, valuation: PrizeValuationModel = model): number {
+    const tier: PrizeTier = { prize, prizeValue: 0, odds: 10, oddsText: '1 in 10', prizesAtStart: 1, prizesRemaining: 1, ...classifyPrize(prize) };
+    return valuePrize(tier, TICKET_PRICE, valuation);
+}
+
+function assertClose(actual: number, expected: number) {
+    assert.ok(Math.abs(actual - expected) < 1e-6, `expected ${expected}, got ${actual}`);
+}
+
+test('dollar amounts with commas and suffixes', () => {
+    assert.equal(parseDollarAmount('$250,000'), 250000);
+    assert.equal(parseDollarAmount('$4M Annuity'), 4_000_000);
+    assert.equal(parseDollarAmount('$1.5 Million'), 1_500_000);
+    assert.equal(parseDollarAmount('Free Ticket'), 0);
+});
+
+test('plain cash is worth its face value', () => {
+    assert.deepEqual(classifyPrize('$1,000'), { kind: 'cash', faceValue: 1000 });
+    assert.equal(value('$1,000'), 1000);
+});
+
+test('a free ticket with no amount is worth the game\'s price', () => {
+    assert.deepEqual(classifyPrize('Free Ticket'), { kind: 'free-ticket', faceValue: 0 });
+    assert.equal(value('Free Ticket'), TICKET_PRICE);
+});
+
+test('a ticket with a stated amount is worth that amount', () => {
+    assert.deepEqual(classifyPrize('$10 Ticket'), { kind: 'free-ticket', faceValue: 10 });
+    assert.equal(value('$10 Ticket'), 10);
+});
+
+test('cash plus a free ticket is worth both', () => {
+    assert.deepEqual(classifyPrize('$50 + Free Ticket'), { kind: 'cash', faceValue: 50, plusFreeTicket: true });
+    assert.equal(value('$50 + Free Ticket'), 50 + TICKET_PRICE);
+    assert.equal(value('Ticket + $20'), 20 + TICKET_PRICE);
+    assert.equal(value('$100 and a Free Ticket'), 100 + TICKET_PRICE);
+});
+
+test('merchandise uses its stated value, or nothing', () => {
+    assert.deepEqual(classifyPrize('Motorcycle'), { kind: 'merchandise', faceValue: 0 });
+    assert.equal(value('Motorcycle'), 0);
+    assert.equal(value('Car worth $30,000'), 30000);
+});
+
+test('periodic annuities: schedule and face value', () => {
+    const forLife = classifyPrize('$1,000/Week for Life');
+    assert.equal(forLife.kind, 'annuity');
+    assert.deepEqual(forLife.annuity, { payment: 1000, paymentsPerYear: 52, years: null });
+
+    const fixed = classifyPrize('$25,000 a Year for 25 Years');
+    assert.deepEqual(fixed.annuity, { payment: 25000, paymentsPerYear: 1, years: 25 });
+    assert.equal(fixed.faceValue, 625000);
+});
+
+test('annuities under each valuation model', () => {
+    // "$4M Annuity": 20 yearly payments of $200,000
+    assert.equal(value('$4M Annuity'), 4_000_000 * 0.6);
+    assert.equal(value('$4M Annuity', { ...model, annuity: 'face-value' }), 4_000_000);
+
+    // For life uses lifeYears
+    assert.equal(value('$1,000/Week for Life', { ...model, annuity: 'face-value', lifeYears: 10 }), 1000 * 52 * 10);
+});
+
+test('present value discounts each payment, the first one paid right away', () => {
+    const presentValue = { ...model, annuity: 'present-value' as const };
+
+    let expected = 0;
+    for (let k = 0; k < 20; k++) expected += 200_000 / Math.pow(1.04, k);
+    assertClose(value('$4M Annuity', presentValue), expected);
+
+    let weekly = 0;
+    for (let k = 0; k < 52 * 20; k++) weekly += 1000 / Math.pow(1 + 0.04 / 52, k);
+    assertClose(value('$1,000/Week for Life', presentValue), weekly);
+
+    // No discounting at a 0% rate
+    assert.equal(value('$4M Annuity', { ...presentValue, discountRate: 0 }), 4_000_000);
+});
+
+test('tax model: withholding only above each threshold', () => {
+    const tax = { federalRate: 0.24, federalThreshold: 5000, stateRate: 0.05, stateThreshold: 600 };
+
+    assert.equal(afterTaxPrizeValue(600, tax), 600);
+    assertClose(afterTaxPrizeValue(601, tax), 601 * 0.95);
+    assertClose(afterTaxPrizeValue(5000, tax), 5000 * 0.95);
+    assertClose(afterTaxPrizeValue(10_000, tax), 10_000 * (1 - 0.24 - 0.05));
+});
+
+test('tax model defaults and environment overrides', () => {
+    const saved = { ...process.env };
+    try {
+        for (const name of ['TAX_FEDERAL_RATE', 'TAX_FEDERAL_THRESHOLD', 'TAX_STATE_RATE', 'TAX_STATE_THRESHOLD']) {
+            delete process.env[name];
+        }
+        assert.deepEqual(getTaxModel(), { federalRate: 0.24, federalThreshold: 5000, stateRate: 0.05, stateThreshold: 600 });
+
+        process.env.TAX_FEDERAL_RATE = '0.22';
+        process.env.TAX_STATE_THRESHOLD = '0';
+        const custom = getTaxModel();
+        assert.equal(custom.federalRate, 0.22);
+        assert.equal(custom.stateThreshold, 0);
+    } finally {
+        process.env = saved;
+    }
+});
@@ -0,0 +1,134 @@
+/*
+ * Tests: Bankroll Simulator
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * Checks how lib/simulator.ts spends a budget and that a seeded simulation
+ * is reproducible, stays within its limits and agrees with the analytic EV.
+ *
+ * Logic & Reasoning:
+ * `allocateBudget` buys whole rounds at once as a shortcut, so it is checked
+ * against the plain one-ticket-at-a-time loop it replaces. Simulations use a
+ * small seeded generator (mulberry32) so every run sees the same draws.
+ * ----------------------------------------------------------------------------
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { allocateBudget, MAX_TICKETS, simulateBankroll } from '@/lib/simulator';
+import { GameWithEV, PrizeTier, SimulationSelection } from '@/types/lottery';
+
+// Small deterministic PRNG returning numbers in [0, 1)
+function mulberry32(seed: number): () => number {
+    let a = seed;
+    return () => {
+        a = (a + 0x6D2B79F5) | 0;
+        let t = Math.imul(a ^ (a >>> 15), 1 | a);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function tier(prizeValue: number, prizesRemaining: number): PrizeTier {
+    return { prize: `$${prizeValue}`, prizeValue, odds: 10, oddsText: '1 in 10', prizesAtStart: prizesRemaining, prizesRemaining };
+}
+
+// A game with 1,000 tickets left whose EV per ticket is sum(value x remaining) / 1,000
+function game(gameNumber: string, price: number, prizeTiers: PrizeTier[] = [tier(price * 2, 300), tier(price * 10, 10)]): GameWithEV {
+    const estimatedRemainingTickets = 1000;
+    const currentEV = prizeTiers.reduce((sum, t) => sum + t.prizeValue * t.prizesRemaining, 0) / estimatedRemainingTickets;
+    const fields: Partial<GameWithEV> = { name: `Game ${gameNumber}`, gameNumber, price, prizeTiers, estimatedRemainingTickets, currentEV };
+    return fields as GameWithEV;
+}
+
+// The allocation rule spelled out: one ticket of each affordable game per pass
+function allocateOneAtATime(games: GameWithEV[], budget: number): Map<string, number> {
+    const quantities = new Map<string, number>();
+    let remaining = budget;
+    for (let bought = true; bought;) {
+        bought = false;
+        for (const g of games) {
+            if (g.price > 0 && g.price <= remaining) {
+                quantities.set(g.gameNumber, (quantities.get(g.gameNumber) ?? 0) + 1);
+                remaining -= g.price;
+                bought = true;
+            }
+        }
+    }
+    return quantities;
+}
+
+function quantities(selections: SimulationSelection[]): Map<string, number> {
+    return new Map(selections.map(s => [s.game.gameNumber, s.quantity]));
+}
+
+test('a budget is spread round-robin until nothing else is affordable', () => {
+    const selections = allocateBudget([game('1', 1), game('2', 5), game('3', 10)], 40);
+
+    // Two full rounds ($32), then $8 left: the $5 and three more $1 tickets
+    assert.deepEqual(quantities(selections), new Map([['1', 5], ['2', 3], ['3', 2]]));
+    assert.ok(selections.reduce((sum, s) => sum + s.game.price * s.quantity, 0) <= 40);
+});
+
+test('budget allocation matches buying one ticket at a time', () => {
+    const rng = mulberry32(7);
+    const games = [game('1', 1), game('2', 2), game('3', 5), game('4', 10), game('5', 30)];
+    for (let i = 0; i < 200; i++) {
+        const chosen = games.filter(() => rng() < 0.6);
+        const budget = Math.floor(rng() * 500);
+        assert.deepEqual(quantities(allocateBudget(chosen, budget)), allocateOneAtATime(chosen, budget), `budget ${budget}`);
+    }
+});
+
+test('free and unaffordable games get no tickets', () => {
+    assert.deepEqual(quantities(allocateBudget([game('1', 0), game('2', 5)], 12)), new Map([['2', 2]]));
+    assert.deepEqual(allocateBudget([game('1', 20)], 10), []);
+});
+
+test('the same seed gives the same simulation', () => {
+    const selections = [{ game: game('1', 5), quantity: 10 }, { game: game('2', 10), quantity: 3 }];
+
+    const first = simulateBankroll(selections, 2000, mulberry32(42));
+    const second = simulateBankroll(selections, 2000, mulberry32(42));
+    assert.deepEqual(first, second);
+
+    const other = simulateBankroll(selections, 2000, mulberry32(43));
+    assert.notDeepEqual(other.percentiles, first.percentiles);
+});
+
+test('the simulated mean lands near the analytic EV', () => {
+    const selections = [{ game: game('1', 5), quantity: 20 }];
+    const result = simulateBankroll(selections, 20_000, mulberry32(1));
+
+    assert.equal(result.totalCost, 100);
+    // EV per ticket: ($10 x 300 + $50 x 10) / 1,000 = $3.50
+    assert.ok(Math.abs(result.expectedNet - (20 * 3.5 - 100)) < 1e-9);
+    assert.ok(Math.abs(result.meanNet - result.expectedNet) < 1, `mean ${result.meanNet}`);
+    assert.equal(result.histogram.reduce((sum, b) => sum + b.count, 0), result.trials);
+    assert.ok(result.percentiles.p5 <= result.percentiles.p50 && result.percentiles.p50 <= result.percentiles.p95);
+});
+
+test('tier hit odds are exact, not sampled', () => {
+    const result = simulateBankroll([{ game: game('1', 5), quantity: 4 }], 10, mulberry32(1));
+    const top = result.tierOdds.find(t => t.prize === '$50');
+
+    assert.ok(top);
+    assert.ok(Math.abs(top.hitProbability - (1 - Math.pow(1 - 10 / 1000, 4))) < 1e-12);
+});
+
+test('trials are cut so a big bundle stays quick, and oversized bundles throw', () => {
+    const big = simulateBankroll([{ game: game('1', 1), quantity: MAX_TICKETS }], 100_000, mulberry32(1));
+    assert.equal(big.trials, 500);
+
+    assert.throws(
+        () => simulateBankroll([{ game: game('1', 1), quantity: MAX_TICKETS + 1 }], 10, mulberry32(1)),
+        /at most/
+    );
+});
+
+test('an empty bundle runs no trials', () => {
+    const result = simulateBankroll([{ game: game('1', 5), quantity: 0 }], 1000, mulberry32(1));
+    assert.equal(result.trials, 0);
+    assert.deepEqual(result.histogram, []);
+});
@@ -0,0 +1,148 @@
+/*
+ * Tests: Game Data Validation
+ * ----------------------------------------------------------------------------
+ * Responsible: Natalie King
+ *
+ * Description:
+ * Checks what lib/validation.ts rejects, what it repairs and the issues it
+ * reports for each, using small hand-built games.
+ *
+ * Logic & Reasoning:
+ * Every case starts from one valid game and breaks a single thing, so a
+ * failure points at one rule. The valid game's overall odds agree with its
+ * tiers, so it comes back without warnings.
+ * ----------------------------------------------------------------------------
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateGame, validateGames } from '@/lib/validation';
+import { LotteryGame, PrizeTier, ValidationIssueCode } from '@/types/lottery';
+
+function tier(prize: string, prizeValue: number, odds: number, prizesAtStart: number, prizesRemaining: number): PrizeTier {
+    return { prize, prizeValue, odds, oddsText: `1 in ${odds}`, prizesAtStart, prizesRemaining };
+}
+
+function validGame(overrides: Partial<LotteryGame> = {}): LotteryGame {
+    return {
+        name: 'Lucky 7s',
+        state: 'MA',
+        gameNumber: '2301',
+        price: 5,
+        overallOdds: '1 in 4.50',
+        overallOddsValue: 4.5,
+        url: 'https://example.com/2301',
+        prizeTiers: [
+            tier('$10,000', 10000, 200000, 10, 4),
+            tier('$100', 100, 1000, 2000, 900),
+            tier('$5', 5, 5, 400000, 150000),
+        ],
+        ...overrides,
+    };
+}
+
+function withTier(index: number, changes: Partial<PrizeTier>): LotteryGame {
+    const game = validGame();
+    game.prizeTiers = game.prizeTiers.map((t, i) => i === index ? { ...t, ...changes } : t);
+    return game;
+}
+
+function codes(issues: { code: ValidationIssueCode }[]): ValidationIssueCode[] {
+    return issues.map(issue => issue.code);
+}
+
+test('a valid game passes unchanged with no issues', () => {
+    const input = validGame();
+    const { game, issues } = validateGame(input);
+
+    assert.deepEqual(issues, []);
+    assert.deepEqual(game, input);
+    assert.equal(game?.validationWarnings, undefined);
+});
+
+test('a game without a price is rejected', () => {
+    for (const price of [0, NaN, -5]) {
+        const { game, issues } = validateGame(validGame({ price }));
+        assert.equal(game, null);
+        assert.deepEqual(codes(issues), ['missing-price']);
+        assert.equal(issues[0].severity, 'error');
+    }
+});
+
+test('a game with no usable tiers is rejected', () => {
+    const { game, issues } = validateGame(validGame({ prizeTiers: [tier('$5', 5, 0, 100, 50)] }));
+
+    assert.equal(game, null);
+    assert.deepEqual(codes(issues), ['invalid-tier', 'no-prize-tiers']);
+});
+
+test('more remaining than at start is capped at the start count', () => {
+    const { game, issues } = validateGame(withTier(0, { prizesRemaining: 12 }));
+
+    assert.equal(game?.prizeTiers[0].prizesRemaining, 10);
+    assert.deepEqual(codes(issues), ['remaining-exceeds-start']);
+    assert.deepEqual(game?.validationWarnings, issues);
+});
+
+test('negative remaining counts are raised to zero', () => {
+    const { game, issues } = validateGame(withTier(1, { prizesRemaining: -3 }));
+
+    assert.equal(game?.prizeTiers[1].prizesRemaining, 0);
+    assert.deepEqual(codes(issues), ['negative-remaining']);
+});
+
+test('tiers with no value, odds or starting prizes are dropped', () => {
+    for (const changes of [{ prizeValue: 0 }, { odds: 0 }, { prizesAtStart: -1 }]) {
+        const { game, issues } = validateGame(withTier(0, changes));
+
+        assert.deepEqual(game?.prizeTiers.map(t => t.prize), ['$100', '$5']);
+        assert.ok(codes(issues).includes('invalid-tier'));
+    }
+});
+
+test('merchandise without a value is dropped with its own message', () => {
+    const { issues } = validateGame(withTier(0, { prize: 'Motorcycle', kind: 'merchandise', prizeValue: 0 }));
+    assert.match(issues[0].message, /merchandise prize with no stated cash value/);
+});
+
+test('a free ticket valued at $0 is valued at the ticket price', () => {
+    const { game, issues } = validateGame(withTier(2, { prize: 'Free Ticket', kind: 'free-ticket', prizeValue: 0 }));
+
+    assert.equal(game?.prizeTiers[2].prizeValue, 5);
+    assert.deepEqual(codes(issues), ['zero-value-prize']);
+});
+
+test('missing overall odds are derived from the tiers', () => {
+    const { game, issues } = validateGame(validGame({ overallOdds: '1 in 1', overallOddsValue: 1 }));
+
+    assert.deepEqual(codes(issues), ['default-overall-odds']);
+    assert.ok(game && game.overallOddsValue > 4.9 && game.overallOddsValue < 5);
+    assert.equal(game.overallOdds, `1 in ${game.overallOddsValue.toFixed(2)}`);
+});
+
+test('overall odds much longer than the tiers allow are replaced', () => {
+    const { issues } = validateGame(validGame({ overallOdds: '1 in 999', overallOddsValue: 999 }));
+    assert.deepEqual(codes(issues), ['mismatched-overall-odds']);
+});
+
+test('a fully claimed game is kept with a warning', () => {
+    const game = validGame();
+    game.prizeTiers = game.prizeTiers.map(t => ({ ...t, prizesRemaining: 0 }));
+
+    assert.deepEqual(codes(validateGame(game).issues), ['no-prizes-remaining']);
+});
+
+test('input games are never changed', () => {
+    const input = withTier(0, { prizesRemaining: 12 });
+    const copy = structuredClone(input);
+    validateGame(input);
+    assert.deepEqual(input, copy);
+});
+
+test('batches split into kept and rejected games', () => {
+    const report = validateGames([validGame(), validGame({ gameNumber: '2302', price: 0 })]);
+
+    assert.deepEqual(report.games.map(g => g.gameNumber), ['2301']);
+    assert.deepEqual(report.rejected.map(r => r.game.gameNumber), ['2302']);
+    assert.deepEqual(codes(report.rejected[0].issues), ['missing-price']);
+});
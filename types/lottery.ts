@@ -14,17 +14,33 @@
  * ----------------------------------------------------------------------------
  */
 
+import type { Page } from 'puppeteer';
+
+export type PrizeKind = 'cash' | 'free-ticket' | 'annuity' | 'merchandise';
+
+// Payment schedule of an annuity prize, e.g. $1,000 a week for life
+export interface AnnuityTerms {
+    payment: number;
+    paymentsPerYear: number;
+    years: number | null; // null = for life
+}
+
 export interface PrizeTier {
     prize: string;
-    prizeValue: number;
+    prizeValue: number; // Dollar value used for EV, from the valuation model in lib/prize-valuation.ts
     odds: number;
     oddsText: string;
     prizesAtStart: number;
     prizesRemaining: number;
+    kind?: PrizeKind; // Missing on games stored before prize kinds; prizeValue is then used as-is
+    faceValue?: number; // Advertised amount; for annuities, every payment added up
+    annuity?: AnnuityTerms;
+    plusFreeTicket?: boolean; // Cash prize that comes with a free ticket, e.g. "$50 + Free Ticket"
 }
 
 export interface LotteryGame {
     name: string;
+    state: string; // Two-letter state code, e.g. "MA"
     gameNumber: string;
     price: number;
     overallOdds: string;
@@ -32,8 +48,110 @@ export interface LotteryGame {
     url: string;
     prizeTiers: PrizeTier[];
     lastUpdated?: string;
+    validationWarnings?: ValidationIssue[]; // Problems lib/validation.ts repaired; the row may be suspect
+}
+
+// Problems the validation step can find in a scraped game (see lib/validation.ts)
+export type ValidationIssueCode =
+    | 'missing-price'
+    | 'default-overall-odds'
+    | 'mismatched-overall-odds'
+    | 'remaining-exceeds-start'
+    | 'negative-remaining'
+    | 'zero-value-prize'
+    | 'invalid-tier'
+    | 'no-prize-tiers'
+    | 'no-prizes-remaining';
+
+export interface ValidationIssue {
+    severity: 'error' | 'warning'; // error = game rejected; warning = repaired or just suspicious
+    code: ValidationIssueCode;
+    message: string;
+    prize?: string; // Tier label, when the issue is about one tier
+}
+
+export interface GameValidation {
+    game: LotteryGame | null; // Repaired game, or null if it was rejected
+    issues: ValidationIssue[];
+}
+
+// A game as listed on a state's index page, before its detail page is parsed
+export interface GameLink {
+    name: string;
+    url: string;
+    price: number;
+    gameNumber: string;
+}
+
+// Shared resources for one scrape run, handed to adapters by lib/scraper.ts
+export interface ScrapeContext {
+    // Borrow a tab from the run's shared browser (retried with backoff on timeouts)
+    withPage<T>(fn: (page: Page) => Promise<T>): Promise<T>;
+}
+
+// Adapter implemented once per state lottery site. Everything downstream
+// (EV calculator, API, UI) only ever sees LotteryGame, so adding a state
+// means writing one of these and registering it in lib/scraper.ts.
+// Both methods throw on network/parse failures so the run can record them;
+// parseGamePage returns null only when the page has no prize tiers.
+export interface LotteryScraper {
+    state: string;
+    name: string;
+    listGames(): Promise<GameLink[]>;
+    parseGamePage(link: GameLink, context: ScrapeContext): Promise<LotteryGame | null>;
+}
+
+// A game page that failed to load or parse during a scrape run
+export interface ScrapeError {
+    url: string;
+    name: string;
+    message: string;
 }
 
+// Who started a scrape run: the API's background refresh, its live fallback, or the CLI
+export type ScrapeTrigger = 'background' | 'live' | 'cli';
+
+export type ScrapeRunStatus = 'running' | 'success' | 'partial' | 'failed';
+
+// Audit record of one scrape run (see lib/scrape-runs.ts)
+export interface ScrapeRun {
+    id: string;
+    state: string;
+    trigger: ScrapeTrigger;
+    status: ScrapeRunStatus; // partial = finished, but some games failed or had no prize tiers
+    startedAt: string;
+    finishedAt: string | null; // null while running, or if the process died mid-run
+    gamesListed: number;
+    gamesSkipped: number; // Carried forward by an incremental refresh
+    gamesParsed: number;
+    noTierGames: { url: string; name: string }[];
+    errors: ScrapeError[];
+    error?: string; // Why the whole run failed, e.g. the game list couldn't be fetched
+}
+
+// A game that has failed to parse in several recent runs
+export interface ScrapeFailureSummary {
+    url: string;
+    name: string;
+    failedRuns: number; // Runs with an error or no prize tiers for this game
+    totalRuns: number; // Runs looked at
+    lastMessage: string;
+}
+
+export interface HealthStatus {
+    status: 'ok' | 'stale' | 'degraded' | 'down';
+    state: string;
+    database: 'up' | 'down';
+    dataUpdatedAt: string | null;
+    dataAgeMinutes: number | null;
+    staleAfterMinutes: number;
+    lastRun: ScrapeRun | null;
+    lastSuccessfulRunAt: string | null;
+}
+
+// How the calculator estimates tickets printed/remaining (see lib/ticket-estimators.ts)
+export type EstimationMethod = 'median' | 'lowest-tier' | 'overall-odds' | 'weighted-least-squares';
+
 export interface GameWithEV extends LotteryGame {
     initialEV: number;
     currentEV: number;
@@ -42,4 +160,254 @@ export interface GameWithEV extends LotteryGame {
     evPerDollar: number; // Current EV per dollar spent
     estimatedTotalTickets: number;
     estimatedRemainingTickets: number;
+    estimationMethod: EstimationMethod;
+
+    // Uncertainty band from the spread of per-tier ticket estimates (25th-75th percentile)
+    currentEVLow: number;
+    currentEVHigh: number;
+    evPerDollarLow: number;
+    evPerDollarHigh: number;
+    estimatedRemainingTicketsLow: number;
+    estimatedRemainingTicketsHigh: number;
+
+    // Risk metrics for a single ticket bought now
+    winProbability: number; // Chance of winning any prize (0-1)
+    breakEvenProbability: number; // Chance the prize is at least the ticket price (0-1)
+    returnStdDev: number; // Standard deviation of the payout, in dollars
+    topTierEVShare: number; // Share of currentEV coming from the top prize tier (0-1)
+
+    // After federal and state withholding; only present when EV was calculated with a tax model
+    afterTaxCurrentEV?: number;
+    afterTaxNetCurrentEV?: number;
+    afterTaxEVPerDollar?: number;
+}
+
+// Whether EV figures are shown before or after prize withholding
+export type TaxMode = 'pre-tax' | 'after-tax';
+
+// Withholding applied to a single prize (rates 0-1, thresholds in dollars)
+export interface TaxModel {
+    federalRate: number;
+    federalThreshold: number; // Prizes above this are withheld at federalRate
+    stateRate: number;
+    stateThreshold: number; // Prizes above this are withheld at stateRate
+}
+
+// Response body of GET /api/games
+export interface GamesResponse {
+    updatedAt: string; // When the snapshot (or live scrape) behind these games was taken
+    estimationMethod: EstimationMethod;
+    taxMode: TaxMode;
+    taxModel?: TaxModel; // Only in after-tax mode
+    total: number; // Games in the market before filtering
+    matched: number; // Games matching the filters, across all pages
+    nextCursor: string | null;
+    games: GameWithEV[];
+}
+
+// A prize tier annotated with how much it has been claimed and how much of the
+// game's current EV it accounts for. Used by the per-game detail view.
+export interface PrizeTierWithEV extends PrizeTier {
+    prizesClaimed: number;
+    claimedPercent: number; // 0-100
+    evContribution: number; // Dollars of currentEV coming from this tier
+    evShare: number; // evContribution / currentEV (0-1)
+}
+
+export interface GameDetail extends GameWithEV {
+    prizeTiers: PrizeTierWithEV[];
+}
+
+// One point in a game's EV time series, taken from a stored snapshot
+export interface GameHistoryPoint {
+    updatedAt: string;
+    currentEV: number;
+    evPerDollar: number;
+    estimatedRemainingTickets: number;
+    prizesRemaining: (number | null)[]; // Indexed like GameHistory.prizes; null if the tier was missing from that snapshot
+}
+
+export interface GameHistory {
+    gameNumber: string;
+    name: string;
+    prizes: string[]; // Tier labels for prizesRemaining, e.g. "$100,000"
+    points: GameHistoryPoint[];
+}
+
+// "At least `minRemaining` prizes worth `minPrize` or more are still unclaimed"
+export interface TierCondition {
+    minPrize: number;
+    minRemaining: number;
+}
+
+// Structured table filters (see lib/game-filters.ts). Every field is optional; unset means "don't filter".
+export interface GameFilters {
+    q?: string; // Substring match on name, game number or price
+    minPrice?: number;
+    maxPrice?: number;
+    minEvPerDollar?: number;
+    positiveNetEV?: boolean;
+    topPrizeAvailable?: boolean;
+    minRemainingTickets?: number;
+    tiers?: TierCondition[];
+}
+
+// Alert rules (see lib/alerts.ts):
+// - ev-per-dollar: EV per dollar crosses `threshold` in `direction` (default above)
+// - top-prizes-remaining: the top prize count drops to `threshold` or fewer
+// - new-game: a game shows up that wasn't in the previous market
+export type AlertRuleType = 'ev-per-dollar' | 'top-prizes-remaining' | 'new-game';
+
+// How a notification reaches its owner: the in-app inbox only, or also a webhook / email
+export type NotificationChannelType = 'inbox' | 'webhook' | 'email';
+
+// Games a user is watching in one state; rules without a gameNumber apply to all of them
+export interface Watchlist {
+    owner: string;
+    state: string;
+    gameNumbers: string[];
+    updatedAt: string;
+}
+
+export interface AlertRule {
+    id: string;
+    owner: string;
+    state: string;
+    type: AlertRuleType;
+    gameNumber?: string; // One game to watch; unset means every game on the owner's watchlist (not used by new-game)
+    threshold?: number; // EV per dollar (ev-per-dollar) or top prizes left (top-prizes-remaining)
+    direction?: 'above' | 'below'; // ev-per-dollar only
+    channel: NotificationChannelType;
+    target?: string; // Webhook URL or email address, for those channels
+    enabled: boolean;
+    createdAt: string;
+}
+
+export interface NotificationDelivery {
+    channel: NotificationChannelType;
+    status: 'pending' | 'sent' | 'failed'; // pending until the channel has been tried
+    error?: string;
+    attemptedAt: string;
+}
+
+// A stored alert match; every notification shows up in the inbox, whatever its channel
+export interface AlertNotification {
+    id: string;
+    owner: string;
+    ruleId: string;
+    ruleType: AlertRuleType;
+    state: string;
+    gameNumber: string;
+    gameName: string;
+    message: string;
+    createdAt: string;
+    read: boolean;
+    delivery: NotificationDelivery;
+}
+
+// Delivery adapter for one channel type, registered in lib/notifications.ts.
+// `deliver` throws if the message could not be handed off.
+export interface NotificationChannel {
+    type: NotificationChannelType;
+    deliver(notification: AlertNotification, target?: string): Promise<void>;
+}
+
+// Settings a signed-in user keeps between visits (see lib/users.ts)
+export interface UserPreferences {
+    defaultSort?: { sort: string; order: 'asc' | 'desc' }; // Table sort when the URL doesn't pick one
+    favoriteGames: string[]; // Game numbers, starred in the table
+    taxMode: TaxMode; // Table's Pre-Tax / After-Tax default
+    taxModel?: TaxModel; // Own withholding rates; unset means the server's defaults
+}
+
+// A user account as the API returns it (never includes the password hash)
+export interface User {
+    id: string;
+    username: string;
+    createdAt: string;
+    preferences: UserPreferences;
+}
+
+// One purchase of real tickets in the ledger (see lib/ledger.ts)
+export interface LedgerEntry {
+    id: string;
+    owner: string;
+    state: string;
+    gameNumber: string;
+    gameName: string;
+    purchasedAt: string; // YYYY-MM-DD
+    tickets: number;
+    cost: number; // Dollars paid for all tickets
+    prizeWon: number; // Dollars won across all tickets
+    note?: string;
+    createdAt: string;
+    prediction?: LedgerPrediction; // Missing only if no snapshot of the game could be found
+}
+
+// What the app predicted for a purchase, saved on the entry so later settings or data can't change it
+export interface LedgerPrediction {
+    currentEV: number; // Expected value of one ticket
+    evPerDollar: number;
+    snapshotUpdatedAt: string; // Snapshot the prediction came from
+    afterPurchase: boolean; // The game wasn't tracked yet on the purchase day, so the snapshot is from later
+}
+
+// A ledger entry next to what the app predicted at purchase time
+export interface LedgerEntryWithEV extends LedgerEntry {
+    snapshotUpdatedAt: string | null; // Snapshot the prediction came from; null if the game was never stored
+    snapshotAfterPurchase: boolean; // See LedgerPrediction.afterPurchase
+    evPerDollar: number | null;
+    expectedValue: number | null; // evPerDollar x cost
+    realizedROI: number; // (prizeWon - cost) / cost
+    expectedROI: number | null; // (expectedValue - cost) / cost
+}
+
+// Running totals after each purchase, oldest first
+export interface LedgerTimelinePoint {
+    date: string;
+    cost: number;
+    prizeWon: number;
+    expectedValue: number;
+    predictedCost: number;
+    realizedROI: number;
+    expectedROI: number | null; // Null until an entry has a prediction
+}
+
+export interface LedgerSummary {
+    entries: LedgerEntryWithEV[]; // Newest purchase first
+    totals: {
+        tickets: number;
+        cost: number;
+        prizeWon: number;
+        expectedValue: number;
+        predictedCost: number; // Cost of the entries with a prediction, which expectedROI is measured against
+        realizedROI: number;
+        expectedROI: number | null;
+    };
+    timeline: LedgerTimelinePoint[];
+}
+
+// Bankroll simulator input: how many tickets of a game to buy
+export interface SimulationSelection {
+    game: GameWithEV;
+    quantity: number;
+}
+
+export interface SimulationTierOdds {
+    gameNumber: string;
+    gameName: string;
+    prize: string;
+    hitProbability: number; // Chance of hitting this tier at least once across the bundle (0-1)
+}
+
+export interface SimulationResult {
+    trials: number;
+    totalTickets: number;
+    totalCost: number;
+    expectedNet: number; // Analytic EV of the bundle minus cost
+    meanNet: number; // Average simulated net result
+    percentiles: { p5: number; p25: number; p50: number; p75: number; p95: number }; // Net result
+    profitProbability: number; // Share of trials that ended ahead (0-1)
+    histogram: { from: number; to: number; count: number }[]; // Net result buckets
+    tierOdds: SimulationTierOdds[];
 }